@@ -0,0 +1,209 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Fab,
+  Container,
+  AppBar,
+  Toolbar,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Card,
+  CardContent,
+  Chip,
+  Button,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  ArrowBack,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import AddressDialog from '@/components/AddressDialog'
+import FullscreenPrompt from '@/components/FullscreenPrompt'
+import { addressService } from '@/services/addressService'
+import { formatAddressLine } from '@/lib/addresses'
+import { SavedAddress, SavedAddressInput } from '@/types/address'
+
+export default function AddressesPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingAddress, setEditingAddress] = useState<SavedAddress | null>(null)
+  const [addressToDelete, setAddressToDelete] = useState<SavedAddress | null>(null)
+
+  const fetchAddresses = async () => {
+    if (!user) return
+
+    try {
+      setError(null)
+      setAddresses(await addressService.getAddresses(user.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch addresses')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAddresses()
+  }, [user])
+
+  const handleAddAddress = () => {
+    setEditingAddress(null)
+    setDialogOpen(true)
+  }
+
+  const handleEditAddress = (address: SavedAddress) => {
+    setEditingAddress(address)
+    setDialogOpen(true)
+  }
+
+  const handleSaveAddress = async (input: SavedAddressInput) => {
+    if (!user) return
+
+    if (editingAddress) {
+      await addressService.updateAddress(editingAddress.id, input)
+    } else {
+      await addressService.createAddress(user.id, input)
+    }
+    await fetchAddresses()
+  }
+
+  const handleSetDefault = async (address: SavedAddress) => {
+    try {
+      await addressService.setDefaultAddress(address.id)
+      await fetchAddresses()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set default address')
+    }
+  }
+
+  const handleDeleteAddress = async () => {
+    if (!addressToDelete) return
+
+    try {
+      await addressService.deleteAddress(addressToDelete.id)
+      setAddresses(prev => prev.filter(a => a.id !== addressToDelete.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete address')
+    }
+  }
+
+  return (
+    <ProtectedRoute>
+      <Box sx={{ flexGrow: 1 }}>
+        <AppBar position="static">
+          <Toolbar>
+            <IconButton color="inherit" edge="start" onClick={() => router.push('/orders')} sx={{ mr: 1 }}>
+              <ArrowBack />
+            </IconButton>
+            <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+              Address Book
+            </Typography>
+          </Toolbar>
+        </AppBar>
+
+        <Container maxWidth="lg" sx={{ mt: 4, mb: 8 }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : addresses.length === 0 ? (
+            <Typography variant="body1" color="text.secondary">
+              No saved addresses yet. Add the places you ship to using the button below.
+            </Typography>
+          ) : (
+            <Box>
+              {addresses.map((address) => (
+                <Card
+                  key={address.id}
+                  sx={{ width: '100%', mb: 2, borderRadius: 2, boxShadow: 1 }}
+                >
+                  <CardContent>
+                    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                      <Box sx={{ flex: 1 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                          <Typography variant="h6" component="h2" sx={{ fontWeight: 'bold' }}>
+                            {address.label}
+                          </Typography>
+                          {address.is_default && <Chip label="DEFAULT" size="small" color="primary" />}
+                        </Box>
+                        <Typography variant="body2" color="text.secondary">
+                          {address.name}
+                          {address.contact_name && ` • ${address.contact_name}`}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {formatAddressLine(address)}
+                        </Typography>
+                        {!address.is_default && (
+                          <Button size="small" sx={{ mt: 1, px: 0 }} onClick={() => handleSetDefault(address)}>
+                            Make default
+                          </Button>
+                        )}
+                      </Box>
+
+                      <IconButton aria-label="edit address" onClick={() => handleEditAddress(address)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton aria-label="delete address" onClick={() => setAddressToDelete(address)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Box>
+                  </CardContent>
+                </Card>
+              ))}
+            </Box>
+          )}
+        </Container>
+
+        <Fab
+          color="primary"
+          aria-label="add address"
+          sx={{
+            position: 'fixed',
+            bottom: 16,
+            right: 16,
+          }}
+          onClick={handleAddAddress}
+        >
+          <AddIcon />
+        </Fab>
+
+        <AddressDialog
+          open={dialogOpen}
+          title={editingAddress ? 'Edit Address' : 'Add Address'}
+          initialAddress={editingAddress}
+          onClose={() => setDialogOpen(false)}
+          onSave={handleSaveAddress}
+        />
+
+        <FullscreenPrompt
+          open={Boolean(addressToDelete)}
+          onClose={() => setAddressToDelete(null)}
+          title="Delete Address"
+          message="Delete this address? Orders already shipped to it keep their address."
+          confirmText="Delete"
+          onConfirm={handleDeleteAddress}
+          onCancel={() => setAddressToDelete(null)}
+          severity="warning"
+        />
+      </Box>
+    </ProtectedRoute>
+  )
+}
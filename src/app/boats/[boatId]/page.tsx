@@ -0,0 +1,141 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  IconButton,
+  CircularProgress,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material'
+import { ArrowBack } from '@mui/icons-material'
+import { useAuth } from '@/contexts/AuthContext'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import OrderCard from '@/components/OrderCard'
+import { boatService } from '@/services/boatService'
+import { Boat } from '@/types/boat'
+import { Order } from '@/types/order'
+
+// A saved boat with every order made for it; open to the boat's owner and to admins
+export default function BoatHistoryPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { user } = useAuth()
+  const boatId = parseInt(params.boatId as string)
+
+  const [boat, setBoat] = useState<Boat | null>(null)
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchBoat = async () => {
+      if (!user) return
+
+      try {
+        setLoading(true)
+        setError(null)
+        const [fetchedBoat, fetchedOrders] = await Promise.all([
+          boatService.getBoat(boatId),
+          boatService.getBoatOrders(boatId),
+        ])
+        setBoat(fetchedBoat)
+        setOrders(fetchedOrders)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch boat')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBoat()
+  }, [user, boatId])
+
+  const handleBack = () => {
+    router.push(boat?.user_id === user?.id ? '/boats' : '/orders')
+  }
+
+  return (
+    <ProtectedRoute>
+      <Box sx={{ minHeight: '100vh', backgroundColor: 'grey.50' }}>
+        <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <IconButton onClick={handleBack}>
+              <ArrowBack />
+            </IconButton>
+            <Typography variant="h5" sx={{ flex: 1 }}>
+              {boat ? boat.name || [boat.year, boat.make, boat.model].filter(Boolean).join(' ') : 'Boat'}
+            </Typography>
+          </Box>
+        </Paper>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !boat ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+            <Typography variant="h6" color="error">
+              {error || 'Boat not found'}
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ p: 2, maxWidth: 'lg', mx: 'auto' }}>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <Paper sx={{ p: 2, mb: 3 }}>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Boat Information
+              </Typography>
+              <List dense>
+                <ListItem>
+                  <ListItemText primary="Make" secondary={boat.make} />
+                </ListItem>
+                <ListItem>
+                  <ListItemText primary="Model" secondary={boat.model} />
+                </ListItem>
+                {boat.year && (
+                  <ListItem>
+                    <ListItemText primary="Year" secondary={boat.year} />
+                  </ListItem>
+                )}
+                {boat.length && (
+                  <ListItem>
+                    <ListItemText primary="Length" secondary={`${boat.length} ft`} />
+                  </ListItem>
+                )}
+                {boat.hin && (
+                  <ListItem>
+                    <ListItemText primary="HIN (Hull Identification Number)" secondary={boat.hin} />
+                  </ListItem>
+                )}
+              </List>
+            </Paper>
+
+            <Typography variant="h6" gutterBottom>
+              Order History
+            </Typography>
+            {orders.length === 0 ? (
+              <Typography variant="body1" color="text.secondary">
+                No orders for this boat yet.
+              </Typography>
+            ) : (
+              orders.map((order) => (
+                <OrderCard key={order.id} order={order} />
+              ))
+            )}
+          </Box>
+        )}
+      </Box>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Fab,
+  Container,
+  AppBar,
+  Toolbar,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Card,
+  CardContent,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  ArrowBack,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import BoatDialog from '@/components/BoatDialog'
+import FullscreenPrompt from '@/components/FullscreenPrompt'
+import { boatService } from '@/services/boatService'
+import { Boat, BoatInput } from '@/types/boat'
+
+export default function BoatsPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [boats, setBoats] = useState<Boat[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingBoat, setEditingBoat] = useState<Boat | null>(null)
+  const [boatToDelete, setBoatToDelete] = useState<Boat | null>(null)
+
+  useEffect(() => {
+    const fetchBoats = async () => {
+      if (!user) return
+
+      try {
+        setLoading(true)
+        setError(null)
+        setBoats(await boatService.getBoats(user.id))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch boats')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBoats()
+  }, [user])
+
+  const handleAddBoat = () => {
+    setEditingBoat(null)
+    setDialogOpen(true)
+  }
+
+  const handleEditBoat = (boat: Boat) => {
+    setEditingBoat(boat)
+    setDialogOpen(true)
+  }
+
+  const handleSaveBoat = async (input: BoatInput) => {
+    if (!user) return
+
+    if (editingBoat) {
+      const updated = await boatService.updateBoat(editingBoat.id, input)
+      setBoats(prev => prev.map(b => (b.id === updated.id ? updated : b)))
+    } else {
+      const created = await boatService.createBoat(user.id, input)
+      setBoats(prev => [created, ...prev])
+    }
+  }
+
+  const handleDeleteBoat = async () => {
+    if (!boatToDelete) return
+
+    try {
+      await boatService.deleteBoat(boatToDelete.id)
+      setBoats(prev => prev.filter(b => b.id !== boatToDelete.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete boat')
+    }
+  }
+
+  const getBoatDescription = (boat: Boat) => {
+    return [boat.year, boat.make, boat.model].filter(Boolean).join(' ')
+  }
+
+  return (
+    <ProtectedRoute>
+      <Box sx={{ flexGrow: 1 }}>
+        <AppBar position="static">
+          <Toolbar>
+            <IconButton color="inherit" edge="start" onClick={() => router.push('/orders')} sx={{ mr: 1 }}>
+              <ArrowBack />
+            </IconButton>
+            <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+              My Boats
+            </Typography>
+          </Toolbar>
+        </AppBar>
+
+        <Container maxWidth="lg" sx={{ mt: 4, mb: 8 }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : boats.length === 0 ? (
+            <Typography variant="body1" color="text.secondary">
+              No boats saved yet. Boats you order for are saved here, or add one using the button below.
+            </Typography>
+          ) : (
+            <Box>
+              {boats.map((boat) => (
+                <Card
+                  key={boat.id}
+                  onClick={() => router.push(`/boats/${boat.id}`)}
+                  sx={{
+                    width: '100%',
+                    mb: 2,
+                    borderRadius: 2,
+                    boxShadow: 1,
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease-in-out',
+                    '&:hover': {
+                      boxShadow: 3,
+                      transform: 'translateY(-2px)',
+                    }
+                  }}
+                >
+                  <CardContent>
+                    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                      <Box sx={{ flex: 1 }}>
+                        <Typography variant="h6" component="h2" gutterBottom sx={{ fontWeight: 'bold' }}>
+                          {boat.name || getBoatDescription(boat)}
+                        </Typography>
+                        {boat.name && (
+                          <Typography variant="body2" color="text.secondary">
+                            {getBoatDescription(boat)}
+                          </Typography>
+                        )}
+                        {boat.length && (
+                          <Typography variant="body2" color="text.secondary">
+                            Length: {boat.length} ft
+                          </Typography>
+                        )}
+                        {boat.hin && (
+                          <Typography variant="body2" color="text.secondary">
+                            HIN: {boat.hin}
+                          </Typography>
+                        )}
+                      </Box>
+
+                      <IconButton
+                        aria-label="edit boat"
+                        onClick={(event) => {
+                          event.stopPropagation()
+                          handleEditBoat(boat)
+                        }}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        aria-label="delete boat"
+                        onClick={(event) => {
+                          event.stopPropagation()
+                          setBoatToDelete(boat)
+                        }}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Box>
+                  </CardContent>
+                </Card>
+              ))}
+            </Box>
+          )}
+        </Container>
+
+        <Fab
+          color="primary"
+          aria-label="add boat"
+          sx={{
+            position: 'fixed',
+            bottom: 16,
+            right: 16,
+          }}
+          onClick={handleAddBoat}
+        >
+          <AddIcon />
+        </Fab>
+
+        <BoatDialog
+          open={dialogOpen}
+          boat={editingBoat}
+          onClose={() => setDialogOpen(false)}
+          onSave={handleSaveBoat}
+        />
+
+        <FullscreenPrompt
+          open={Boolean(boatToDelete)}
+          onClose={() => setBoatToDelete(null)}
+          title="Delete Boat"
+          message="Delete this boat? Orders made for it keep their boat details."
+          confirmText="Delete"
+          onConfirm={handleDeleteBoat}
+          onCancel={() => setBoatToDelete(null)}
+          severity="warning"
+        />
+      </Box>
+    </ProtectedRoute>
+  )
+}
@@ -28,19 +28,30 @@ import {
   Image as ImageIcon,
   VideoFile,
   Description,
-  DirectionsBoat
+  DirectionsBoat,
+  ReceiptLong
 } from '@mui/icons-material'
 import { useAuth } from '@/contexts/AuthContext'
 import { orderService } from '@/services/orderService'
 import { Order } from '@/types/order'
+import { Quote } from '@/types/quote'
+import { quoteService } from '@/services/quoteService'
+import { getDepositAmount } from '@/lib/quote'
+import { describeMaterial } from '@/lib/materials'
+import { checkHin, describeHin } from '@/lib/hin'
 import OrderMediaPreview from '@/components/OrderMediaPreview'
 import StripePayment from '@/components/StripePayment'
+import PaymentLedger from '@/components/PaymentLedger'
+import ShipmentTracking from '@/components/ShipmentTracking'
+import OrderColors from '@/components/OrderColors'
 import PaymentResult from '@/components/PaymentResult'
 
 const getStatusColor = (status: Order['status']) => {
   switch (status) {
     case 'UNPAID':
       return 'error'
+    case 'PARTIALLY_PAID':
+      return 'secondary'
     case 'PAID':
       return 'warning'
     case 'PREPARING':
@@ -65,6 +76,7 @@ function OrderDetailsPageContent() {
   const orderId = parseInt(searchParams.get('orderId') || '0')
   
   const [order, setOrder] = useState<Order | null>(null)
+  const [quote, setQuote] = useState<Quote | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAdmin, setIsAdmin] = useState(false)
@@ -88,6 +100,7 @@ function OrderDetailsPageContent() {
       
       if (orderData) {
         setOrder(orderData)
+        setQuote(await quoteService.getCurrentQuote(orderData.id))
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load order details')
@@ -179,6 +192,11 @@ function OrderDetailsPageContent() {
     )
   }
 
+  // Patterns are pulled by HIN, so flag one that does not decode or disagrees with the boat details
+  const hinCheck = order.boat_HIN
+    ? checkHin(order.boat_HIN, { year: order.boat_year, make: order.boat_make })
+    : null
+
   return (
     <Box sx={{ minHeight: '100vh', backgroundColor: 'grey.50' }}>
       {/* Header */}
@@ -216,17 +234,30 @@ function OrderDetailsPageContent() {
               Outstanding amount: ${order.outstanding_amount.toFixed(2)}
             </Typography>
             <Typography variant="body2">
-              Please complete the payment to continue with your order.
+              {quote?.status === 'ACCEPTED'
+                ? 'Please complete the payment to continue with your order.'
+                : 'Please review and accept your quote before paying.'}
             </Typography>
           </Alert>
-          <Button
-            variant="contained"
-            startIcon={<Payment />}
-            onClick={handlePayWithStripe}
-            fullWidth
-          >
-            Pay with Stripe
-          </Button>
+          {quote?.status === 'ACCEPTED' ? (
+            <Button
+              variant="contained"
+              startIcon={<Payment />}
+              onClick={handlePayWithStripe}
+              fullWidth
+            >
+              Pay with Stripe
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={<ReceiptLong />}
+              onClick={() => router.push(`/orders/${order.id}`)}
+              fullWidth
+            >
+              Review Quote
+            </Button>
+          )}
         </Box>
       )}
 
@@ -264,7 +295,8 @@ function OrderDetailsPageContent() {
                 <ListItem>
                   <ListItemText 
                     primary="Colors" 
-                    secondary={order.color?.join(', ') || 'None specified'} 
+                    secondary={<OrderColors colors={order.color || []} />}
+                    secondaryTypographyProps={{ component: 'div', sx: { mt: 0.5 } }}
                   />
                 </ListItem>
                 <ListItem>
@@ -342,12 +374,38 @@ function OrderDetailsPageContent() {
                       />
                     </ListItem>
                   )}
+                  {hinCheck && (hinCheck.decoded || hinCheck.errors.length > 0) && (
+                    <ListItem>
+                      <ListItemText 
+                        primary="Decoded HIN" 
+                        secondary={
+                          <>
+                            {hinCheck.decoded && describeHin(hinCheck.decoded)}
+                            {[...hinCheck.errors, ...hinCheck.warnings].map((message) => (
+                              <Typography key={message} component="span" variant="body2" color="warning.main" sx={{ display: 'block' }}>
+                                {message}
+                              </Typography>
+                            ))}
+                          </>
+                        } 
+                      />
+                    </ListItem>
+                  )}
                 </List>
               ) : (
                 <Typography variant="body2" color="text.secondary">
                   No boat information provided
                 </Typography>
               )}
+              {order.boat_id && (
+                <Button
+                  size="small"
+                  sx={{ mt: 1 }}
+                  onClick={() => router.push(`/boats/${order.boat_id}`)}
+                >
+                  View boat history
+                </Button>
+              )}
             </CardContent>
           </Card>
 
@@ -446,6 +504,9 @@ function OrderDetailsPageContent() {
             </CardContent>
           </Card>
 
+          {/* Shipment Tracking */}
+          <ShipmentTracking orderId={order.id} refreshKey={order.updated_at} />
+
           {/* Cushions Details */}
           {order.cushions && order.cushions.length > 0 && (
             <Card sx={{ gridColumn: '1 / -1' }}>
@@ -466,6 +527,12 @@ function OrderDetailsPageContent() {
                       {cushion.mirror && (
                         <Chip label="Mirrored" size="small" color="primary" sx={{ mb: 2 }} />
                       )}
+
+                      {cushion.material && describeMaterial(cushion.material) && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                          {describeMaterial(cushion.material)}
+                        </Typography>
+                      )}
                       
                       {/* Videos */}
                       {cushion.videos && cushion.videos.length > 0 && cushion.videos.some(v => v && v.trim() !== '') && (
@@ -573,6 +640,14 @@ function OrderDetailsPageContent() {
                     secondary={order.status} 
                   />
                 </ListItem>
+                {order.total_amount !== null && order.total_amount !== undefined && (
+                  <ListItem>
+                    <ListItemText
+                      primary="Amount Paid"
+                      secondary={`$${Number(order.amount_paid || 0).toFixed(2)} of $${Number(order.total_amount).toFixed(2)}`}
+                    />
+                  </ListItem>
+                )}
                 {order.outstanding_amount && order.outstanding_amount > 0 && (
                   <ListItem>
                     <ListItemText 
@@ -581,17 +656,29 @@ function OrderDetailsPageContent() {
                     />
                   </ListItem>
                 )}
-                {order.payment_intent_id && order.payment_intent_id.length > 0 && (
+                {order.last_payment_error && (order.outstanding_amount || 0) > 0 && (
                   <ListItem>
-                    <ListItemText 
-                      primary="Payment Intents" 
-                      secondary={order.payment_intent_id.join(', ')} 
+                    <ListItemText
+                      primary="Last Payment Attempt Failed"
+                      secondary={order.last_payment_error}
+                      secondaryTypographyProps={{ color: 'error' }}
+                    />
+                  </ListItem>
+                )}
+                {order.dispute_status && (
+                  <ListItem>
+                    <ListItemText
+                      primary="Dispute"
+                      secondary={order.dispute_status.replace(/_/g, ' ')}
                     />
                   </ListItem>
                 )}
               </List>
             </CardContent>
           </Card>
+
+          {/* Payments Ledger */}
+          <PaymentLedger orderId={order.id} refreshKey={order.updated_at} />
         </Box>
       </Box>
 
@@ -600,6 +687,11 @@ function OrderDetailsPageContent() {
         <StripePayment
           orderId={order.id}
           amount={order.outstanding_amount || 0}
+          depositAmount={
+            quote?.status === 'ACCEPTED' && quote.deposit_percent > 0 && !order.amount_paid
+              ? getDepositAmount(quote)
+              : undefined
+          }
           onSuccess={handlePaymentSuccess}
           onError={handlePaymentError}
           onClose={handlePaymentClose}
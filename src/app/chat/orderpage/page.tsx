@@ -19,26 +19,46 @@ import {
   DialogActions,
   FormControl,
   InputLabel,
+  FormHelperText,
   Select,
   MenuItem,
   Stack
 } from '@mui/material'
-import { Send, ArrowBack } from '@mui/icons-material'
+import { Send, ArrowBack, Inventory2, LocalShipping } from '@mui/icons-material'
 import { useAuth } from '@/contexts/AuthContext'
 import { chatService } from '@/services/chatService'
 import { messageCacheService } from '@/services/messageCacheService'
 import { ChatMessageWithSender } from '@/types/chat'
 import { orderService } from '@/services/orderService'
 import { Order, OrderStatus } from '@/types/order'
-import { supabase } from '@/lib/supabase'
+import { canTransitionOrderStatus, getAllowedNextStatuses, requiresSettledBalance } from '@/lib/orderStatus'
 import ChatLoading from '@/components/ChatLoading'
 import MessageBubble from '@/components/MessageBubble'
 import MediaUpload from '@/components/MediaUpload'
+import QuoteBuilderDialog from '@/components/QuoteBuilderDialog'
+import { quoteService } from '@/services/quoteService'
+import { Quote } from '@/types/quote'
+import { getAttentionDescription, getAttentionLabel } from '@/lib/orderAttention'
+import { getRefundableAmount } from '@/lib/payments'
+import { PaymentService } from '@/services/paymentService'
+import { getCarriers } from '@/lib/carriers'
+import { shippingDocumentService, ShippingDocumentType } from '@/services/shippingDocumentService'
+
+// Entered when moving an order to SHIPPING; inputs are kept as strings while editing
+const emptyShipmentForm = () => ({
+  carrier: '',
+  tracking_number: '',
+  ship_date: new Date().toISOString().slice(0, 10),
+  package_count: '1',
+  weight_lbs: '',
+})
 
 const getStatusColor = (status: Order['status']) => {
   switch (status) {
     case 'UNPAID':
       return 'error'
+    case 'PARTIALLY_PAID':
+      return 'secondary'
     case 'PAID':
       return 'warning'
     case 'PREPARING':
@@ -76,8 +96,14 @@ function ChatPageContent() {
   const [editOpen, setEditOpen] = useState(false)
   const [selectedStatus, setSelectedStatus] = useState<OrderStatus | ''>('')
   const [saving, setSaving] = useState(false)
-  const [showAmountInput, setShowAmountInput] = useState<null | 'outstanding' | 'refund'>(null)
+  const [showAmountInput, setShowAmountInput] = useState<null | 'refund'>(null)
   const [amountValue, setAmountValue] = useState<string>('')
+  const [refundableAmount, setRefundableAmount] = useState<number | null>(null)
+  const [currentQuote, setCurrentQuote] = useState<Quote | null>(null)
+  const [quoteBuilderOpen, setQuoteBuilderOpen] = useState(false)
+  const [resolvingAttention, setResolvingAttention] = useState(false)
+  const [shipmentForm, setShipmentForm] = useState(emptyShipmentForm)
+  const [printing, setPrinting] = useState<ShippingDocumentType | null>(null)
 
   // Auto-scroll to bottom when new messages arrive
   const scrollToBottom = useCallback(() => {
@@ -119,6 +145,10 @@ function ChatPageContent() {
           setOrder(orderData)
         }
 
+        if (adminStatus && orderData) {
+          setCurrentQuote(await quoteService.getCurrentQuote(orderData.id, true))
+        }
+
         // Load existing messages with sender information (try cache first)
         let messagesWithSender = messageCacheService.getCachedMessages(orderId)
         if (messagesWithSender.length === 0) {
@@ -246,6 +276,7 @@ function ChatPageContent() {
   const handleOpenEdit = () => {
     if (!order) return
     setSelectedStatus(order.status)
+    setShipmentForm(emptyShipmentForm())
     setEditOpen(true)
   }
 
@@ -254,62 +285,47 @@ function ChatPageContent() {
     setEditOpen(false)
     setShowAmountInput(null)
     setAmountValue('')
+    setRefundableAmount(null)
   }
 
   const handleSaveStatus = async () => {
     if (!order || !isAdmin || !selectedStatus || saving) return
     try {
       setSaving(true)
-      if (showAmountInput === 'outstanding') {
-        const amount = Number(amountValue)
-        if (!Number.isFinite(amount) || amount < 0) {
-          throw new Error('Enter a valid non-negative amount')
-        }
-        await orderService.updateOutstandingAmountAdmin(order.id, amount)
-        setOrder({ ...order, outstanding_amount: amount, status: 'UNPAID' })
-        await chatService.sendMessage(
-          order.id,
-          `Outstanding amount set to $${amount.toFixed(2)}. Status set to UNPAID.`,
-          user!.id
-        )
-      } else if (showAmountInput === 'refund') {
+      if (showAmountInput === 'refund') {
         const amount = Number(amountValue)
         if (!Number.isFinite(amount) || amount <= 0) {
           throw new Error('Enter a valid positive amount')
         }
-        
-        console.log('Calling partial refund function with:', {
-          order_id: order.id,
-          refund_amount: amount
-        })
-        
-        const { data, error } = await supabase.functions.invoke('issue-partial-refund', {
-          body: {
-            order_id: order.id,
-            refund_amount: amount
-          }
-        })
-        
-        console.log('Partial refund response:', { data, error })
-        
-        if (error) {
-          throw new Error(error.message || 'Failed to issue partial refund')
+
+        if (refundableAmount !== null && amount > refundableAmount) {
+          throw new Error(`Only $${refundableAmount.toFixed(2)} can still be refunded on this order`)
         }
-        
-        await chatService.sendMessage(
-          order.id,
-          `A partial refund of $${amount.toFixed(2)} has been initiated.`,
-          user!.id
-        )
+
+        // The edge function posts the refund message to the chat
+        await PaymentService.issueRefund({ orderId: order.id, refundAmount: amount })
+        setRefundableAmount(null)
       } else {
         const previousStatus = order.status
-        await orderService.updateOrderStatusAdmin(order.id, selectedStatus)
-        setOrder({ ...order, status: selectedStatus })
-        await chatService.sendMessage(
-          order.id,
-          `Order status changed from ${previousStatus} to ${selectedStatus}.`,
-          user!.id
-        )
+        const shipment = selectedStatus === 'SHIPPING'
+          ? {
+              carrier: shipmentForm.carrier,
+              tracking_number: shipmentForm.tracking_number.trim(),
+              ship_date: shipmentForm.ship_date,
+              package_count: Number(shipmentForm.package_count),
+              weight_lbs: shipmentForm.weight_lbs ? Number(shipmentForm.weight_lbs) : null,
+            }
+          : undefined
+        const updatedOrder = await orderService.updateOrderStatusAdmin(order.id, previousStatus, selectedStatus, order.outstanding_amount, shipment)
+        setOrder({ ...order, ...updatedOrder })
+        // The edge function posts the shipment message to the chat
+        if (!shipment) {
+          await chatService.sendMessage(
+            order.id,
+            `Order status changed from ${previousStatus} to ${selectedStatus}.`,
+            user!.id
+          )
+        }
       }
       setShowAmountInput(null)
       setAmountValue('')
@@ -321,18 +337,66 @@ function ChatPageContent() {
     }
   }
 
-  const handleSetOutstandingAmount = async () => {
+  const handlePartialRefund = async () => {
     if (!order || !isAdmin) return
-    setShowAmountInput('outstanding')
-    setSelectedStatus('UNPAID')
+    setShowAmountInput('refund')
+    try {
+      setRefundableAmount(getRefundableAmount(await PaymentService.getPayments(order.id)))
+    } catch (err) {
+      // The edge function enforces the cap either way; only the hint is missing
+      console.error('Failed to load refundable amount:', err)
+    }
   }
 
-  const handlePartialRefund = async () => {
+  const handleOpenQuoteBuilder = () => {
     if (!order || !isAdmin) return
-    setShowAmountInput('refund')
+    setEditOpen(false)
+    setShowAmountInput(null)
+    setAmountValue('')
+    setQuoteBuilderOpen(true)
   }
 
-  
+  const handleQuoteSaved = async (quote: Quote, updatedOrder: Order) => {
+    setCurrentQuote(quote)
+    setOrder(prev => prev ? { ...prev, ...updatedOrder } : prev)
+    setQuoteBuilderOpen(false)
+    // Drafts are not visible to the customer yet, so only announce sent quotes
+    if (quote.status !== 'SENT') return
+    try {
+      await chatService.sendMessage(
+        updatedOrder.id,
+        `Quote #${quote.id} for $${Number(quote.total).toFixed(2)} is ready. Please review and accept it in the order details before paying.`,
+        user!.id
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send quote message')
+    }
+  }
+
+  const handlePrintShippingDocuments = async (type: ShippingDocumentType) => {
+    if (!order || !isAdmin || printing) return
+    try {
+      setPrinting(type)
+      await shippingDocumentService.downloadShippingDocuments([order.id], type)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate shipping documents')
+    } finally {
+      setPrinting(null)
+    }
+  }
+
+  const handleResolveAttention = async () => {
+    if (!order || !isAdmin || resolvingAttention) return
+    try {
+      setResolvingAttention(true)
+      const updatedOrder = await orderService.resolveAttentionAdmin(order.id)
+      setOrder(prev => prev ? { ...prev, ...updatedOrder } : prev)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve order')
+    } finally {
+      setResolvingAttention(false)
+    }
+  }
 
   if (loading) {
     return <ChatLoading />
@@ -348,6 +412,11 @@ function ChatPageContent() {
     )
   }
 
+  const allowedNextStatuses = getAllowedNextStatuses(order.status)
+  const hasBalanceDue = (order.outstanding_amount || 0) > 0
+  const needsShipment = showAmountInput === null && selectedStatus === 'SHIPPING' && order.status !== 'SHIPPING'
+  const shipmentIncomplete = needsShipment && (!shipmentForm.carrier || !shipmentForm.tracking_number.trim() || !shipmentForm.ship_date || Number(shipmentForm.package_count) < 1)
+
   return (
     <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
       {/* Enhanced Header */}
@@ -435,6 +504,30 @@ function ChatPageContent() {
             View Details
           </Button>
         </Box>
+
+        {/* Shipping Documents */}
+        {isAdmin && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2, mt: 1 }}>
+            <Button
+              size="small"
+              startIcon={printing === 'packing_slips' ? <CircularProgress size={16} /> : <Inventory2 />}
+              onClick={() => handlePrintShippingDocuments('packing_slips')}
+              disabled={Boolean(printing)}
+              sx={{ textTransform: 'none' }}
+            >
+              Packing Slip
+            </Button>
+            <Button
+              size="small"
+              startIcon={printing === 'labels' ? <CircularProgress size={16} /> : <LocalShipping />}
+              onClick={() => handlePrintShippingDocuments('labels')}
+              disabled={Boolean(printing)}
+              sx={{ textTransform: 'none' }}
+            >
+              Shipping Label
+            </Button>
+          </Box>
+        )}
       </Paper>
 
       {/* Error Alert */}
@@ -444,6 +537,21 @@ function ChatPageContent() {
         </Alert>
       )}
 
+      {/* Payment problem flagged by the Stripe webhook */}
+      {isAdmin && order.needs_attention && (
+        <Alert
+          severity="warning"
+          sx={{ m: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleResolveAttention} disabled={resolvingAttention}>
+              {resolvingAttention ? 'Resolving...' : 'Mark Resolved'}
+            </Button>
+          }
+        >
+          <strong>{getAttentionLabel(order.attention_reason)}:</strong> {getAttentionDescription(order.attention_reason)}
+        </Alert>
+      )}
+
       {/* Messages with Mask Fade Effect */}
       <Box sx={{ 
         flex: 1, 
@@ -515,17 +623,24 @@ function ChatPageContent() {
         <DialogTitle>Edit Order Details</DialogTitle>
         <DialogContent sx={{ pt: 1 }}>
           <Stack direction="row" spacing={2} sx={{ mb: 2 }}>
-            <Button variant="outlined" onClick={handleSetOutstandingAmount}>Set Outstanding Amount</Button>
             <Button variant="outlined" onClick={handlePartialRefund}>Partial Refund</Button>
+            <Button
+              variant="outlined"
+              onClick={handleOpenQuoteBuilder}
+              disabled={order.status !== 'UNPAID' && !canTransitionOrderStatus(order.status, 'UNPAID')}
+            >
+              {currentQuote ? 'Revise Quote' : 'Build Quote'}
+            </Button>
           </Stack>
           {showAmountInput && (
             <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2 }}>
               <TextField
                 type="number"
-                label={showAmountInput === 'outstanding' ? 'Outstanding Amount' : 'Refund Amount'}
+                label="Refund Amount"
                 value={amountValue}
                 onChange={(e) => setAmountValue(e.target.value)}
-                inputProps={{ min: 0, step: '0.01' }}
+                inputProps={{ min: 0, max: refundableAmount ?? undefined, step: '0.01' }}
+                helperText={refundableAmount !== null ? `Up to $${refundableAmount.toFixed(2)} refundable` : undefined}
               />
             </Stack>
           )}
@@ -537,23 +652,91 @@ function ChatPageContent() {
               value={selectedStatus}
               onChange={(e) => setSelectedStatus(e.target.value as OrderStatus)}
             >
-              <MenuItem value={'UNPAID'}>UNPAID</MenuItem>
-              <MenuItem value={'PAID'}>PAID</MenuItem>
-              <MenuItem value={'PREPARING'}>PREPARING</MenuItem>
-              <MenuItem value={'SHIPPING'}>SHIPPING</MenuItem>
-              <MenuItem value={'DELIVERED'}>DELIVERED</MenuItem>
-              <MenuItem value={'CANCELLED'}>CANCELLED</MenuItem>
-              <MenuItem value={'RETURNED'}>RETURNED</MenuItem>
+              <MenuItem value={order.status}>{order.status} (current)</MenuItem>
+              {allowedNextStatuses.map((status) => (
+                <MenuItem key={status} value={status} disabled={requiresSettledBalance(status) && hasBalanceDue}>
+                  {requiresSettledBalance(status) && hasBalanceDue ? `${status} (balance due)` : status}
+                </MenuItem>
+              ))}
             </Select>
+            <FormHelperText>
+              {allowedNextStatuses.length > 0
+                ? `Allowed next statuses: ${allowedNextStatuses.join(', ')}`
+                : `${order.status} is a final status and cannot be changed`}
+            </FormHelperText>
           </FormControl>
+          {needsShipment && (
+            <Stack spacing={2} sx={{ mt: 2 }}>
+              <Typography variant="subtitle2">Shipment</Typography>
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                <FormControl fullWidth required>
+                  <InputLabel id="carrier-label">Carrier</InputLabel>
+                  <Select
+                    labelId="carrier-label"
+                    label="Carrier"
+                    value={shipmentForm.carrier}
+                    onChange={(e) => setShipmentForm(prev => ({ ...prev, carrier: e.target.value }))}
+                  >
+                    {getCarriers().map((carrier) => (
+                      <MenuItem key={carrier.code} value={carrier.code}>{carrier.name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  fullWidth
+                  required
+                  label="Tracking Number"
+                  value={shipmentForm.tracking_number}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, tracking_number: e.target.value }))}
+                />
+              </Stack>
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                <TextField
+                  fullWidth
+                  required
+                  type="date"
+                  label="Ship Date"
+                  value={shipmentForm.ship_date}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, ship_date: e.target.value }))}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  fullWidth
+                  required
+                  type="number"
+                  label="Packages"
+                  value={shipmentForm.package_count}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, package_count: e.target.value }))}
+                  inputProps={{ min: 1, step: 1 }}
+                />
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Weight (lbs)"
+                  value={shipmentForm.weight_lbs}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, weight_lbs: e.target.value }))}
+                  inputProps={{ min: 0, step: '0.1' }}
+                />
+              </Stack>
+            </Stack>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseEdit} disabled={saving}>Cancel</Button>
-          <Button onClick={handleSaveStatus} variant="contained" disabled={saving || !selectedStatus || (showAmountInput !== null && amountValue === '')}>
+          <Button onClick={handleSaveStatus} variant="contained" disabled={saving || !selectedStatus || (showAmountInput === null && selectedStatus === order.status) || (showAmountInput !== null && amountValue === '') || shipmentIncomplete}>
             {saving ? 'Saving...' : 'Save'}
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Quote Builder Dialog */}
+      <QuoteBuilderDialog
+        open={quoteBuilderOpen}
+        order={order}
+        currentQuote={currentQuote}
+        onClose={() => setQuoteBuilderOpen(false)}
+        onSaved={handleQuoteSaved}
+      />
     </Box>
   )
 }
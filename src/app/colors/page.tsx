@@ -0,0 +1,224 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Fab,
+  Container,
+  AppBar,
+  Toolbar,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Card,
+  CardContent,
+  Chip,
+  Switch,
+  Tooltip,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  ArrowBack,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import ColorDialog from '@/components/ColorDialog'
+import ColorSwatch from '@/components/ColorSwatch'
+import FullscreenPrompt from '@/components/FullscreenPrompt'
+import { colorService } from '@/services/colorService'
+import { orderService } from '@/services/orderService'
+import { Color, ColorInput } from '@/types/color'
+
+export default function ColorsPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const [colors, setColors] = useState<Color[]>([])
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingColor, setEditingColor] = useState<Color | null>(null)
+  const [colorToDelete, setColorToDelete] = useState<Color | null>(null)
+
+  const fetchColors = async () => {
+    if (!user) return
+
+    try {
+      setError(null)
+      const adminStatus = await orderService.isAdmin(user.id)
+      setIsAdmin(adminStatus)
+      if (adminStatus) {
+        setColors(await colorService.getColors(true))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch colors')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchColors()
+  }, [user])
+
+  const handleAddColor = () => {
+    setEditingColor(null)
+    setDialogOpen(true)
+  }
+
+  const handleEditColor = (color: Color) => {
+    setEditingColor(color)
+    setDialogOpen(true)
+  }
+
+  const handleSaveColor = async (input: ColorInput) => {
+    if (editingColor) {
+      await colorService.updateColor(editingColor.id, input)
+    } else {
+      await colorService.createColor(input)
+    }
+    await fetchColors()
+  }
+
+  const handleToggleActive = async (color: Color) => {
+    try {
+      const updated = await colorService.updateColor(color.id, { is_active: !color.is_active })
+      setColors(prev => prev.map(c => c.id === updated.id ? updated : c))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update color')
+    }
+  }
+
+  const handleDeleteColor = async () => {
+    if (!colorToDelete) return
+
+    try {
+      await colorService.deleteColor(colorToDelete.id)
+      setColors(prev => prev.filter(c => c.id !== colorToDelete.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete color')
+    }
+  }
+
+  const nextSortOrder = colors.reduce((max, color) => Math.max(max, color.sort_order), 0) + 10
+
+  return (
+    <ProtectedRoute>
+      <Box sx={{ flexGrow: 1 }}>
+        <AppBar position="static">
+          <Toolbar>
+            <IconButton color="inherit" edge="start" onClick={() => router.push('/orders')} sx={{ mr: 1 }}>
+              <ArrowBack />
+            </IconButton>
+            <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+              Colors
+            </Typography>
+          </Toolbar>
+        </AppBar>
+
+        <Container maxWidth="lg" sx={{ mt: 4, mb: 8 }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : !isAdmin ? (
+            <Alert severity="warning">Only admins can manage the color catalog.</Alert>
+          ) : colors.length === 0 ? (
+            <Typography variant="body1" color="text.secondary">
+              No colors yet. Add the fabrics customers can choose from using the button below.
+            </Typography>
+          ) : (
+            <Box>
+              {colors.map((color) => (
+                <Card
+                  key={color.id}
+                  sx={{ width: '100%', mb: 2, borderRadius: 2, boxShadow: 1, opacity: color.is_active ? 1 : 0.7 }}
+                >
+                  <CardContent>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                      <ColorSwatch color={color} />
+                      <Box sx={{ flex: 1 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Typography variant="h6" component="h2" sx={{ fontWeight: 'bold' }}>
+                            {color.name}
+                          </Typography>
+                          {!color.is_active && <Chip label="DISCONTINUED" size="small" />}
+                        </Box>
+                        <Typography variant="body2" color="text.secondary">
+                          {[
+                            color.hex,
+                            color.fabric_line,
+                            Number(color.surcharge) > 0 ? `+$${Number(color.surcharge).toFixed(2)} per piece` : null,
+                            `Sort ${color.sort_order}`,
+                          ].filter(Boolean).join(' • ')}
+                        </Typography>
+                      </Box>
+
+                      <Tooltip title={color.is_active ? 'Offered on new orders' : 'Discontinued'}>
+                        <Switch
+                          checked={color.is_active}
+                          onChange={() => handleToggleActive(color)}
+                          inputProps={{ 'aria-label': `${color.name} offered on new orders` }}
+                        />
+                      </Tooltip>
+                      <IconButton aria-label="edit color" onClick={() => handleEditColor(color)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton aria-label="delete color" onClick={() => setColorToDelete(color)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Box>
+                  </CardContent>
+                </Card>
+              ))}
+            </Box>
+          )}
+        </Container>
+
+        {isAdmin && (
+          <Fab
+            color="primary"
+            aria-label="add color"
+            sx={{
+              position: 'fixed',
+              bottom: 16,
+              right: 16,
+            }}
+            onClick={handleAddColor}
+          >
+            <AddIcon />
+          </Fab>
+        )}
+
+        <ColorDialog
+          open={dialogOpen}
+          color={editingColor}
+          nextSortOrder={nextSortOrder}
+          onClose={() => setDialogOpen(false)}
+          onSave={handleSaveColor}
+        />
+
+        <FullscreenPrompt
+          open={Boolean(colorToDelete)}
+          onClose={() => setColorToDelete(null)}
+          title="Delete Color"
+          message="Delete this color? Orders placed with it will only show its name. To stop offering it but keep its swatch, discontinue it instead."
+          confirmText="Delete"
+          onConfirm={handleDeleteColor}
+          onCancel={() => setColorToDelete(null)}
+          severity="warning"
+        />
+      </Box>
+    </ProtectedRoute>
+  )
+}
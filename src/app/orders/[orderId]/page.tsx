@@ -26,19 +26,34 @@ import {
   Chair, 
   Image as ImageIcon,
   VideoFile,
-  Description
+  Description,
+  ReceiptLong,
+  Replay,
+  DirectionsBoat
 } from '@mui/icons-material'
 import { useAuth } from '@/contexts/AuthContext'
 import { orderService } from '@/services/orderService'
 import { PaymentService } from '@/services/paymentService'
 import { Order } from '@/types/order'
+import { Quote } from '@/types/quote'
+import { quoteService } from '@/services/quoteService'
+import { invoiceService } from '@/services/invoiceService'
+import { getDepositAmount } from '@/lib/quote'
 import FullscreenPrompt from '@/components/FullscreenPrompt'
 import StripePayment from '@/components/StripePayment'
+import PaymentLedger from '@/components/PaymentLedger'
+import OrderTimeline from '@/components/OrderTimeline'
+import ShipmentTracking from '@/components/ShipmentTracking'
+import OrderColors from '@/components/OrderColors'
+import OrderCushions from '@/components/OrderCushions'
+import QuoteSummary from '@/components/QuoteSummary'
 
 const getStatusColor = (status: Order['status']) => {
   switch (status) {
     case 'UNPAID':
       return 'error'
+    case 'PARTIALLY_PAID':
+      return 'secondary'
     case 'PAID':
       return 'warning'
     case 'PREPARING':
@@ -64,12 +79,15 @@ export default function OrderPage() {
   const orderId = parseInt(params.orderId as string)
   
   const [order, setOrder] = useState<Order | null>(null)
+  const [quote, setQuote] = useState<Quote | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAdmin, setIsAdmin] = useState(false)
   const [showPayment, setShowPayment] = useState(false)
   const [showPaymentFailure, setShowPaymentFailure] = useState(false)
   const [paymentFailureMessage, setPaymentFailureMessage] = useState('')
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false)
+  const [startingReorder, setStartingReorder] = useState(false)
 
   const loadOrderDetails = async () => {
     try {
@@ -92,6 +110,7 @@ export default function OrderPage() {
       
       if (orderData) {
         setOrder(orderData)
+        setQuote(await quoteService.getCurrentQuote(orderData.id))
       } else {
         setError('Order not found')
       }
@@ -173,7 +192,31 @@ export default function OrderPage() {
     router.push('/orders')
   }
 
+  const handleDownloadInvoice = async () => {
+    if (!order || downloadingInvoice) return
+    try {
+      setDownloadingInvoice(true)
+      const { url } = await invoiceService.getCurrentInvoice(order.id)
+      window.location.href = url
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download invoice')
+    } finally {
+      setDownloadingInvoice(false)
+    }
+  }
 
+  // Open the new order wizard pre-filled from this order
+  const handleReorder = async () => {
+    if (!order || !user || startingReorder) return
+    try {
+      setStartingReorder(true)
+      const draft = await orderService.createReorderDraft(order.id, user.id)
+      router.push(`/orders/new?draft=${draft.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start reorder')
+      setStartingReorder(false)
+    }
+  }
 
   if (loading) {
     return (
@@ -204,6 +247,17 @@ export default function OrderPage() {
           <Typography variant="h5" sx={{ flex: 1 }}>
             Order Details
           </Typography>
+          {order.user_id === user?.id && (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={startingReorder ? <CircularProgress size={16} /> : <Replay />}
+              onClick={handleReorder}
+              disabled={startingReorder}
+            >
+              Reorder
+            </Button>
+          )}
           <Chip 
             label={order.status} 
             color={getStatusColor(order.status) as any}
@@ -226,17 +280,22 @@ export default function OrderPage() {
               Outstanding amount: ${order.outstanding_amount.toFixed(2)}
             </Typography>
             <Typography variant="body2">
-              Please complete the payment to continue with your order.
+              {quote?.status === 'ACCEPTED'
+                ? 'Please complete the payment to continue with your order.'
+                : 'Please review and accept the quote below before paying.'}
             </Typography>
           </Alert>
-          <Button
-            variant="contained"
-            startIcon={<Payment />}
-            onClick={handlePayWithStripe}
-            fullWidth
-          >
-            Pay with Stripe
-          </Button>
+          {/* Checkout is only offered once the customer has agreed to the quoted price */}
+          {quote?.status === 'ACCEPTED' && (
+            <Button
+              variant="contained"
+              startIcon={<Payment />}
+              onClick={handlePayWithStripe}
+              fullWidth
+            >
+              Pay with Stripe
+            </Button>
+          )}
         </Box>
       )}
 
@@ -286,16 +345,13 @@ export default function OrderPage() {
                     />
                   </ListItem>
                   {order.color && order.color.length > 0 && (
-                    <>
-                      {order.color.map((color, index) => (
-                        <ListItem key={index}>
-                          <ListItemText 
-                            primary={`Color ${index + 1}`} 
-                            secondary={color} 
-                          />
-                        </ListItem>
-                      ))}
-                    </>
+                    <ListItem>
+                      <ListItemText 
+                        primary="Colors" 
+                        secondary={<OrderColors colors={order.color} />}
+                        secondaryTypographyProps={{ component: 'div', sx: { mt: 0.5 } }}
+                      />
+                    </ListItem>
                   )}
                 </List>
 
@@ -435,6 +491,15 @@ export default function OrderPage() {
                         </ListItem>
                       )}
                     </List>
+                    {order.boat_id && (
+                      <Button
+                        size="small"
+                        startIcon={<DirectionsBoat />}
+                        onClick={() => router.push(`/boats/${order.boat_id}`)}
+                      >
+                        View boat history
+                      </Button>
+                    )}
                   </>
                 )}
 
@@ -484,19 +549,16 @@ export default function OrderPage() {
                     Cushion Details
                   </Typography>
                   <Divider sx={{ mb: 2 }} />
-                  <List dense>
-                    {order.cushions.map((cushion, index) => (
-                      <ListItem key={cushion.id || index}>
-                        <ListItemText 
-                          primary={`${cushion.name} (${cushion.quantity})`}
-                          secondary={`Mirrored: ${cushion.mirror ? 'Yes' : 'No'}`}
-                        />
-                      </ListItem>
-                    ))}
-                  </List>
+                  <OrderCushions cushions={order.cushions} />
                 </CardContent>
               </Card>
             )}
+
+            {/* Shipment Tracking */}
+            <ShipmentTracking orderId={order.id} refreshKey={order.updated_at} />
+
+            {/* Order History */}
+            <OrderTimeline orderId={order.id} refreshKey={order.updated_at} />
           </Box>
 
           {/* Payment Information */}
@@ -516,6 +578,14 @@ export default function OrderPage() {
                       secondary={order.status} 
                     />
                   </ListItem>
+                  {order.total_amount !== null && order.total_amount !== undefined && (
+                    <ListItem>
+                      <ListItemText
+                        primary="Amount Paid"
+                        secondary={`$${Number(order.amount_paid || 0).toFixed(2)} of $${Number(order.total_amount).toFixed(2)}`}
+                      />
+                    </ListItem>
+                  )}
                   {order.outstanding_amount && order.outstanding_amount > 0 && (
                     <ListItem>
                       <ListItemText 
@@ -524,17 +594,51 @@ export default function OrderPage() {
                       />
                     </ListItem>
                   )}
-                  {order.payment_intent_id && order.payment_intent_id.length > 0 && (
+                  {order.last_payment_error && (order.outstanding_amount || 0) > 0 && (
                     <ListItem>
-                      <ListItemText 
-                        primary="Payment Intents" 
-                        secondary={order.payment_intent_id.join(', ')} 
+                      <ListItemText
+                        primary="Last Payment Attempt Failed"
+                        secondary={order.last_payment_error}
+                        secondaryTypographyProps={{ color: 'error' }}
+                      />
+                    </ListItem>
+                  )}
+                  {order.dispute_status && (
+                    <ListItem>
+                      <ListItemText
+                        primary="Dispute"
+                        secondary={order.dispute_status.replace(/_/g, ' ')}
                       />
                     </ListItem>
                   )}
                 </List>
+                {/* Invoices start with the first sent quote */}
+                {order.total_amount !== null && order.total_amount !== undefined && (
+                  <Button
+                    variant="outlined"
+                    startIcon={downloadingInvoice ? <CircularProgress size={16} /> : <ReceiptLong />}
+                    onClick={handleDownloadInvoice}
+                    disabled={downloadingInvoice}
+                    fullWidth
+                    sx={{ mt: 1 }}
+                  >
+                    Download Invoice
+                  </Button>
+                )}
               </CardContent>
             </Card>
+
+            {/* Payments Ledger */}
+            <PaymentLedger orderId={order.id} refreshKey={order.updated_at} />
+
+            {/* Quote */}
+            {quote && (
+              <QuoteSummary
+                quote={quote}
+                canRespond={!isAdmin && order.user_id === user?.id}
+                onUpdated={setQuote}
+              />
+            )}
           </Box>
         </Box>
       </Box>
@@ -544,6 +648,11 @@ export default function OrderPage() {
         <StripePayment
           orderId={order.id}
           amount={order.outstanding_amount || 0}
+          depositAmount={
+            quote?.status === 'ACCEPTED' && quote.deposit_percent > 0 && !order.amount_paid
+              ? getDepositAmount(quote)
+              : undefined
+          }
           onSuccess={handlePaymentSuccess}
           onError={handlePaymentError}
           onClose={handlePaymentClose}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, Suspense } from 'react'
 import {
   Box,
   Typography,
@@ -14,19 +14,26 @@ import {
   Tab,
   useTheme,
   useMediaQuery,
+  CircularProgress,
+  Alert,
 } from '@mui/material'
 import { ArrowBack as ArrowBackIcon } from '@mui/icons-material'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import ProjectDetailsPage from '@/components/order/ProjectDetailsPage'
 import ColorPickerPage from '@/components/order/ColorPickerPage'
 import ShippingAddressPage from '@/components/order/ShippingAddressPage'
 import BoatInformationPage from '@/components/order/BoatInformationPage'
 import FullscreenPrompt from '@/components/FullscreenPrompt'
-import { NewOrderFormData } from '@/types/order'
+import { NewOrderFormData, NewOrderWizardPage, VideoFile } from '@/types/order'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { orderService } from '@/services/orderService'
+import { uploadService } from '@/services/uploadService'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+import { getPendingFiles } from '@/lib/orderDrafts'
+import { checkAddress } from '@/lib/addressValidation'
+import { getOrderColors } from '@/lib/materials'
 import UploadProgressDialog from '@/components/UploadProgressDialog'
 import { UploadProgress } from '@/types/order'
 
@@ -39,10 +46,12 @@ const generateUUID = () => {
   })
 }
 
-type SubPage = 'project' | 'colors' | 'boat' | 'shipping'
+type SubPage = NewOrderWizardPage
 
-export default function NewOrderPage() {
+function NewOrderPageContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const resumeDraftId = searchParams.get('draft')
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
   const { user } = useAuth()
@@ -57,9 +66,9 @@ export default function NewOrderPage() {
         quantity: 1,
         isMirrored: false,
         videos: [],
+        shape: 'rectangle',
       },
     ],
-    selectedColors: [],
     shippingAddress: {
       name: '',
       contactName: '',
@@ -92,6 +101,15 @@ export default function NewOrderPage() {
 
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([])
   const [showUploadProgress, setShowUploadProgress] = useState(false)
+  // The draft autosave writes to; files are uploaded into its folder and submitting finalizes it
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  const [loadingDraft, setLoadingDraft] = useState(Boolean(resumeDraftId))
+  const draftRequestRef = useRef<Promise<string> | null>(null)
+
+  // Uploads in flight by file id, shared between background uploads and submit
+  const uploadsRef = useRef(new Map<string, Promise<string>>())
+  const uploadListenersRef = useRef(new Map<string, (bytesUploaded: number, totalBytes: number) => void>())
 
   const touchStartX = useRef<number | null>(null)
   const touchEndX = useRef<number | null>(null)
@@ -103,17 +121,140 @@ export default function NewOrderPage() {
     { key: 'shipping', label: 'Shipping Information' },
   ]
 
+  // Reserve the draft once, even when autosave and submit ask for it at the same time
+  const ensureDraft = (page: SubPage): Promise<string> => {
+    if (draftId) return Promise.resolve(draftId)
+    if (!draftRequestRef.current) {
+      draftRequestRef.current = orderService.createDraft(user!.id, formData, page).then(draft => {
+        setDraftId(draft.id)
+        return draft.id
+      })
+      draftRequestRef.current.catch(() => {
+        draftRequestRef.current = null
+      })
+    }
+    return draftRequestRef.current
+  }
+
+  // Record a finished upload on the cushion the file belongs to
+  const markUploaded = (fileId: string, path: string) => {
+    setFormData(prev => ({
+      ...prev,
+      cushions: prev.cushions.map(cushion => ({
+        ...cushion,
+        videos: cushion.videos.map(video => video.id === fileId ? { ...video, uploadedFileName: path } : video),
+      })),
+    }))
+  }
+
+  // Upload a file into the draft's folder in resumable chunks, once. A file picked again after an
+  // interrupted attempt continues where it stopped and keeps the path it started with.
+  const uploadDraftFile = (video: VideoFile, activeDraftId: string, defaultExtension: string): Promise<string> => {
+    if (video.uploadedFileName) return Promise.resolve(video.uploadedFileName)
+
+    const inFlight = uploadsRef.current.get(video.id)
+    if (inFlight) return inFlight
+
+    if (!video.file) {
+      return Promise.reject(new Error(`${video.name} is no longer available. Please add it again.`))
+    }
+
+    // Generate UUID for file name
+    const fileExtension = video.file.name.split('.').pop() || defaultExtension
+    const upload = uploadService.uploadResumable({
+      bucket: 'scans',
+      objectName: `${user!.id}/${activeDraftId}/${generateUUID()}.${fileExtension}`,
+      file: video.file,
+      onProgress: (bytesUploaded, totalBytes) => uploadListenersRef.current.get(video.id)?.(bytesUploaded, totalBytes)
+    }).then(path => {
+      markUploaded(video.id, path)
+      return path
+    })
+
+    uploadsRef.current.set(video.id, upload)
+    upload.catch(() => undefined).then(() => uploadsRef.current.delete(video.id))
+    return upload
+  }
+
+  // Files go up while the customer carries on, so the draft can keep them between sessions
+  const startBackgroundUploads = (activeDraftId: string) => {
+    for (const video of getPendingFiles(formData)) {
+      uploadDraftFile(video, activeDraftId, video.type.startsWith('image/') ? 'jpg' : 'mp4').catch(error => {
+        console.error(`Background upload of ${video.name} failed:`, error)
+      })
+    }
+  }
+
+  const saveDraft = async (page: SubPage) => {
+    if (!user) return
+
+    setDraftStatus('saving')
+    try {
+      const hadDraft = Boolean(draftId)
+      const activeDraftId = await ensureDraft(page)
+      if (hadDraft) {
+        await orderService.saveDraft(activeDraftId, formData, page)
+      }
+      setDraftStatus('saved')
+      startBackgroundUploads(activeDraftId)
+    } catch (error) {
+      console.error('Failed to save draft:', error)
+      setDraftStatus('error')
+    }
+  }
+
+  // Autosave on every page change
   const handlePageChange = (newPage: SubPage) => {
     setCurrentPage(newPage)
+    saveDraft(newPage)
   }
 
+  // Resume a saved draft
+  useEffect(() => {
+    if (!user || !resumeDraftId) return
+
+    const loadDraft = async () => {
+      try {
+        const draft = await orderService.getDraft(resumeDraftId)
+        if (!draft || draft.status !== 'open' || !draft.form_data) {
+          showPrompt('Draft Unavailable', 'This draft was already submitted or discarded.', 'warning')
+          return
+        }
+
+        setDraftId(draft.id)
+        setFormData(draft.form_data)
+        setCurrentPage(draft.current_page ?? 'project')
+        setDraftStatus('saved')
+      } catch (error) {
+        showPrompt('Draft Unavailable', error instanceof Error ? error.message : 'Failed to load the draft.', 'error')
+      } finally {
+        setLoadingDraft(false)
+      }
+    }
+
+    loadDraft()
+  }, [user, resumeDraftId])
+
+  // Save the paths of files as their uploads finish, so a reload does not lose them
+  const uploadedFileCount = formData.cushions.reduce(
+    (total, cushion) => total + cushion.videos.filter(video => video.uploadedFileName).length,
+    0
+  )
+  useEffect(() => {
+    if (draftId && uploadedFileCount > 0) {
+      orderService.saveDraft(draftId, formData, currentPage).catch(error => {
+        console.error('Failed to save draft:', error)
+      })
+    }
+  }, [uploadedFileCount])
+
   const handleSwipe = (direction: 'left' | 'right') => {
     const currentIndex = pages.findIndex(page => page.key === currentPage)
     
     if (direction === 'left' && currentIndex < pages.length - 1) {
-      setCurrentPage(pages[currentIndex + 1].key)
+      handlePageChange(pages[currentIndex + 1].key)
     } else if (direction === 'right' && currentIndex > 0) {
-      setCurrentPage(pages[currentIndex - 1].key)
+      handlePageChange(pages[currentIndex - 1].key)
     }
   }
 
@@ -149,6 +290,7 @@ export default function NewOrderPage() {
   }
 
   const handleBack = () => {
+    saveDraft(currentPage)
     router.push('/orders')
   }
 
@@ -165,48 +307,29 @@ export default function NewOrderPage() {
         }
       }
 
-      // Validation: Check that each selected color has one image uploaded
-      if (formData.selectedColors.length >= 2) {
-        for (const colorName of formData.selectedColors) {
-          const hasImage = formData.cushions.some(cushion => 
-            cushion.colorPhotos?.some(photo => photo.name === colorName)
-          )
-          if (!hasImage) {
-            throw new Error(`Color "${colorName}" must have an image uploaded.`)
-          }
+      // Validation: Check that each cushion has its color assigned
+      for (const cushion of formData.cushions) {
+        if (!cushion.material?.color) {
+          throw new Error(`Choose a color for cushion "${cushion.name}".`)
         }
       }
 
       // Collect all files and validate sizes
-      const allFiles: Array<{ file: File; name: string; type: 'video' | 'photo'; cushionId: string }> = []
-      const colorImages: Array<{ file: File; colorName: string }> = []
+      const allFiles: Array<{ video: VideoFile; name: string; type: 'video' | 'photo'; cushionId: string }> = []
       
       for (const cushion of formData.cushions) {
         // Add videos
         for (const video of cushion.videos) {
-          if (video.file.size > 1024 * 1024 * 1024) { // 1GB limit
+          if (video.size > 1024 * 1024 * 1024) { // 1GB limit
             throw new Error(`File ${video.name} is too large. Maximum size is 1GB.`)
           }
           allFiles.push({
-            file: video.file,
+            video,
             name: video.name,
             type: 'video',
             cushionId: cushion.id
           })
         }
-        
-        // Add color photos (one per color)
-        if (cushion.colorPhotos) {
-          for (const photo of cushion.colorPhotos) {
-            if (photo.file.size > 1024 * 1024 * 1024) { // 1GB limit
-              throw new Error(`File ${photo.name} is too large. Maximum size is 1GB.`)
-            }
-            colorImages.push({
-              file: photo.file,
-              colorName: photo.name
-            })
-          }
-        }
       }
 
       if (allFiles.length === 0) {
@@ -214,7 +337,7 @@ export default function NewOrderPage() {
         const orderData = {
           projectname: formData.purchaseOrderNumber || undefined,
           quantity: formData.cushions.reduce((total, c) => total + c.quantity, 0),
-          color: formData.selectedColors,
+          color: getOrderColors(formData.cushions),
           name: formData.shippingAddress.name,
           contact_name: formData.shippingAddress.contactName || undefined,
           address: formData.shippingAddress.address,
@@ -232,13 +355,16 @@ export default function NewOrderPage() {
           boat_year: formData.boatInformation.year ? parseInt(formData.boatInformation.year) : undefined,
           boat_length: formData.boatInformation.length ? parseInt(formData.boatInformation.length) : undefined,
           boat_HIN: formData.boatInformation.boatHin || undefined,
+          boat_id: formData.boatInformation.boatId,
           cushions_count: formData.cushions.length,
-          color_images: {},
+          draft_id: draftId ?? undefined,
           cushions: formData.cushions.map(cushion => ({
             name: cushion.name,
             quantity: cushion.quantity,
             mirror: cushion.isMirrored,
-            videos: []
+            videos: [],
+            shape: cushion.shape ?? 'rectangle',
+            material: cushion.material ?? null
           }))
         }
 
@@ -257,7 +383,7 @@ export default function NewOrderPage() {
         })
 
         if (error) {
-          throw new Error(`Failed to create order: ${error.message}`)
+          throw new Error(await getEdgeFunctionErrorMessage(error, 'Failed to create order'))
         }
 
         if (!data.success) {
@@ -280,118 +406,62 @@ export default function NewOrderPage() {
         return
       }
 
-      // Initialize upload progress for videos and images
-      const progress: UploadProgress[] = [
-        ...allFiles.map(file => ({
-          fileName: file.name,
-          status: 'pending' as const,
-          progress: 0
-        })),
-        ...colorImages.map(image => ({
-          fileName: `${image.colorName} - ${image.file.name}`,
-          status: 'pending' as const,
-          progress: 0
-        }))
-      ]
+      // Initialize upload progress for videos
+      const progress: UploadProgress[] = allFiles.map(file => ({
+        fileName: file.name,
+        status: file.video.uploadedFileName ? 'completed' as const : 'pending' as const,
+        progress: file.video.uploadedFileName ? 100 : 0,
+        bytesUploaded: file.video.uploadedFileName ? file.video.size : 0,
+        totalBytes: file.video.size
+      }))
       
       setUploadProgress(progress)
       setShowUploadProgress(true)
 
-      // Generate timestamp for file organization
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-      
-      // Upload video files with progress tracking
-      const uploadedFiles: Record<string, string> = {}
-      
-      for (let i = 0; i < allFiles.length; i++) {
-        const file = allFiles[i]
-        
-        // Update status to uploading
-        setUploadProgress(prev => prev.map((p, index) => 
-          index === i ? { ...p, status: 'uploading' } : p
+      // The order is only created once all files are in the draft's folder
+      const activeDraftId = await ensureDraft(currentPage)
+
+      const updateProgress = (progressIndex: number, update: Partial<UploadProgress>) => {
+        setUploadProgress(prev => prev.map((p, index) =>
+          index === progressIndex ? { ...p, ...update } : p
         ))
+      }
+
+      // Waits for a background upload of the file that is already running instead of starting another
+      const uploadToScans = async (video: VideoFile, progressIndex: number, defaultExtension: string) => {
+        updateProgress(progressIndex, { status: 'uploading', error: undefined })
+        uploadListenersRef.current.set(video.id, (bytesUploaded, totalBytes) => updateProgress(progressIndex, {
+          bytesUploaded,
+          totalBytes,
+          progress: totalBytes > 0 ? Math.round((bytesUploaded / totalBytes) * 100) : 100
+        }))
 
         try {
-          // Generate UUID for file name
-          const fileExtension = file.name.split('.').pop() || 'mp4'
-          const uuid = generateUUID()
-          const fileName = `${uuid}.${fileExtension}`
-          
-          const { data, error } = await supabase.storage
-            .from('scans')
-            .upload(`${user.id}/${timestamp}/${fileName}`, file.file)
-          
-          if (error) {
-            throw new Error(error.message)
-          }
-          
-          // Store mapping from original file ID to full path
-          uploadedFiles[`${file.cushionId}_${file.name}`] = `${user.id}/${timestamp}/${fileName}`
-          
-          // Update status to completed
-          setUploadProgress(prev => prev.map((p, index) => 
-            index === i ? { ...p, status: 'completed', progress: 100 } : p
-          ))
-          
+          const path = await uploadDraftFile(video, activeDraftId, defaultExtension)
+          updateProgress(progressIndex, { status: 'completed', progress: 100, bytesUploaded: video.size })
+          return path
         } catch (error) {
-          // Update status to error
-          setUploadProgress(prev => prev.map((p, index) => 
-            index === i ? { 
-              ...p, 
-              status: 'error', 
-              error: error instanceof Error ? error.message : 'Upload failed' 
-            } : p
-          ))
-          
-          throw new Error(`Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          updateProgress(progressIndex, {
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Upload failed'
+          })
+          throw error
+        } finally {
+          uploadListenersRef.current.delete(video.id)
         }
       }
 
-      // Upload color images to scans bucket with progress tracking
-      const colorImagesMap: Record<string, string> = {}
+      // Upload video files with progress tracking
+      const uploadedFiles: Record<string, string> = {}
       
-      for (let i = 0; i < colorImages.length; i++) {
-        const colorImage = colorImages[i]
-        const progressIndex = allFiles.length + i
-        
-        // Update status to uploading
-        setUploadProgress(prev => prev.map((p, index) => 
-          index === progressIndex ? { ...p, status: 'uploading' } : p
-        ))
+      for (let i = 0; i < allFiles.length; i++) {
+        const file = allFiles[i]
 
         try {
-          // Generate UUID for file name with proper extension
-          const fileExtension = colorImage.file.name.split('.').pop() || 'jpg'
-          const uuid = generateUUID()
-          const fileName = `${uuid}.${fileExtension}`
-          
-          const { data, error } = await supabase.storage
-            .from('scans')
-            .upload(`${user.id}/${timestamp}/${fileName}`, colorImage.file)
-          
-          if (error) {
-            throw new Error(error.message)
-          }
-          
-          // Store mapping from color name to full path
-          colorImagesMap[colorImage.colorName] = `${user.id}/${timestamp}/${fileName}`
-          
-          // Update status to completed
-          setUploadProgress(prev => prev.map((p, index) => 
-            index === progressIndex ? { ...p, status: 'completed', progress: 100 } : p
-          ))
-          
+          // Store mapping from original file ID to full path
+          uploadedFiles[`${file.cushionId}_${file.name}`] = await uploadToScans(file.video, i, 'mp4')
         } catch (error) {
-          // Update status to error
-          setUploadProgress(prev => prev.map((p, index) => 
-            index === progressIndex ? { 
-              ...p, 
-              status: 'error', 
-              error: error instanceof Error ? error.message : 'Upload failed' 
-            } : p
-          ))
-          
-          throw new Error(`Failed to upload color image for ${colorImage.colorName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          throw new Error(`Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}. Submit again to resume the upload.`)
         }
       }
 
@@ -402,7 +472,7 @@ export default function NewOrderPage() {
       const orderData = {
         projectname: formData.purchaseOrderNumber || undefined,
         quantity: formData.cushions.reduce((total, c) => total + c.quantity, 0),
-        color: formData.selectedColors,
+        color: getOrderColors(formData.cushions),
         name: formData.shippingAddress.name,
         contact_name: formData.shippingAddress.contactName || undefined,
         address: formData.shippingAddress.address,
@@ -420,8 +490,9 @@ export default function NewOrderPage() {
         boat_year: formData.boatInformation.year ? parseInt(formData.boatInformation.year) : undefined,
         boat_length: formData.boatInformation.length ? parseInt(formData.boatInformation.length) : undefined,
         boat_HIN: formData.boatInformation.boatHin || undefined,
+        boat_id: formData.boatInformation.boatId,
         cushions_count: formData.cushions.length,
-        color_images: colorImagesMap,
+        draft_id: activeDraftId,
                      cushions: formData.cushions.map(cushion => {
                const videoFileNames = cushion.videos.map(video => {
                  const originalKey = `${cushion.id}_${video.name}`
@@ -432,7 +503,9 @@ export default function NewOrderPage() {
                  name: cushion.name,
                  quantity: cushion.quantity,
                  mirror: cushion.isMirrored,
-                 videos: videoFileNames // Array of strings
+                 videos: videoFileNames, // Array of strings
+                 shape: cushion.shape ?? 'rectangle',
+                 material: cushion.material ?? null
                }
              })
       }
@@ -452,7 +525,7 @@ export default function NewOrderPage() {
       })
 
       if (error) {
-        throw new Error(`Failed to create order: ${error.message}`)
+        throw new Error(await getEdgeFunctionErrorMessage(error, 'Failed to create order'))
       }
 
       if (!data.success) {
@@ -461,6 +534,11 @@ export default function NewOrderPage() {
 
       const newOrder = data.data.order
 
+      // The order references the uploaded files now; nothing left to resume
+      await uploadService.clearCompletedUploads('scans', allFiles
+        .map(file => file.video.file)
+        .filter((file): file is File => Boolean(file)))
+
       // Show success message
       setPromptConfig({
         title: 'Order Created Successfully',
@@ -495,7 +573,7 @@ export default function NewOrderPage() {
         return formData.cushions.length > 0 && 
                formData.cushions.every(c => c.quantity > 0)
       case 'colors':
-        return formData.selectedColors.length > 0
+        return formData.cushions.every(c => c.material?.color)
       case 'boat':
         return formData.boatInformation.make && 
                formData.boatInformation.model && 
@@ -509,7 +587,8 @@ export default function NewOrderPage() {
                formData.shippingAddress.zipcode && 
                formData.shippingAddress.state && 
                formData.shippingAddress.phonenumber && 
-               formData.shippingAddress.email
+               formData.shippingAddress.email &&
+               checkAddress(formData.shippingAddress).valid
       default:
         return false
     }
@@ -541,6 +620,13 @@ export default function NewOrderPage() {
             <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
               New Order
             </Typography>
+            {draftStatus !== 'idle' && (
+              <Typography variant="caption" sx={{ opacity: 0.85 }}>
+                {draftStatus === 'saving' && 'Saving draft...'}
+                {draftStatus === 'saved' && 'Draft saved'}
+                {draftStatus === 'error' && 'Draft not saved'}
+              </Typography>
+            )}
           </Toolbar>
         </AppBar>
 
@@ -549,7 +635,7 @@ export default function NewOrderPage() {
           <Paper elevation={2} sx={{ mb: 2 }}>
             <Tabs
               value={currentPage}
-              onChange={(_, newValue) => setCurrentPage(newValue)}
+              onChange={(_, newValue) => handlePageChange(newValue)}
               variant={isMobile ? 'scrollable' : 'fullWidth'}
               scrollButtons={isMobile ? 'auto' : false}
               sx={{
@@ -573,45 +659,61 @@ export default function NewOrderPage() {
             </Tabs>
           </Paper>
 
+          {!loadingDraft && formData.reorderOf && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Reordering from order #{formData.reorderOf}. Its videos are reused; change colors,
+              quantities or anything else before submitting.
+            </Alert>
+          )}
+
+          {loadingDraft && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          )}
+
           {/* Page Content */}
-          <Box
-            onTouchStart={handleTouchStart}
-            onTouchMove={handleTouchMove}
-            onTouchEnd={handleTouchEnd}
-            sx={{ minHeight: '60vh' }}
-          >
-            {currentPage === 'project' && (
-              <ProjectDetailsPage
-                formData={formData}
-                setFormData={setFormData}
-                showPrompt={showPrompt}
-              />
-            )}
+          {!loadingDraft && (
+            <Box
+              onTouchStart={handleTouchStart}
+              onTouchMove={handleTouchMove}
+              onTouchEnd={handleTouchEnd}
+              sx={{ minHeight: '60vh' }}
+            >
+              {currentPage === 'project' && (
+                <ProjectDetailsPage
+                  formData={formData}
+                  setFormData={setFormData}
+                  showPrompt={showPrompt}
+                />
+              )}
             
-            {currentPage === 'colors' && (
-              <ColorPickerPage
-                formData={formData}
-                setFormData={setFormData}
-                showPrompt={showPrompt}
-              />
-            )}
+              {currentPage === 'colors' && (
+                <ColorPickerPage
+                  formData={formData}
+                  setFormData={setFormData}
+                  showPrompt={showPrompt}
+                  saveDraft={() => saveDraft(currentPage)}
+                />
+              )}
             
-            {currentPage === 'boat' && (
-              <BoatInformationPage
-                formData={formData}
-                setFormData={setFormData}
-                showPrompt={showPrompt}
-              />
-            )}
+              {currentPage === 'boat' && (
+                <BoatInformationPage
+                  formData={formData}
+                  setFormData={setFormData}
+                  showPrompt={showPrompt}
+                />
+              )}
             
-            {currentPage === 'shipping' && (
-              <ShippingAddressPage
-                formData={formData}
-                setFormData={setFormData}
-                showPrompt={showPrompt}
-              />
-            )}
-          </Box>
+              {currentPage === 'shipping' && (
+                <ShippingAddressPage
+                  formData={formData}
+                  setFormData={setFormData}
+                  showPrompt={showPrompt}
+                />
+              )}
+            </Box>
+          )}
 
           {/* Navigation Buttons */}
           <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 2 }}>
@@ -619,7 +721,7 @@ export default function NewOrderPage() {
               variant="outlined"
               onClick={() => {
                 const prevPage = getPrevPage()
-                if (prevPage) setCurrentPage(prevPage)
+                if (prevPage) handlePageChange(prevPage)
               }}
               disabled={!getPrevPage()}
             >
@@ -633,7 +735,7 @@ export default function NewOrderPage() {
                   onClick={() => {
                     if (canProceed()) {
                       const nextPage = getNextPage()
-                      if (nextPage) setCurrentPage(nextPage)
+                      if (nextPage) handlePageChange(nextPage)
                     } else {
                       showPrompt(
                         'Incomplete Information',
@@ -676,4 +778,16 @@ export default function NewOrderPage() {
       </Box>
     </ProtectedRoute>
   )
-} 
\ No newline at end of file
+}
+
+export default function NewOrderPage() {
+  return (
+    <Suspense fallback={
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+        <CircularProgress />
+      </Box>
+    }>
+      <NewOrderPageContent />
+    </Suspense>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useEffect, useState } from 'react'
+import React, { Suspense, useEffect, useState } from 'react'
 import {
   Box,
   Typography,
@@ -11,25 +11,49 @@ import {
   IconButton,
   CircularProgress,
   Alert,
+  Paper,
+  Button,
 } from '@mui/material'
-import { Add as AddIcon, Logout as LogoutIcon } from '@mui/icons-material'
+import {
+  Add as AddIcon,
+  Logout as LogoutIcon,
+  DirectionsBoat as BoatIcon,
+  ContactMail as AddressBookIcon,
+  Inventory2 as PackingSlipIcon,
+  LocalShipping as LabelIcon,
+  Palette as ColorsIcon,
+} from '@mui/icons-material'
 import { useAuth } from '@/contexts/AuthContext'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import OrderCard from '@/components/OrderCard'
+import DraftOrderCard from '@/components/DraftOrderCard'
+import SampleRequestCard from '@/components/SampleRequestCard'
+import FullscreenPrompt from '@/components/FullscreenPrompt'
 import { orderService } from '@/services/orderService'
 import { chatService } from '@/services/chatService'
 import { messageCacheService } from '@/services/messageCacheService'
-import { Order } from '@/types/order'
+import { shippingDocumentService, ShippingDocumentType } from '@/services/shippingDocumentService'
+import { sampleRequestService } from '@/services/sampleRequestService'
+import { uploadService } from '@/services/uploadService'
+import { Order, OrderDraft } from '@/types/order'
+import { SampleRequest, SampleRequestStatus } from '@/types/sampleRequest'
 
-export default function OrdersPage() {
+function OrdersPageContent() {
   const { user, signOut } = useAuth()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [orders, setOrders] = useState<Order[]>([])
+  const [drafts, setDrafts] = useState<OrderDraft[]>([])
+  const [draftToDiscard, setDraftToDiscard] = useState<OrderDraft | null>(null)
+  const [sampleRequests, setSampleRequests] = useState<SampleRequest[]>([])
+  const [sampleRequestToCancel, setSampleRequestToCancel] = useState<SampleRequest | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAdmin, setIsAdmin] = useState(false)
   const [unreadCounts, setUnreadCounts] = useState<{ [orderId: number]: number }>({})
+  const [selectedOrderIds, setSelectedOrderIds] = useState<number[]>([])
+  const [printing, setPrinting] = useState<ShippingDocumentType | null>(null)
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -52,6 +76,8 @@ export default function OrdersPage() {
           : await orderService.getOrders(user.id)
         
         setOrders(fetchedOrders)
+        setDrafts(await orderService.getDrafts(user.id))
+        setSampleRequests(await sampleRequestService.getSampleRequests())
 
         // Get initial unread counts from cache
         if (fetchedOrders.length > 0) {
@@ -98,6 +124,10 @@ export default function OrdersPage() {
     }
   }, [user])
 
+  // Stripe Checkout sends the customer back here after paying for samples; the webhook may still be
+  // recording the payment, so the request can briefly show as awaiting payment
+  const samplesPaymentResult = searchParams.get('samples')
+
   const handleSignOut = async () => {
     await signOut()
     router.push('/auth')
@@ -107,6 +137,81 @@ export default function OrdersPage() {
     router.push('/orders/new')
   }
 
+  const handleReorder = async (order: Order) => {
+    if (!user) return
+
+    try {
+      const draft = await orderService.createReorderDraft(order.id, user.id)
+      router.push(`/orders/new?draft=${draft.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start reorder')
+    }
+  }
+
+  const handleSelectChange = (order: Order, selected: boolean) => {
+    setSelectedOrderIds(prev => selected ? [...prev, order.id] : prev.filter(id => id !== order.id))
+  }
+
+  // One PDF for all selected orders, so a batch prints in one go
+  const handlePrintShippingDocuments = async (type: ShippingDocumentType) => {
+    if (selectedOrderIds.length === 0 || printing) return
+    try {
+      setPrinting(type)
+      await shippingDocumentService.downloadShippingDocuments(selectedOrderIds, type)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate shipping documents')
+    } finally {
+      setPrinting(null)
+    }
+  }
+
+  const handlePaySamples = async (sampleRequest: SampleRequest) => {
+    try {
+      await sampleRequestService.payForSamples(sampleRequest.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment')
+    }
+  }
+
+  const updateSampleStatus = async (
+    sampleRequest: SampleRequest,
+    status: SampleRequestStatus,
+    tracking?: { carrier: string; tracking_number: string }
+  ) => {
+    try {
+      const updated = await sampleRequestService.updateStatus(sampleRequest, status, tracking)
+      setSampleRequests(prev => prev.map(request => request.id === updated.id ? updated : request))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sample request')
+    }
+  }
+
+  // Cancelling is confirmed first
+  const handleSampleStatusChange = async (
+    sampleRequest: SampleRequest,
+    status: SampleRequestStatus,
+    tracking?: { carrier: string; tracking_number: string }
+  ) => {
+    if (status === 'CANCELLED') {
+      setSampleRequestToCancel(sampleRequest)
+      return
+    }
+    await updateSampleStatus(sampleRequest, status, tracking)
+  }
+
+  const handleDiscardDraft = async () => {
+    if (!draftToDiscard) return
+
+    try {
+      await orderService.discardDraft(draftToDiscard.id)
+      // Its files are about to be deleted, so picking them again must upload them anew
+      uploadService.clearFolderUploads(`${draftToDiscard.user_id}/${draftToDiscard.id}`)
+      setDrafts(prev => prev.filter(d => d.id !== draftToDiscard.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard draft')
+    }
+  }
+
   return (
     <ProtectedRoute>
       <Box sx={{ flexGrow: 1 }}>
@@ -118,6 +223,17 @@ export default function OrdersPage() {
             <Typography variant="body2" sx={{ mr: 2 }}>
               {isAdmin ? `Welcome admin ${user?.email}` : `Welcome ${user?.email}`}
             </Typography>
+            <IconButton color="inherit" aria-label="my boats" onClick={() => router.push('/boats')}>
+              <BoatIcon />
+            </IconButton>
+            <IconButton color="inherit" aria-label="address book" onClick={() => router.push('/addresses')}>
+              <AddressBookIcon />
+            </IconButton>
+            {isAdmin && (
+              <IconButton color="inherit" aria-label="colors" onClick={() => router.push('/colors')}>
+                <ColorsIcon />
+              </IconButton>
+            )}
             <IconButton color="inherit" onClick={handleSignOut}>
               <LogoutIcon />
             </IconButton>
@@ -131,6 +247,56 @@ export default function OrdersPage() {
             </Alert>
           )}
           
+          {samplesPaymentResult === 'paid' && (
+            <Alert severity="success" sx={{ mb: 2 }}>
+              Thanks! Your sample fee was paid and your samples will be mailed soon.
+            </Alert>
+          )}
+          {samplesPaymentResult === 'canceled' && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Payment was canceled. You can pay for your samples from the request below.
+            </Alert>
+          )}
+
+          {!loading && sampleRequests.length > 0 && (
+            <Box sx={{ mb: 4 }}>
+              <Typography variant="h6" gutterBottom>
+                Sample Requests
+              </Typography>
+              {sampleRequests.map((sampleRequest) => (
+                <SampleRequestCard
+                  key={sampleRequest.id}
+                  sampleRequest={sampleRequest}
+                  onPay={sampleRequest.user_id === user?.id ? handlePaySamples : undefined}
+                  onStatusChange={isAdmin ? handleSampleStatusChange : undefined}
+                />
+              ))}
+              {drafts.length === 0 && (
+                <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
+                  Orders
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          {!loading && drafts.length > 0 && (
+            <Box sx={{ mb: 4 }}>
+              <Typography variant="h6" gutterBottom>
+                Drafts
+              </Typography>
+              {drafts.map((draft) => (
+                <DraftOrderCard
+                  key={draft.id}
+                  draft={draft}
+                  onDiscard={setDraftToDiscard}
+                />
+              ))}
+              <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
+                Orders
+              </Typography>
+            </Box>
+          )}
+          
           {loading ? (
             <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
               <CircularProgress />
@@ -141,11 +307,43 @@ export default function OrdersPage() {
             </Typography>
           ) : (
             <Box>
+              {isAdmin && selectedOrderIds.length > 0 && (
+                <Paper
+                  elevation={3}
+                  sx={{ position: 'sticky', top: 8, zIndex: 2, mb: 2, p: 1.5, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}
+                >
+                  <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                    {selectedOrderIds.length} order{selectedOrderIds.length === 1 ? '' : 's'} selected
+                  </Typography>
+                  <Button
+                    size="small"
+                    startIcon={printing === 'packing_slips' ? <CircularProgress size={16} /> : <PackingSlipIcon />}
+                    onClick={() => handlePrintShippingDocuments('packing_slips')}
+                    disabled={Boolean(printing)}
+                  >
+                    Packing Slips
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={printing === 'labels' ? <CircularProgress size={16} /> : <LabelIcon />}
+                    onClick={() => handlePrintShippingDocuments('labels')}
+                    disabled={Boolean(printing)}
+                  >
+                    Shipping Labels
+                  </Button>
+                  <Button size="small" color="inherit" onClick={() => setSelectedOrderIds([])} disabled={Boolean(printing)}>
+                    Clear
+                  </Button>
+                </Paper>
+              )}
               {orders.map((order) => (
                 <OrderCard 
                   key={order.id} 
                   order={order} 
                   unreadCount={unreadCounts[order.id] || 0}
+                  onReorder={order.user_id === user?.id ? handleReorder : undefined}
+                  selected={selectedOrderIds.includes(order.id)}
+                  onSelectChange={isAdmin ? handleSelectChange : undefined}
                 />
               ))}
             </Box>
@@ -164,7 +362,43 @@ export default function OrdersPage() {
         >
           <AddIcon />
         </Fab>
+
+        <FullscreenPrompt
+          open={Boolean(draftToDiscard)}
+          onClose={() => setDraftToDiscard(null)}
+          title="Discard Draft"
+          message="Discard this draft? Its uploaded videos and photos will be deleted."
+          confirmText="Discard"
+          onConfirm={handleDiscardDraft}
+          onCancel={() => setDraftToDiscard(null)}
+          severity="warning"
+        />
+
+        <FullscreenPrompt
+          open={Boolean(sampleRequestToCancel)}
+          onClose={() => setSampleRequestToCancel(null)}
+          title="Cancel Sample Request"
+          message={sampleRequestToCancel?.paid_at
+            ? 'Cancel this sample request? The fee was paid; refund it from the Stripe dashboard.'
+            : 'Cancel this sample request?'}
+          confirmText="Cancel Request"
+          onConfirm={() => sampleRequestToCancel && updateSampleStatus(sampleRequestToCancel, 'CANCELLED')}
+          onCancel={() => setSampleRequestToCancel(null)}
+          severity="warning"
+        />
       </Box>
     </ProtectedRoute>
   )
+}
+
+export default function OrdersPage() {
+  return (
+    <Suspense fallback={
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    }>
+      <OrdersPageContent />
+    </Suspense>
+  )
 } 
\ No newline at end of file
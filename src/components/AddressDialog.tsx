@@ -0,0 +1,248 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  Select,
+  MenuItem,
+  Alert,
+} from '@mui/material'
+import AddressAutocomplete, { AddressData } from '@/components/AddressAutocomplete'
+import { SavedAddressInput } from '@/types/address'
+import { checkAddress } from '@/lib/addressValidation'
+
+interface AddressDialogProps {
+  open: boolean
+  title: string
+  initialAddress: SavedAddressInput | null // null to start blank
+  onClose: () => void
+  onSave: (address: SavedAddressInput) => Promise<void>
+}
+
+// Inputs are kept as strings while editing
+type AddressForm = { [K in keyof SavedAddressInput]: string }
+
+const emptyForm: AddressForm = {
+  label: '',
+  name: '',
+  contact_name: '',
+  address: '',
+  address2: '',
+  city: '',
+  state: '',
+  zipcode: '',
+  country: 'United States',
+  company_phone: '',
+  phonenumber: '',
+  email: '',
+}
+
+const toForm = (address: SavedAddressInput): AddressForm => ({
+  label: address.label,
+  name: address.name,
+  contact_name: address.contact_name || '',
+  address: address.address,
+  address2: address.address2 || '',
+  city: address.city || '',
+  state: address.state,
+  zipcode: address.zipcode,
+  country: address.country,
+  company_phone: address.company_phone || '',
+  phonenumber: address.phonenumber || '',
+  email: address.email || '',
+})
+
+export default function AddressDialog({ open, title, initialAddress, onClose, onSave }: AddressDialogProps) {
+  const [form, setForm] = useState<AddressForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setError(null)
+    setForm(initialAddress ? toForm(initialAddress) : emptyForm)
+  }, [open, initialAddress])
+
+  const handleChange = (field: keyof AddressForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleAddressSelect = (addressData: AddressData) => {
+    setForm(prev => ({
+      ...prev,
+      address: addressData.street,
+      city: addressData.city || '',
+      state: addressData.state,
+      zipcode: addressData.zipcode,
+      country: addressData.country,
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!form.label.trim()) {
+      setError('Label is required')
+      return
+    }
+
+    // Saved addresses may leave out the phone number; the wizard asks for it when the address is used
+    const { address, issues } = checkAddress({
+      name: form.name,
+      contactName: form.contact_name,
+      address: form.address,
+      address2: form.address2,
+      city: form.city,
+      state: form.state,
+      zipcode: form.zipcode,
+      country: form.country,
+      phonenumber: form.phonenumber,
+      companyPhone: form.company_phone,
+      email: form.email,
+    })
+    const problems = issues.filter(issue => issue.field !== 'phonenumber' || form.phonenumber.trim())
+    if (problems.length > 0) {
+      setError(problems.map(issue => issue.message).join('. '))
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSave({
+        label: form.label.trim(),
+        name: address.name.trim(),
+        contact_name: form.contact_name.trim() || null,
+        address: address.address.trim(),
+        address2: form.address2.trim() || null,
+        city: address.city.trim(),
+        state: address.state,
+        zipcode: address.zipcode,
+        country: address.country,
+        company_phone: address.companyPhone || null,
+        phonenumber: form.phonenumber.trim() ? address.phonenumber : null,
+        email: address.email || null,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save address')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            fullWidth
+            required
+            label="Label"
+            value={form.label}
+            onChange={(e) => handleChange('label', e.target.value)}
+            placeholder="e.g., Home, Marina, Upholstery shop"
+          />
+          <TextField
+            fullWidth
+            required
+            label="Customer/Company Name"
+            value={form.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+          />
+          <TextField
+            fullWidth
+            label="Contact Name"
+            value={form.contact_name}
+            onChange={(e) => handleChange('contact_name', e.target.value)}
+          />
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              label="Contact Phone"
+              value={form.phonenumber}
+              onChange={(e) => handleChange('phonenumber', e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Company Phone"
+              value={form.company_phone}
+              onChange={(e) => handleChange('company_phone', e.target.value)}
+            />
+          </Stack>
+          <TextField
+            fullWidth
+            label="Email"
+            type="email"
+            value={form.email}
+            onChange={(e) => handleChange('email', e.target.value)}
+          />
+          <AddressAutocomplete
+            value={form.address}
+            onChange={(value) => handleChange('address', value)}
+            onAddressSelect={handleAddressSelect}
+            placeholder="Street address, P.O. box, company name"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Address Line 2 (Optional)"
+            value={form.address2}
+            onChange={(e) => handleChange('address2', e.target.value)}
+          />
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              required
+              label="City"
+              value={form.city}
+              onChange={(e) => handleChange('city', e.target.value)}
+            />
+            <TextField
+              fullWidth
+              required
+              label="State"
+              value={form.state}
+              onChange={(e) => handleChange('state', e.target.value)}
+            />
+          </Stack>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              required
+              label="ZIP Code"
+              value={form.zipcode}
+              onChange={(e) => handleChange('zipcode', e.target.value)}
+            />
+            <Select
+              fullWidth
+              value={form.country}
+              onChange={(e) => handleChange('country', e.target.value)}
+            >
+              <MenuItem value="United States">United States</MenuItem>
+              <MenuItem value="Canada">Canada</MenuItem>
+            </Select>
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  Alert,
+} from '@mui/material'
+import { Boat, BoatInput } from '@/types/boat'
+import { checkHin, describeHin } from '@/lib/hin'
+
+interface BoatDialogProps {
+  open: boolean
+  boat: Boat | null // null to add a new boat
+  onClose: () => void
+  onSave: (boat: BoatInput) => Promise<void>
+}
+
+// Inputs are kept as strings while editing
+const emptyForm = { name: '', make: '', model: '', year: '', length: '', hin: '' }
+
+const toNumberOrNull = (value: string) => {
+  const parsed = parseInt(value, 10)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export default function BoatDialog({ open, boat, onClose, onSave }: BoatDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setError(null)
+    setForm(boat
+      ? {
+          name: boat.name || '',
+          make: boat.make,
+          model: boat.model,
+          year: boat.year?.toString() || '',
+          length: boat.length?.toString() || '',
+          hin: boat.hin || '',
+        }
+      : emptyForm)
+  }, [open, boat])
+
+  const handleChange = (field: keyof typeof emptyForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const hinCheck = checkHin(form.hin, { year: form.year, make: form.make })
+
+  const handleSave = async () => {
+    if (!form.make.trim() || !form.model.trim()) {
+      setError('Make and model are required')
+      return
+    }
+    if (hinCheck.errors.length > 0) {
+      setError(hinCheck.errors[0])
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      await onSave({
+        name: form.name.trim() || null,
+        make: form.make.trim(),
+        model: form.model.trim(),
+        year: toNumberOrNull(form.year),
+        length: toNumberOrNull(form.length),
+        hin: hinCheck.decoded?.hin || null,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save boat')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{boat ? 'Edit Boat' : 'Add Boat'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            fullWidth
+            label="Name"
+            value={form.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            placeholder="e.g., Sea Breeze"
+            helperText="Optional, to tell your boats apart"
+          />
+          <TextField
+            fullWidth
+            required
+            label="Make"
+            value={form.make}
+            onChange={(e) => handleChange('make', e.target.value)}
+          />
+          <TextField
+            fullWidth
+            required
+            label="Model"
+            value={form.model}
+            onChange={(e) => handleChange('model', e.target.value)}
+          />
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              label="Year"
+              type="number"
+              value={form.year}
+              onChange={(e) => handleChange('year', e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Length (feet)"
+              type="number"
+              value={form.length}
+              onChange={(e) => handleChange('length', e.target.value)}
+            />
+          </Stack>
+          <TextField
+            fullWidth
+            label="HIN (Hull Identification Number)"
+            value={form.hin}
+            onChange={(e) => handleChange('hin', e.target.value)}
+            error={hinCheck.errors.length > 0}
+            helperText={hinCheck.errors[0] || hinCheck.warnings[0] || (hinCheck.decoded && describeHin(hinCheck.decoded))}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  FormControlLabel,
+  Switch,
+  Alert,
+  InputAdornment,
+} from '@mui/material'
+import { CloudUpload as UploadIcon } from '@mui/icons-material'
+import { Color, ColorInput } from '@/types/color'
+import { colorService } from '@/services/colorService'
+import ColorSwatch from '@/components/ColorSwatch'
+
+interface ColorDialogProps {
+  open: boolean
+  color: Color | null // null to add a color
+  nextSortOrder: number
+  onClose: () => void
+  onSave: (color: ColorInput) => Promise<void>
+}
+
+const HEX_PATTERN = /^#[0-9A-Fa-f]{6}$/
+
+// Inputs are kept as strings while editing
+interface ColorForm {
+  name: string
+  hex: string
+  fabric_line: string
+  sort_order: string
+  surcharge: string
+  is_active: boolean
+  swatch_path: string | null
+}
+
+export default function ColorDialog({ open, color, nextSortOrder, onClose, onSave }: ColorDialogProps) {
+  const [form, setForm] = useState<ColorForm | null>(null)
+  const [swatchFile, setSwatchFile] = useState<File | null>(null)
+  const [swatchPreview, setSwatchPreview] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setError(null)
+    setSwatchFile(null)
+    setForm({
+      name: color?.name || '',
+      hex: color?.hex || '#FFFFFF',
+      fabric_line: color?.fabric_line || '',
+      sort_order: String(color?.sort_order ?? nextSortOrder),
+      surcharge: String(color?.surcharge ?? 0),
+      is_active: color?.is_active ?? true,
+      swatch_path: color?.swatch_path ?? null,
+    })
+  }, [open, color, nextSortOrder])
+
+  // Preview a newly picked swatch before it is uploaded
+  useEffect(() => {
+    if (!swatchFile) {
+      setSwatchPreview(null)
+      return
+    }
+    const url = URL.createObjectURL(swatchFile)
+    setSwatchPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [swatchFile])
+
+  if (!form) return null
+
+  const handleChange = <K extends keyof ColorForm>(field: K, value: ColorForm[K]) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev)
+  }
+
+  const handleSwatchSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file (JPG, PNG, etc.)')
+      return
+    }
+    setSwatchFile(file)
+  }
+
+  const handleSave = async () => {
+    const name = form.name.trim()
+    const hex = form.hex.trim().toUpperCase()
+    const sortOrder = Number(form.sort_order)
+    const surcharge = Number(form.surcharge || 0)
+
+    if (!name) {
+      setError('Name is required')
+      return
+    }
+    if (!HEX_PATTERN.test(hex)) {
+      setError('Hex color should look like #A59B6D')
+      return
+    }
+    if (!Number.isInteger(sortOrder)) {
+      setError('Sort order should be a whole number')
+      return
+    }
+    if (!Number.isFinite(surcharge) || surcharge < 0) {
+      setError('Surcharge should be zero or more')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+      const swatchPath = swatchFile ? await colorService.uploadSwatch(swatchFile) : form.swatch_path
+      await onSave({
+        name,
+        hex,
+        swatch_path: swatchPath,
+        fabric_line: form.fabric_line.trim() || null,
+        is_active: form.is_active,
+        sort_order: sortOrder,
+        surcharge,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save color')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const previewColor = {
+    hex: HEX_PATTERN.test(form.hex) ? form.hex : '#FFFFFF',
+    swatch_path: swatchFile ? null : form.swatch_path,
+  } as Color
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{color ? 'Edit Color' : 'Add Color'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            fullWidth
+            required
+            label="Name"
+            value={form.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            disabled={Boolean(color)}
+            helperText={color ? 'Orders refer to colors by name, so it cannot be changed' : undefined}
+          />
+          <Stack direction="row" spacing={2} alignItems="center">
+            <TextField
+              fullWidth
+              required
+              label="Hex Color"
+              value={form.hex}
+              onChange={(e) => handleChange('hex', e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <input
+                      type="color"
+                      aria-label="Pick color"
+                      value={HEX_PATTERN.test(form.hex) ? form.hex : '#FFFFFF'}
+                      onChange={(e) => handleChange('hex', e.target.value.toUpperCase())}
+                      style={{ width: 28, height: 28, padding: 0, border: 'none', background: 'none' }}
+                    />
+                  </InputAdornment>
+                ),
+              }}
+            />
+            <TextField
+              fullWidth
+              label="Fabric Line"
+              value={form.fabric_line}
+              onChange={(e) => handleChange('fabric_line', e.target.value)}
+            />
+          </Stack>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Sort Order"
+              value={form.sort_order}
+              onChange={(e) => handleChange('sort_order', e.target.value)}
+              helperText="Lower numbers are shown first"
+            />
+            <TextField
+              fullWidth
+              type="number"
+              label="Surcharge per Piece"
+              value={form.surcharge}
+              onChange={(e) => handleChange('surcharge', e.target.value)}
+              inputProps={{ min: 0, step: '0.01' }}
+              InputProps={{ startAdornment: <InputAdornment position="start">$</InputAdornment> }}
+            />
+          </Stack>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            {swatchPreview ? (
+              <Box
+                component="img"
+                src={swatchPreview}
+                alt="New swatch"
+                sx={{ width: 50, height: 50, objectFit: 'cover', borderRadius: 1, border: '3px solid #ddd' }}
+              />
+            ) : (
+              <ColorSwatch color={previewColor} />
+            )}
+            <Button component="label" variant="outlined" startIcon={<UploadIcon />}>
+              {form.swatch_path || swatchFile ? 'Replace Swatch Photo' : 'Upload Swatch Photo'}
+              <input type="file" accept="image/*" hidden onChange={handleSwatchSelect} />
+            </Button>
+            {(form.swatch_path || swatchFile) && (
+              <Button
+                color="inherit"
+                onClick={() => {
+                  setSwatchFile(null)
+                  handleChange('swatch_path', null)
+                }}
+              >
+                Remove
+              </Button>
+            )}
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.is_active}
+                onChange={(e) => handleChange('is_active', e.target.checked)}
+              />
+            }
+            label={form.is_active ? 'Offered on new orders' : 'Discontinued (kept for existing orders)'}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
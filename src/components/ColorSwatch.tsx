@@ -0,0 +1,35 @@
+'use client'
+
+import React from 'react'
+import { Box } from '@mui/material'
+import { Color } from '@/types/color'
+import { colorService } from '@/services/colorService'
+
+interface ColorSwatchProps {
+  color: Color | undefined // undefined for a name no longer in the catalog
+  size?: number
+  selected?: boolean
+  children?: React.ReactNode
+}
+
+// The fabric photo when the color has one, its hex otherwise
+export default function ColorSwatch({ color, size = 50, selected = false, children }: ColorSwatchProps) {
+  return (
+    <Box
+      sx={{
+        width: size,
+        height: size,
+        flexShrink: 0,
+        backgroundColor: color?.hex || 'grey.300',
+        backgroundImage: color?.swatch_path ? `url("${colorService.getSwatchUrl(color.swatch_path)}")` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        border: `${size >= 40 ? 3 : 1}px solid ${selected ? '#1976d2' : '#ddd'}`,
+        borderRadius: 1,
+        position: 'relative',
+      }}
+    >
+      {children}
+    </Box>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import React from 'react'
+import { Box, MenuItem, TextField } from '@mui/material'
+import { Color } from '@/types/color'
+import { CushionMaterial } from '@/types/order'
+import { FOAM_THICKNESSES, FOAM_TYPES, THREAD_COLORS, emptyMaterial } from '@/lib/materials'
+import ColorSwatch from '@/components/ColorSwatch'
+
+interface CushionMaterialFieldsProps {
+  material: CushionMaterial | undefined
+  colors: Color[] // Colors still offered
+  onChange: (material: CushionMaterial) => void
+}
+
+const NONE = ''
+
+const colorOption = (color: Color) => (
+  <MenuItem key={color.name} value={color.name}>
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <ColorSwatch color={color} size={18} />
+      {color.name}
+    </Box>
+  </MenuItem>
+)
+
+// Fabric, piping, thread and foam for one cushion
+export default function CushionMaterialFields({ material, colors, onChange }: CushionMaterialFieldsProps) {
+  const value = material ?? emptyMaterial()
+  const fabricLines = Array.from(new Set(colors.map(color => color.fabric_line).filter((line): line is string => Boolean(line))))
+  const fabricColors = value.fabric_line ? colors.filter(color => color.fabric_line === value.fabric_line) : colors
+
+  const update = (updates: Partial<CushionMaterial>) => {
+    onChange({ ...value, ...updates })
+  }
+
+  // A color from another line no longer fits once the line changes
+  const handleFabricLineChange = (fabricLine: string | null) => {
+    const color = colors.find(c => c.name === value.color)
+    update({
+      fabric_line: fabricLine,
+      color: fabricLine && color?.fabric_line !== fabricLine ? null : value.color,
+    })
+  }
+
+  // Picking a color settles the line it belongs to
+  const handleColorChange = (colorName: string | null) => {
+    const color = colors.find(c => c.name === colorName)
+    update({ color: colorName, fabric_line: color?.fabric_line ?? value.fabric_line })
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+      {fabricLines.length > 0 && (
+        <TextField
+          select
+          size="small"
+          label="Fabric Line"
+          value={value.fabric_line ?? NONE}
+          onChange={(e) => handleFabricLineChange(e.target.value || null)}
+        >
+          <MenuItem value={NONE}>Any</MenuItem>
+          {fabricLines.map(line => (
+            <MenuItem key={line} value={line}>{line}</MenuItem>
+          ))}
+        </TextField>
+      )}
+      <TextField
+        select
+        size="small"
+        label="Top Color"
+        value={value.color ?? NONE}
+        onChange={(e) => handleColorChange(e.target.value || null)}
+      >
+        <MenuItem value={NONE}>Not chosen</MenuItem>
+        {fabricColors.map(colorOption)}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Side Color"
+        value={value.side_color ?? NONE}
+        onChange={(e) => update({ side_color: e.target.value || null })}
+      >
+        <MenuItem value={NONE}>Same as top</MenuItem>
+        {colors.map(colorOption)}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Piping Color"
+        value={value.piping_color ?? NONE}
+        onChange={(e) => update({ piping_color: e.target.value || null })}
+      >
+        <MenuItem value={NONE}>No piping</MenuItem>
+        {colors.map(colorOption)}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Thread Color"
+        value={value.thread_color ?? NONE}
+        onChange={(e) => update({ thread_color: e.target.value || null })}
+      >
+        <MenuItem value={NONE}>Match the fabric</MenuItem>
+        {THREAD_COLORS.map(thread => (
+          <MenuItem key={thread} value={thread}>{thread}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Foam"
+        value={value.foam_type ?? NONE}
+        onChange={(e) => update({ foam_type: e.target.value || null })}
+      >
+        <MenuItem value={NONE}>Not chosen</MenuItem>
+        {FOAM_TYPES.map(foam => (
+          <MenuItem key={foam.code} value={foam.code} title={foam.description}>{foam.name}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Foam Thickness"
+        value={value.foam_thickness ?? NONE}
+        onChange={(e) => update({ foam_thickness: e.target.value ? Number(e.target.value) : null })}
+      >
+        <MenuItem value={NONE}>Not chosen</MenuItem>
+        {FOAM_THICKNESSES.map(thickness => (
+          <MenuItem key={thickness} value={thickness}>{thickness}"</MenuItem>
+        ))}
+      </TextField>
+    </Box>
+  )
+}
@@ -0,0 +1,157 @@
+'use client'
+
+import React, { useId } from 'react'
+import { Color } from '@/types/color'
+import { CushionMaterial, CushionShape } from '@/types/order'
+import { colorService } from '@/services/colorService'
+
+interface CushionPreviewProps {
+  shape: CushionShape | undefined
+  material: CushionMaterial | null | undefined
+  colors: Color[] // The catalog, for the swatch photos
+  width?: number
+  title?: string
+}
+
+const VIEW_WIDTH = 200
+const VIEW_HEIGHT = 130
+const SWATCH_TILE = 48 // Size of one repeat of the fabric photo, in view units
+const UNSET_FILL = '#e0e0e0'
+const OUTLINE = 'rgba(0, 0, 0, 0.35)'
+
+interface Paint {
+  fill: string
+  pattern: React.ReactNode
+}
+
+interface Faces {
+  top: string
+  side: string
+  piping: string | null // null for no piping
+  shadeId: string
+}
+
+// Outlines in view units, seen from the front right with the top tilted toward the viewer. The sides
+// are drawn first and the top over them.
+const drawShape = (shape: CushionShape, { top, side, piping, shadeId }: Faces) => {
+  const edge = piping
+    ? { stroke: piping, strokeWidth: 3.5, strokeLinejoin: 'round' as const, fill: 'none' }
+    : { stroke: OUTLINE, strokeWidth: 1, strokeLinejoin: 'round' as const, fill: 'none' }
+
+  switch (shape) {
+    case 'bolster':
+      return (
+        <>
+          <path d="M20,35 L180,35 L180,95 L20,95 A14,30 0 0 1 20,35 Z" fill={top} />
+          <path d="M20,35 L180,35 L180,95 L20,95 A14,30 0 0 1 20,35 Z" fill={`url(#${shadeId})`} />
+          <ellipse cx={180} cy={65} rx={14} ry={30} fill={side} />
+          <ellipse cx={180} cy={65} rx={14} ry={30} fill="rgba(0, 0, 0, 0.15)" />
+          <path d="M20,95 A14,30 0 0 1 20,35" {...edge} />
+          <ellipse cx={180} cy={65} rx={14} ry={30} {...edge} />
+        </>
+      )
+    case 'wedge':
+      return (
+        <>
+          <polygon points="170,75 190,10 190,50 170,95" fill={side} />
+          <polygon points="170,75 190,10 190,50 170,95" fill="rgba(0, 0, 0, 0.25)" />
+          <polygon points="10,75 170,75 170,95 10,95" fill={side} />
+          <polygon points="10,75 170,75 170,95 10,95" fill="rgba(0, 0, 0, 0.12)" />
+          <polygon points="30,10 190,10 170,75 10,75" fill={top} />
+          <path d="M30,10 L190,10 L170,75 L10,75 Z" {...edge} />
+          <path d="M10,95 L170,95 L190,50" {...edge} />
+        </>
+      )
+    case 'rounded':
+      // The top is a rounded rectangle skewed to match the other shapes' perspective
+      return (
+        <>
+          <polygon points="170,75 190,25 190,60 170,105" fill={side} />
+          <polygon points="170,75 190,25 190,60 170,105" fill="rgba(0, 0, 0, 0.25)" />
+          <path d="M10,75 L170,75 L170,100 Q170,110 160,110 L20,110 Q10,110 10,100 Z" fill={side} />
+          <path d="M10,75 L170,75 L170,100 Q170,110 160,110 L20,110 Q10,110 10,100 Z" fill="rgba(0, 0, 0, 0.12)" />
+          <g transform="translate(30,25) skewX(-21.8)">
+            <rect x={0} y={0} width={160} height={50} rx={14} fill={top} />
+            <rect x={0} y={0} width={160} height={50} rx={14} {...edge} />
+          </g>
+          <path d="M10,100 Q10,110 20,110 L160,110 Q170,110 170,100 L190,60" {...edge} />
+        </>
+      )
+    default:
+      return (
+        <>
+          <polygon points="170,75 190,25 190,60 170,110" fill={side} />
+          <polygon points="170,75 190,25 190,60 170,110" fill="rgba(0, 0, 0, 0.25)" />
+          <polygon points="10,75 170,75 170,110 10,110" fill={side} />
+          <polygon points="10,75 170,75 170,110 10,110" fill="rgba(0, 0, 0, 0.12)" />
+          <polygon points="30,25 190,25 170,75 10,75" fill={top} />
+          <path d="M30,25 L190,25 L170,75 L10,75 Z" {...edge} />
+          <path d="M10,110 L170,110 L190,60" {...edge} />
+        </>
+      )
+  }
+}
+
+// A drawing of the cushion in its assigned fabrics: the swatch photo where the color has one, its hex
+// otherwise. Parts without a color yet are grey.
+export default function CushionPreview({ shape, material, colors, width = VIEW_WIDTH, title }: CushionPreviewProps) {
+  // Pattern ids must be unique on the page and usable in url(#...)
+  const id = `cushion-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
+
+  const paint = (colorName: string | null | undefined, part: string): Paint => {
+    const color = colors.find(c => c.name === colorName)
+    if (!color) {
+      return { fill: UNSET_FILL, pattern: null }
+    }
+    if (!color.swatch_path) {
+      return { fill: color.hex, pattern: null }
+    }
+    return {
+      fill: `url(#${id}-${part})`,
+      pattern: (
+        <pattern key={part} id={`${id}-${part}`} patternUnits="userSpaceOnUse" width={SWATCH_TILE} height={SWATCH_TILE}>
+          <rect width={SWATCH_TILE} height={SWATCH_TILE} fill={color.hex} />
+          <image
+            href={colorService.getSwatchUrl(color.swatch_path)}
+            width={SWATCH_TILE}
+            height={SWATCH_TILE}
+            preserveAspectRatio="xMidYMid slice"
+          />
+        </pattern>
+      ),
+    }
+  }
+
+  const top = paint(material?.color, 'top')
+  const side = material?.side_color ? paint(material.side_color, 'side') : top
+  const piping = material?.piping_color ? paint(material.piping_color, 'piping') : null
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+      width={width}
+      height={(width * VIEW_HEIGHT) / VIEW_WIDTH}
+      role="img"
+      style={{ display: 'block', maxWidth: '100%', height: 'auto' }}
+    >
+      {title && <title>{title}</title>}
+      <defs>
+        {top.pattern}
+        {side !== top && side.pattern}
+        {piping?.pattern}
+        {/* Light from above for the round bolster */}
+        <linearGradient id={`${id}-shade`} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0" stopColor="#fff" stopOpacity={0.3} />
+          <stop offset="0.45" stopColor="#fff" stopOpacity={0} />
+          <stop offset="1" stopColor="#000" stopOpacity={0.3} />
+        </linearGradient>
+      </defs>
+      {drawShape(shape ?? 'rectangle', {
+        top: top.fill,
+        side: side.fill,
+        piping: piping?.fill ?? null,
+        shadeId: `${id}-shade`,
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import React from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Box,
+  IconButton,
+} from '@mui/material'
+import { Delete as DeleteIcon } from '@mui/icons-material'
+import { OrderDraft } from '@/types/order'
+import { getDraftSummary, getDraftTitle } from '@/lib/orderDrafts'
+
+interface DraftOrderCardProps {
+  draft: OrderDraft
+  onDiscard: (draft: OrderDraft) => void
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export default function DraftOrderCard({ draft, onDiscard }: DraftOrderCardProps) {
+  const router = useRouter()
+
+  const handleCardClick = () => {
+    router.push(`/orders/new?draft=${draft.id}`)
+  }
+
+  return (
+    <Card
+      onClick={handleCardClick}
+      sx={{
+        width: '100%',
+        mb: 2,
+        borderRadius: 2,
+        boxShadow: 1,
+        cursor: 'pointer',
+        border: 1,
+        borderStyle: 'dashed',
+        borderColor: 'grey.400',
+        transition: 'all 0.2s ease-in-out',
+        '&:hover': {
+          boxShadow: 3,
+          transform: 'translateY(-2px)',
+        }
+      }}
+    >
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="h6" component="h2" gutterBottom sx={{ fontWeight: 'bold' }}>
+              {getDraftTitle(draft)}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Chip label="DRAFT" size="small" variant="outlined" />
+              <Typography variant="body2" color="text.secondary">
+                {getDraftSummary(draft)}
+              </Typography>
+            </Box>
+
+            <Typography variant="body2" color="text.secondary">
+              Last saved: {formatDateTime(draft.updated_at)}
+            </Typography>
+          </Box>
+
+          <IconButton
+            aria-label="discard draft"
+            onClick={(event) => {
+              event.stopPropagation()
+              onDiscard(draft)
+            }}
+          >
+            <DeleteIcon />
+          </IconButton>
+        </Box>
+      </CardContent>
+    </Card>
+  )
+}
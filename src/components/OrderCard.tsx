@@ -9,18 +9,27 @@ import {
   Chip,
   Box,
   Badge,
+  Button,
+  Checkbox,
 } from '@mui/material'
+import { Warning as WarningIcon, Replay as ReorderIcon } from '@mui/icons-material'
 import { Order } from '@/types/order'
+import { getAttentionLabel } from '@/lib/orderAttention'
 
 interface OrderCardProps {
   order: Order
   unreadCount?: number
+  onReorder?: (order: Order) => void // Only offered on the customer's own orders
+  selected?: boolean
+  onSelectChange?: (order: Order, selected: boolean) => void // Admins pick orders to print shipping documents for
 }
 
 const getStatusColor = (status: Order['status']) => {
   switch (status) {
     case 'UNPAID':
       return 'error'
+    case 'PARTIALLY_PAID':
+      return 'secondary'
     case 'PAID':
       return 'warning'
     case 'PREPARING':
@@ -46,7 +55,7 @@ const formatDate = (dateString: string) => {
   })
 }
 
-export default function OrderCard({ order, unreadCount = 0 }: OrderCardProps) {
+export default function OrderCard({ order, unreadCount = 0, onReorder, selected = false, onSelectChange }: OrderCardProps) {
   const router = useRouter()
   const poNumber = order.projectname || 'No PO'
   const hasNoPO = !order.projectname
@@ -76,6 +85,8 @@ export default function OrderCard({ order, unreadCount = 0 }: OrderCardProps) {
           borderRadius: 2,
           boxShadow: 2,
           cursor: 'pointer',
+          borderLeft: order.needs_attention ? 4 : 0,
+          borderColor: 'error.main',
           transition: 'all 0.2s ease-in-out',
           '&:hover': {
             boxShadow: 4,
@@ -84,17 +95,28 @@ export default function OrderCard({ order, unreadCount = 0 }: OrderCardProps) {
         }}
       >
       <CardContent>
-        <Typography 
-          variant="h6" 
-          component="h2" 
-          gutterBottom
-          sx={{ 
-            fontWeight: 'bold',
-            color: hasNoPO ? 'text.secondary' : 'text.primary'
-          }}
-        >
-          {poNumber}
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {onSelectChange && (
+            <Checkbox
+              checked={selected}
+              onClick={(event) => event.stopPropagation()}
+              onChange={(event) => onSelectChange(order, event.target.checked)}
+              inputProps={{ 'aria-label': `Select order ${order.id}` }}
+              sx={{ ml: -1.5 }}
+            />
+          )}
+          <Typography 
+            variant="h6" 
+            component="h2" 
+            gutterBottom
+            sx={{ 
+              fontWeight: 'bold',
+              color: hasNoPO ? 'text.secondary' : 'text.primary'
+            }}
+          >
+            {poNumber}
+          </Typography>
+        </Box>
         
         <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
           <Typography variant="body2" color="text.secondary">
@@ -105,6 +127,22 @@ export default function OrderCard({ order, unreadCount = 0 }: OrderCardProps) {
             color={getStatusColor(order.status) as any}
             size="small"
           />
+          {order.needs_attention && (
+            <Chip
+              icon={<WarningIcon />}
+              label={getAttentionLabel(order.attention_reason)}
+              color="error"
+              variant="outlined"
+              size="small"
+            />
+          )}
+          {!order.needs_attention && order.dispute_status && (
+            <Chip
+              label={`Dispute ${order.dispute_status.replace(/_/g, ' ')}`}
+              variant="outlined"
+              size="small"
+            />
+          )}
         </Box>
         
         <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
@@ -118,9 +156,23 @@ export default function OrderCard({ order, unreadCount = 0 }: OrderCardProps) {
           )}
         </Box>
         
-        <Typography variant="body2" color="text.secondary">
-          Created: {formatDate(order.created_at)}
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Created: {formatDate(order.created_at)}
+          </Typography>
+          {onReorder && (
+            <Button
+              size="small"
+              startIcon={<ReorderIcon />}
+              onClick={(event) => {
+                event.stopPropagation()
+                onReorder(order)
+              }}
+            >
+              Reorder
+            </Button>
+          )}
+        </Box>
       </CardContent>
     </Card>
     </Badge>
@@ -0,0 +1,49 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Box, Typography } from '@mui/material'
+import { Color } from '@/types/color'
+import { colorService } from '@/services/colorService'
+import ColorSwatch from '@/components/ColorSwatch'
+
+interface OrderColorsProps {
+  colors: string[] // The names stored on the order
+}
+
+// An order's colors with their swatches, including colors discontinued since the order was placed
+export default function OrderColors({ colors }: OrderColorsProps) {
+  const [catalog, setCatalog] = useState<Color[]>([])
+
+  useEffect(() => {
+    colorService.getColors(true)
+      .then(setCatalog)
+      .catch(err => console.error('Failed to load colors:', err))
+  }, [])
+
+  if (colors.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        None specified
+      </Typography>
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+      {colors.map((name) => {
+        const color = catalog.find(c => c.name === name)
+        return (
+          <Box key={name} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ColorSwatch color={color} size={24} />
+            <Typography variant="body2">
+              {name}
+              {color && !color.is_active && (
+                <Typography component="span" variant="caption" color="text.secondary"> (discontinued)</Typography>
+              )}
+            </Typography>
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
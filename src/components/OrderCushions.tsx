@@ -0,0 +1,87 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Box, List, ListItem, ListItemText, Typography } from '@mui/material'
+import { Color } from '@/types/color'
+import { DatabaseCushion } from '@/types/order'
+import { colorService } from '@/services/colorService'
+import { COLOR_PANELS, describeFoam } from '@/lib/materials'
+import ColorSwatch from '@/components/ColorSwatch'
+import CushionPreview from '@/components/CushionPreview'
+
+interface OrderCushionsProps {
+  cushions: DatabaseCushion[]
+}
+
+// An order's cushions, each drawn in its fabrics with the colors assigned to each part of it listed
+// beside the drawing, then fabric, thread and foam
+export default function OrderCushions({ cushions }: OrderCushionsProps) {
+  const [catalog, setCatalog] = useState<Color[]>([])
+
+  useEffect(() => {
+    colorService.getColors(true)
+      .then(setCatalog)
+      .catch(err => console.error('Failed to load colors:', err))
+  }, [])
+
+  return (
+    <List dense>
+      {cushions.map((cushion, index) => {
+        const material = cushion.material
+        // Without a side color the top color covers the whole cushion
+        const panels = COLOR_PANELS
+          .filter(panel => material?.[panel.key])
+          .map(panel => ({
+            ...panel,
+            label: panel.key === 'color' && !material?.side_color ? 'Fabric' : panel.label,
+            colorName: material![panel.key]!,
+          }))
+        const details = material
+          ? [material.fabric_line, material.thread_color ? `${material.thread_color} thread` : null, describeFoam(material)]
+            .filter(Boolean)
+            .join(', ')
+          : ''
+
+        return (
+          <ListItem key={cushion.id || index} alignItems="flex-start" sx={{ gap: 2 }}>
+            <Box sx={{ width: 96, flexShrink: 0, pt: 0.5 }}>
+              <CushionPreview shape={cushion.shape} material={material} colors={catalog} width={96} title={`${cushion.name} preview`} />
+            </Box>
+            <ListItemText
+              primary={`${cushion.name} (${cushion.quantity})`}
+              secondary={
+                <>
+                  {`Mirrored: ${cushion.mirror ? 'Yes' : 'No'}`}
+                  {panels.length > 0 && (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mt: 1 }}>
+                      {panels.map(panel => {
+                        const color = catalog.find(c => c.name === panel.colorName)
+                        return (
+                          <Box key={panel.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <ColorSwatch color={color} size={20} />
+                            <Typography variant="body2">
+                              {panel.label}: {panel.colorName}
+                              {color && !color.is_active && (
+                                <Typography component="span" variant="caption" color="text.secondary"> (discontinued)</Typography>
+                              )}
+                            </Typography>
+                          </Box>
+                        )
+                      })}
+                    </Box>
+                  )}
+                  {details && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                      {details}
+                    </Typography>
+                  )}
+                </>
+              }
+              secondaryTypographyProps={{ component: 'div' }}
+            />
+          </ListItem>
+        )
+      })}
+    </List>
+  )
+}
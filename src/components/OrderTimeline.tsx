@@ -0,0 +1,221 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Divider,
+  CircularProgress,
+  Alert,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material'
+import {
+  History,
+  SwapHoriz,
+  AttachMoney,
+  Payment,
+  Undo,
+  ReceiptLong,
+  ThumbUp,
+  ThumbDown,
+  Send,
+  EventBusy,
+  ErrorOutline,
+  TimerOff,
+  Gavel,
+  LocalShipping,
+  TaskAlt,
+} from '@mui/icons-material'
+import { orderEventService } from '@/services/orderEventService'
+import { OrderEvent } from '@/types/orderEvent'
+import { getCarrierName, getTrackingStatusLabel } from '@/lib/carriers'
+
+interface OrderTimelineProps {
+  orderId: number
+  // Change this value to reload the timeline after the order is updated
+  refreshKey?: unknown
+}
+
+const formatAmount = (value: unknown) => {
+  return typeof value === 'number' ? `$${value.toFixed(2)}` : '—'
+}
+
+const getEventIcon = (event: OrderEvent) => {
+  switch (event.event_type) {
+    case 'status_changed':
+      return <SwapHoriz />
+    case 'outstanding_amount_changed':
+      return <AttachMoney />
+    case 'payment_received':
+      return <Payment />
+    case 'payment_failed':
+      return <ErrorOutline />
+    case 'checkout_expired':
+      return <TimerOff />
+    case 'refund_issued':
+    case 'refund_processed':
+    case 'refund_updated':
+      return <Undo />
+    case 'dispute_opened':
+    case 'dispute_closed':
+      return <Gavel />
+    case 'attention_resolved':
+      return <TaskAlt />
+    case 'quote_created':
+      return <ReceiptLong />
+    case 'quote_sent':
+      return <Send />
+    case 'quote_accepted':
+      return <ThumbUp />
+    case 'quote_rejected':
+      return <ThumbDown />
+    case 'quote_expired':
+      return <EventBusy />
+    case 'shipment_created':
+    case 'shipment_status_changed':
+      return <LocalShipping />
+    default:
+      return <History />
+  }
+}
+
+const describeEvent = (event: OrderEvent) => {
+  switch (event.event_type) {
+    case 'status_changed':
+      return event.old_value
+        ? `Status changed from ${event.old_value} to ${event.new_value}`
+        : `Status set to ${event.new_value}`
+    case 'outstanding_amount_changed':
+      return `Outstanding amount changed from ${formatAmount(event.old_value)} to ${formatAmount(event.new_value)}`
+    case 'payment_received':
+      return `Payment of ${formatAmount(event.new_value)} received`
+    case 'payment_failed':
+      return event.metadata?.reason
+        ? `Payment of ${formatAmount(event.new_value)} failed: ${event.metadata.reason}`
+        : `Payment of ${formatAmount(event.new_value)} failed`
+    case 'checkout_expired':
+      return `Checkout for ${formatAmount(event.new_value)} expired without payment`
+    case 'refund_issued':
+      return `Refund of ${formatAmount(event.new_value)} issued`
+    case 'refund_processed':
+      return `Refund of ${formatAmount(event.new_value)} processed by Stripe`
+    case 'refund_updated':
+      return `Refund of ${formatAmount(event.metadata?.amount)} changed from ${event.old_value} to ${event.new_value}`
+    case 'dispute_opened':
+      return `Payment of ${formatAmount(event.new_value)} disputed by the card holder (${String(event.metadata?.reason).replace(/_/g, ' ')})`
+    case 'dispute_closed':
+      return `Dispute of ${formatAmount(event.metadata?.amount)} closed: ${event.new_value}`
+    case 'attention_resolved':
+      return event.metadata?.note
+        ? `Marked as resolved: ${event.metadata.note}`
+        : 'Marked as resolved'
+    case 'quote_created':
+    case 'quote_sent':
+      return `Quote #${event.metadata?.quote_id} for ${formatAmount(event.new_value)} sent`
+    case 'quote_accepted':
+      return `Quote #${event.metadata?.quote_id} for ${formatAmount(event.new_value)} accepted`
+    case 'quote_rejected':
+      return event.metadata?.reason
+        ? `Quote #${event.metadata?.quote_id} rejected: ${event.metadata.reason}`
+        : `Quote #${event.metadata?.quote_id} rejected`
+    case 'quote_expired':
+      return `Quote #${event.metadata?.quote_id} expired`
+    case 'shipment_created':
+      return `Shipped with ${getCarrierName(event.metadata?.carrier)}, tracking number ${event.new_value}`
+    case 'shipment_status_changed':
+      return `Tracking for ${event.metadata?.tracking_number} changed from ${getTrackingStatusLabel(event.old_value)} to ${getTrackingStatusLabel(event.new_value)}`
+    default:
+      return event.event_type
+  }
+}
+
+const describeActor = (event: OrderEvent) => {
+  switch (event.actor_type) {
+    case 'admin':
+      return 'by staff'
+    case 'customer':
+      return 'by customer'
+    default:
+      return 'automatically'
+  }
+}
+
+export default function OrderTimeline({ orderId, refreshKey }: OrderTimelineProps) {
+  const [events, setEvents] = useState<OrderEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadEvents = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const data = await orderEventService.getOrderEvents(orderId)
+        if (isMounted) {
+          setEvents(data)
+        }
+      } catch (err) {
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load order history')
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    if (orderId) {
+      loadEvents()
+    }
+
+    return () => {
+      isMounted = false
+    }
+  }, [orderId, refreshKey])
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <History />
+          Order History
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : events.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No changes recorded yet
+          </Typography>
+        ) : (
+          <List dense>
+            {events.map((event) => (
+              <ListItem key={event.id} alignItems="flex-start">
+                <ListItemIcon sx={{ minWidth: 40, mt: 0.5 }}>
+                  {getEventIcon(event)}
+                </ListItemIcon>
+                <ListItemText
+                  primary={describeEvent(event)}
+                  secondary={`${new Date(event.created_at).toLocaleString()} • ${describeActor(event)}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  Typography,
+  Divider,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import { AccountBalanceWallet } from '@mui/icons-material'
+import { PaymentService } from '@/services/paymentService'
+import { PaymentRecord, PaymentStatus, PaymentType } from '@/types/payment'
+import { getNetPaid, getSignedPaymentAmount } from '@/lib/payments'
+
+interface PaymentLedgerProps {
+  orderId: number
+  // Change this value to reload the ledger after a payment or refund
+  refreshKey?: unknown
+}
+
+const TYPE_LABELS: Record<PaymentType, string> = {
+  charge: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+}
+
+const getStatusColor = (status: PaymentStatus) => {
+  switch (status) {
+    case 'succeeded':
+      return 'success'
+    case 'pending':
+    case 'requires_action':
+      return 'warning'
+    case 'failed':
+      return 'error'
+    default:
+      return 'default'
+  }
+}
+
+const formatSignedAmount = (payment: PaymentRecord) => {
+  const amount = getSignedPaymentAmount(payment)
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+}
+
+export default function PaymentLedger({ orderId, refreshKey }: PaymentLedgerProps) {
+  const [payments, setPayments] = useState<PaymentRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadPayments = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const data = await PaymentService.getPayments(orderId)
+        if (isMounted) {
+          setPayments(data)
+        }
+      } catch (err) {
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : 'Failed to load payments')
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    if (orderId) {
+      loadPayments()
+    }
+
+    return () => {
+      isMounted = false
+    }
+  }, [orderId, refreshKey])
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <AccountBalanceWallet />
+          Payments
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : payments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No payments yet
+          </Typography>
+        ) : (
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>
+                      <Typography variant="body2">{new Date(payment.created_at).toLocaleDateString()}</Typography>
+                      {payment.stripe_object_id && (
+                        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                          {payment.stripe_object_id}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{TYPE_LABELS[payment.type]}</TableCell>
+                    <TableCell>
+                      <Chip label={payment.status} color={getStatusColor(payment.status) as any} size="small" />
+                    </TableCell>
+                    <TableCell align="right">{formatSignedAmount(payment)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={3} sx={{ fontWeight: 'bold' }}>Net paid</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                    ${getNetPaid(payments).toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,390 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Divider,
+  IconButton,
+  Stack,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material'
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material'
+import { Order } from '@/types/order'
+import { Quote, QuoteLineItemInput } from '@/types/quote'
+import { quoteService } from '@/services/quoteService'
+import { colorService } from '@/services/colorService'
+import {
+  calculateQuoteTotals,
+  DEFAULT_DEPOSIT_PERCENT,
+  DEFAULT_QUOTE_VALIDITY_DAYS,
+  getDepositAmount,
+  getLineTotal,
+} from '@/lib/quote'
+
+interface QuoteBuilderDialogProps {
+  open: boolean
+  order: Order
+  currentQuote: Quote | null
+  onClose: () => void
+  onSaved: (quote: Quote, order: Order) => void
+}
+
+// Inputs are kept as strings while editing so partially typed amounts are not lost
+interface QuoteLineDraft {
+  key: string
+  cushion_id: string | null
+  description: string
+  quantity: string
+  base_price: string
+  mirror_surcharge: string
+  fabric_surcharge: string
+}
+
+const toNumber = (value: string) => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+const toLineInput = (line: QuoteLineDraft): QuoteLineItemInput => ({
+  cushion_id: line.cushion_id,
+  description: line.description,
+  quantity: Math.floor(toNumber(line.quantity)),
+  base_price: toNumber(line.base_price),
+  mirror_surcharge: toNumber(line.mirror_surcharge),
+  fabric_surcharge: toNumber(line.fabric_surcharge),
+})
+
+// Date inputs work with YYYY-MM-DD in local time
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10)
+}
+
+const getDefaultExpiryDate = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + DEFAULT_QUOTE_VALIDITY_DAYS)
+  return toDateInputValue(date)
+}
+
+const buildInitialLines = (order: Order, quote: Quote | null): QuoteLineDraft[] => {
+  if (quote && quote.line_items.length > 0) {
+    return quote.line_items.map((line) => ({
+      key: `quote-${line.id}`,
+      cushion_id: line.cushion_id,
+      description: line.description,
+      quantity: String(line.quantity),
+      base_price: String(line.base_price),
+      mirror_surcharge: String(line.mirror_surcharge),
+      fabric_surcharge: String(line.fabric_surcharge),
+    }))
+  }
+
+  return (order.cushions || []).map((cushion) => ({
+    key: `cushion-${cushion.id}`,
+    cushion_id: cushion.id,
+    description: cushion.mirror ? `${cushion.name} (mirrored)` : cushion.name,
+    quantity: String(cushion.quantity),
+    base_price: '',
+    mirror_surcharge: '0',
+    fabric_surcharge: '0',
+  }))
+}
+
+export default function QuoteBuilderDialog({ open, order, currentQuote, onClose, onSaved }: QuoteBuilderDialogProps) {
+  const [lines, setLines] = useState<QuoteLineDraft[]>([])
+  const [shippingAmount, setShippingAmount] = useState('0')
+  const [taxAmount, setTaxAmount] = useState('0')
+  const [discountAmount, setDiscountAmount] = useState('0')
+  const [depositPercent, setDepositPercent] = useState(String(DEFAULT_DEPOSIT_PERCENT))
+  const [notes, setNotes] = useState('')
+  const [expiryDate, setExpiryDate] = useState('')
+  const [saving, setSaving] = useState<null | 'draft' | 'send'>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from the current quote (to revise it) or from the order's cushions
+  useEffect(() => {
+    if (!open) return
+    setLines(buildInitialLines(order, currentQuote))
+    setShippingAmount(currentQuote ? String(currentQuote.shipping_amount) : '0')
+    setTaxAmount(currentQuote ? String(currentQuote.tax_amount) : '0')
+    setDiscountAmount(currentQuote ? String(currentQuote.discount_amount) : '0')
+    setDepositPercent(currentQuote ? String(currentQuote.deposit_percent) : String(DEFAULT_DEPOSIT_PERCENT))
+    setNotes(currentQuote?.notes || '')
+    // Keep the expiry of an unsent draft; a revision of a sent quote gets a fresh validity period
+    setExpiryDate(currentQuote?.status === 'DRAFT' && currentQuote.expires_at
+      ? toDateInputValue(new Date(currentQuote.expires_at))
+      : getDefaultExpiryDate())
+    setError(null)
+  }, [open, order, currentQuote])
+
+  // New cushion lines start with the highest fabric surcharge among the order's colors
+  useEffect(() => {
+    if (!open || (currentQuote && currentQuote.line_items.length > 0) || order.color.length === 0) return
+    let isMounted = true
+
+    colorService.getColors(true)
+      .then((catalog) => {
+        const surcharge = Math.max(0, ...catalog
+          .filter(color => order.color.includes(color.name))
+          .map(color => Number(color.surcharge)))
+        if (!isMounted || surcharge <= 0) return
+        setLines(prev => prev.map(line =>
+          line.cushion_id !== null && line.fabric_surcharge === '0'
+            ? { ...line, fabric_surcharge: String(surcharge) }
+            : line
+        ))
+      })
+      .catch(err => console.error('Failed to load color surcharges:', err))
+
+    return () => {
+      isMounted = false
+    }
+  }, [open, order, currentQuote])
+
+  const lineInputs = lines.map(toLineInput)
+  const totals = calculateQuoteTotals(
+    lineInputs,
+    toNumber(shippingAmount),
+    toNumber(taxAmount),
+    toNumber(discountAmount)
+  )
+  const depositAmount = getDepositAmount({ total: totals.total, deposit_percent: toNumber(depositPercent) })
+
+  const handleLineChange = (key: string, field: keyof Omit<QuoteLineDraft, 'key' | 'cushion_id'>, value: string) => {
+    setLines(prev => prev.map(line => line.key === key ? { ...line, [field]: value } : line))
+  }
+
+  const handleAddLine = () => {
+    setLines(prev => [
+      ...prev,
+      {
+        key: `extra-${Date.now()}`,
+        cushion_id: null,
+        description: '',
+        quantity: '1',
+        base_price: '',
+        mirror_surcharge: '0',
+        fabric_surcharge: '0',
+      },
+    ])
+  }
+
+  const handleRemoveLine = (key: string) => {
+    setLines(prev => prev.filter(line => line.key !== key))
+  }
+
+  const handleSave = async (send: boolean) => {
+    if (saving) return
+    try {
+      setSaving(send ? 'send' : 'draft')
+      setError(null)
+
+      if (lineInputs.length === 0) {
+        throw new Error('Add at least one line item')
+      }
+      for (const line of lineInputs) {
+        if (!line.description.trim()) {
+          throw new Error('Every line item needs a description')
+        }
+        if (line.quantity <= 0) {
+          throw new Error(`"${line.description}" needs a quantity of at least 1`)
+        }
+      }
+      if (totals.total <= 0) {
+        throw new Error('Quote total must be greater than zero')
+      }
+
+      const deposit = toNumber(depositPercent)
+      if (deposit < 0 || deposit >= 100) {
+        throw new Error('Deposit must be at least 0% and less than 100%')
+      }
+
+      // The quote stays valid until the end of the chosen day
+      const expiresAt = new Date(`${expiryDate}T23:59:59`)
+      if (Number.isNaN(expiresAt.getTime())) {
+        throw new Error('Choose an expiry date')
+      }
+      if (send && expiresAt <= new Date()) {
+        throw new Error('Expiry date must be in the future')
+      }
+
+      const result = await quoteService.saveQuote({
+        order_id: order.id,
+        line_items: lineInputs,
+        shipping_amount: toNumber(shippingAmount),
+        tax_amount: toNumber(taxAmount),
+        discount_amount: toNumber(discountAmount),
+        deposit_percent: toNumber(depositPercent),
+        notes: notes.trim() || undefined,
+        expires_at: expiresAt.toISOString(),
+        send,
+      })
+      onSaved(result.quote, result.order)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save quote')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} fullWidth maxWidth="md">
+      <DialogTitle>
+        {!currentQuote ? 'Build Quote' : currentQuote.status === 'DRAFT' ? 'Edit Draft Quote' : 'Revise Quote'}
+      </DialogTitle>
+      <DialogContent sx={{ pt: 1 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+          Line Items
+        </Typography>
+        <Stack spacing={2} sx={{ mb: 2 }}>
+          {lines.map((line, index) => (
+            <Box key={line.key} sx={{ border: 1, borderColor: 'grey.200', borderRadius: 1, p: 1.5 }}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Description"
+                  value={line.description}
+                  onChange={(e) => handleLineChange(line.key, 'description', e.target.value)}
+                />
+                <IconButton onClick={() => handleRemoveLine(line.key)} aria-label="Remove line">
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Qty"
+                  value={line.quantity}
+                  onChange={(e) => handleLineChange(line.key, 'quantity', e.target.value)}
+                  inputProps={{ min: 1, step: 1 }}
+                  sx={{ width: { sm: 90 } }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Base Price"
+                  value={line.base_price}
+                  onChange={(e) => handleLineChange(line.key, 'base_price', e.target.value)}
+                  inputProps={{ min: 0, step: '0.01' }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Mirror Surcharge"
+                  value={line.mirror_surcharge}
+                  onChange={(e) => handleLineChange(line.key, 'mirror_surcharge', e.target.value)}
+                  inputProps={{ min: 0, step: '0.01' }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Fabric Surcharge"
+                  value={line.fabric_surcharge}
+                  onChange={(e) => handleLineChange(line.key, 'fabric_surcharge', e.target.value)}
+                  inputProps={{ min: 0, step: '0.01' }}
+                />
+                <Typography variant="body2" sx={{ minWidth: 90, textAlign: 'right', fontWeight: 600 }}>
+                  ${getLineTotal(lineInputs[index]).toFixed(2)}
+                </Typography>
+              </Stack>
+            </Box>
+          ))}
+        </Stack>
+        <Button startIcon={<AddIcon />} onClick={handleAddLine} sx={{ mb: 2 }}>
+          Add Line
+        </Button>
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2 }}>
+          <TextField
+            type="number"
+            label="Shipping"
+            value={shippingAmount}
+            onChange={(e) => setShippingAmount(e.target.value)}
+            inputProps={{ min: 0, step: '0.01' }}
+          />
+          <TextField
+            type="number"
+            label="Tax"
+            value={taxAmount}
+            onChange={(e) => setTaxAmount(e.target.value)}
+            inputProps={{ min: 0, step: '0.01' }}
+          />
+          <TextField
+            type="number"
+            label="Discount"
+            value={discountAmount}
+            onChange={(e) => setDiscountAmount(e.target.value)}
+            inputProps={{ min: 0, step: '0.01' }}
+          />
+          <TextField
+            type="number"
+            label="Deposit %"
+            value={depositPercent}
+            onChange={(e) => setDepositPercent(e.target.value)}
+            inputProps={{ min: 0, max: 99, step: 1 }}
+            helperText="0 requires payment in full"
+          />
+        </Stack>
+
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label="Notes for the customer (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          type="date"
+          label="Expires on"
+          value={expiryDate}
+          onChange={(e) => setExpiryDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: toDateInputValue(new Date()) }}
+          helperText="The customer must accept the quote by this date"
+          sx={{ mb: 2 }}
+        />
+
+        <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
+          <Typography variant="body2">Subtotal: ${totals.subtotal.toFixed(2)}</Typography>
+          <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+            Total: ${totals.total.toFixed(2)}
+          </Typography>
+          {depositAmount > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Deposit to start fabrication: ${depositAmount.toFixed(2)} • Balance before shipping: ${(totals.total - depositAmount).toFixed(2)}
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={!!saving}>Cancel</Button>
+        <Button onClick={() => handleSave(false)} variant="outlined" disabled={!!saving}>
+          {saving === 'draft' ? 'Saving...' : 'Save Draft'}
+        </Button>
+        <Button onClick={() => handleSave(true)} variant="contained" disabled={!!saving}>
+          {saving === 'send' ? 'Sending...' : 'Send Quote'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  Alert,
+  Stack,
+} from '@mui/material'
+import { ReceiptLong } from '@mui/icons-material'
+import { Quote, QuoteStatus } from '@/types/quote'
+import { quoteService } from '@/services/quoteService'
+import { getDepositAmount, getEffectiveQuoteStatus, getLineUnitPrice } from '@/lib/quote'
+
+interface QuoteSummaryProps {
+  quote: Quote
+  canRespond: boolean
+  onUpdated: (quote: Quote) => void
+}
+
+const formatCurrency = (value: number) => `$${Number(value).toFixed(2)}`
+
+const getStatusChip = (status: QuoteStatus) => {
+  switch (status) {
+    case 'DRAFT':
+      return <Chip label="Draft" size="small" />
+    case 'SENT':
+      return <Chip label="Awaiting approval" color="warning" size="small" />
+    case 'ACCEPTED':
+      return <Chip label="Accepted" color="success" size="small" />
+    case 'REJECTED':
+      return <Chip label="Rejected" color="error" size="small" />
+    case 'EXPIRED':
+      return <Chip label="Expired" size="small" />
+  }
+}
+
+export default function QuoteSummary({ quote, canRespond, onUpdated }: QuoteSummaryProps) {
+  const [responding, setResponding] = useState<null | 'accept' | 'reject'>(null)
+  const [showRejectReason, setShowRejectReason] = useState(false)
+  const [rejectReason, setRejectReason] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const status = getEffectiveQuoteStatus(quote)
+
+  const handleRespond = async (action: 'accept' | 'reject') => {
+    if (responding) return
+    try {
+      setResponding(action)
+      setError(null)
+      const updatedQuote = action === 'accept'
+        ? await quoteService.acceptQuote(quote.id)
+        : await quoteService.rejectQuote(quote.id, rejectReason.trim() || undefined)
+      setShowRejectReason(false)
+      setRejectReason('')
+      onUpdated({ ...quote, ...updatedQuote, line_items: quote.line_items })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} quote`)
+    } finally {
+      setResponding(null)
+    }
+  }
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <ReceiptLong />
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            Quote
+          </Typography>
+          {getStatusChip(status)}
+        </Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Quote #{quote.id} • {new Date(quote.sent_at || quote.created_at).toLocaleDateString()}
+          {quote.expires_at && (status === 'SENT' || status === 'EXPIRED') && (
+            <> • {status === 'EXPIRED' ? 'Expired' : 'Valid until'} {new Date(quote.expires_at).toLocaleDateString()}</>
+          )}
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell align="right">Unit Price</TableCell>
+                <TableCell align="right">Qty</TableCell>
+                <TableCell align="right">Total</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {quote.line_items.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <Typography variant="body2">{line.description}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Base {formatCurrency(line.base_price)}
+                      {line.mirror_surcharge > 0 && ` + mirror ${formatCurrency(line.mirror_surcharge)}`}
+                      {line.fabric_surcharge > 0 && ` + fabric ${formatCurrency(line.fabric_surcharge)}`}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(getLineUnitPrice(line))}</TableCell>
+                  <TableCell align="right">{line.quantity}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.line_total)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3}>Subtotal</TableCell>
+                <TableCell align="right">{formatCurrency(quote.subtotal)}</TableCell>
+              </TableRow>
+              {quote.shipping_amount > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>Shipping</TableCell>
+                  <TableCell align="right">{formatCurrency(quote.shipping_amount)}</TableCell>
+                </TableRow>
+              )}
+              {quote.tax_amount > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>Tax</TableCell>
+                  <TableCell align="right">{formatCurrency(quote.tax_amount)}</TableCell>
+                </TableRow>
+              )}
+              {quote.discount_amount > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>Discount</TableCell>
+                  <TableCell align="right">-{formatCurrency(quote.discount_amount)}</TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell colSpan={3} sx={{ fontWeight: 'bold' }}>Total</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatCurrency(quote.total)}</TableCell>
+              </TableRow>
+              {quote.deposit_percent > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>
+                    Deposit ({Number(quote.deposit_percent)}%) to start fabrication, balance due before shipping
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(getDepositAmount(quote))}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Box>
+
+        {quote.notes && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, whiteSpace: 'pre-wrap' }}>
+            {quote.notes}
+          </Typography>
+        )}
+
+        {status === 'ACCEPTED' && quote.accepted_at && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            Accepted on {new Date(quote.accepted_at).toLocaleString()}
+          </Typography>
+        )}
+
+        {status === 'REJECTED' && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            Rejected{quote.rejected_at && ` on ${new Date(quote.rejected_at).toLocaleString()}`}
+            {quote.rejection_reason && `: ${quote.rejection_reason}`}
+          </Typography>
+        )}
+
+        {status === 'EXPIRED' && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            This quote has expired. Message us in the order chat for an updated quote.
+          </Alert>
+        )}
+
+        {status === 'SENT' && canRespond && (
+          <Box sx={{ mt: 2 }}>
+            {showRejectReason && (
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Reason for rejecting (optional)"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                disabled={!!responding}
+                sx={{ mb: 2 }}
+              />
+            )}
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              {showRejectReason ? (
+                <>
+                  <Button
+                    variant="outlined"
+                    fullWidth
+                    onClick={() => setShowRejectReason(false)}
+                    disabled={!!responding}
+                  >
+                    Back
+                  </Button>
+                  <Button
+                    variant="contained"
+                    color="error"
+                    fullWidth
+                    onClick={() => handleRespond('reject')}
+                    disabled={!!responding}
+                  >
+                    {responding === 'reject' ? 'Rejecting...' : 'Confirm Rejection'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    fullWidth
+                    onClick={() => setShowRejectReason(true)}
+                    disabled={!!responding}
+                  >
+                    Reject Quote
+                  </Button>
+                  <Button
+                    variant="contained"
+                    color="success"
+                    fullWidth
+                    onClick={() => handleRespond('accept')}
+                    disabled={!!responding}
+                  >
+                    {responding === 'accept' ? 'Accepting...' : 'Accept Quote'}
+                  </Button>
+                </>
+              )}
+            </Stack>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { SampleRequest, SampleRequestStatus } from '@/types/sampleRequest'
+import { SAMPLE_REQUEST_STATUS_LABELS, getAllowedNextSampleStatuses } from '@/lib/sampleRequests'
+import { getCarrierName, getCarriers, getTrackingUrl } from '@/lib/carriers'
+import { formatAddressLine } from '@/lib/addresses'
+
+interface SampleRequestCardProps {
+  sampleRequest: SampleRequest
+  onPay?: (sampleRequest: SampleRequest) => void // The customer's own unpaid requests
+  // Admins only; tracking is entered when the samples are sent
+  onStatusChange?: (
+    sampleRequest: SampleRequest,
+    status: SampleRequestStatus,
+    tracking?: { carrier: string; tracking_number: string }
+  ) => Promise<void>
+}
+
+const STATUS_ACTIONS: Record<SampleRequestStatus, string> = {
+  UNPAID: 'Mark Unpaid',
+  REQUESTED: 'Waive Fee',
+  SENT: 'Mark Sent',
+  DELIVERED: 'Mark Delivered',
+  CANCELLED: 'Cancel',
+}
+
+const getStatusColor = (status: SampleRequestStatus) => {
+  switch (status) {
+    case 'UNPAID':
+      return 'error'
+    case 'REQUESTED':
+      return 'warning'
+    case 'SENT':
+      return 'primary'
+    case 'DELIVERED':
+      return 'success'
+    default:
+      return 'default'
+  }
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+// A sample request in the orders list. Admins move it along from here.
+export default function SampleRequestCard({ sampleRequest, onPay, onStatusChange }: SampleRequestCardProps) {
+  const [shipDialogOpen, setShipDialogOpen] = useState(false)
+  const [carrier, setCarrier] = useState('usps')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [updating, setUpdating] = useState(false)
+
+  const trackingUrl = sampleRequest.carrier && sampleRequest.tracking_number
+    ? getTrackingUrl(sampleRequest.carrier, sampleRequest.tracking_number)
+    : null
+  const nextStatuses = onStatusChange ? getAllowedNextSampleStatuses(sampleRequest.status) : []
+
+  const changeStatus = async (status: SampleRequestStatus, tracking?: { carrier: string; tracking_number: string }) => {
+    if (!onStatusChange) return
+    try {
+      setUpdating(true)
+      await onStatusChange(sampleRequest, status, tracking)
+      setShipDialogOpen(false)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  return (
+    <Card
+      sx={{
+        width: '100%',
+        mb: 2,
+        borderRadius: 2,
+        boxShadow: 1,
+        border: 1,
+        borderColor: 'grey.300',
+      }}
+    >
+      <CardContent>
+        <Typography variant="h6" component="h2" gutterBottom sx={{ fontWeight: 'bold' }}>
+          Fabric Samples
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Samples #{sampleRequest.id}
+          </Typography>
+          <Chip
+            label={SAMPLE_REQUEST_STATUS_LABELS[sampleRequest.status]}
+            color={getStatusColor(sampleRequest.status) as any}
+            size="small"
+          />
+          {sampleRequest.fee > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              {sampleRequest.paid_at
+                ? `Paid $${Number(sampleRequest.amount_paid).toFixed(2)}`
+                : `Fee $${Number(sampleRequest.fee).toFixed(2)}`}
+            </Typography>
+          )}
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {sampleRequest.colors.join(', ')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          To: {sampleRequest.name}, {formatAddressLine(sampleRequest)}
+        </Typography>
+        {sampleRequest.tracking_number && (
+          <Typography variant="body2" color="text.secondary">
+            {getCarrierName(sampleRequest.carrier || '')}:{' '}
+            {trackingUrl ? (
+              <Link href={trackingUrl} target="_blank" rel="noopener noreferrer">
+                {sampleRequest.tracking_number}
+              </Link>
+            ) : sampleRequest.tracking_number}
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'space-between', gap: 1, mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Requested: {formatDate(sampleRequest.created_at)}
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {onPay && sampleRequest.status === 'UNPAID' && (
+              <Button size="small" variant="contained" onClick={() => onPay(sampleRequest)}>
+                Pay ${Number(sampleRequest.fee).toFixed(2)}
+              </Button>
+            )}
+            {nextStatuses.map(status => (
+              <Button
+                key={status}
+                size="small"
+                color={status === 'CANCELLED' ? 'error' : 'primary'}
+                disabled={updating}
+                onClick={() => status === 'SENT' ? setShipDialogOpen(true) : changeStatus(status)}
+              >
+                {STATUS_ACTIONS[status]}
+              </Button>
+            ))}
+          </Box>
+        </Box>
+      </CardContent>
+
+      <Dialog open={shipDialogOpen} onClose={updating ? undefined : () => setShipDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Samples Sent</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField select label="Carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)}>
+              {getCarriers().map(option => (
+                <MenuItem key={option.code} value={option.code}>{option.name}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Tracking Number (optional)"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShipDialogOpen(false)} disabled={updating}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={updating}
+            onClick={() => changeStatus('SENT', { carrier, tracking_number: trackingNumber })}
+          >
+            Mark Sent
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  )
+}
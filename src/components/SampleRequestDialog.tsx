@@ -0,0 +1,196 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useAuth } from '@/contexts/AuthContext'
+import { Color } from '@/types/color'
+import { NewOrderFormData } from '@/types/order'
+import { SavedAddress } from '@/types/address'
+import { SampleRequest } from '@/types/sampleRequest'
+import { addressService } from '@/services/addressService'
+import { sampleRequestService } from '@/services/sampleRequestService'
+import { formatAddressLine, toShippingAddress } from '@/lib/addresses'
+import { SAMPLE_COLOR_LIMIT, getSampleRequestFee } from '@/lib/sampleRequests'
+import ColorSwatch from '@/components/ColorSwatch'
+
+interface SampleRequestDialogProps {
+  open: boolean
+  colors: Color[] // Colors still offered
+  initialColors: string[] // The colors assigned in the wizard so far
+  shippingAddress: NewOrderFormData['shippingAddress'] // The wizard's, used when it is filled in
+  onClose: () => void
+  onRequested: (sampleRequest: SampleRequest) => void
+  onBeforeCheckout?: () => Promise<void> // e.g. save the order in progress before leaving for Stripe
+}
+
+const WIZARD_ADDRESS = 'order'
+
+// Pick up to SAMPLE_COLOR_LIMIT colors and an address to mail swatches to. With a sample fee set the
+// customer goes on to Stripe Checkout once the request is created.
+export default function SampleRequestDialog({
+  open,
+  colors,
+  initialColors,
+  shippingAddress,
+  onClose,
+  onRequested,
+  onBeforeCheckout,
+}: SampleRequestDialogProps) {
+  const { user } = useAuth()
+  const [selected, setSelected] = useState<string[]>([])
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([])
+  const [addressChoice, setAddressChoice] = useState('')
+  const [loadingAddresses, setLoadingAddresses] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fee = getSampleRequestFee()
+  const hasWizardAddress = Boolean(shippingAddress.name.trim() && shippingAddress.address.trim())
+
+  // Start from the wizard's colors each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setError(null)
+    setSelected(initialColors.filter(name => colors.some(color => color.name === name)).slice(0, SAMPLE_COLOR_LIMIT))
+  }, [open])
+
+  useEffect(() => {
+    if (!open || !user) return
+    setLoadingAddresses(true)
+    addressService.getAddresses(user.id)
+      .then(addresses => {
+        setSavedAddresses(addresses)
+        setAddressChoice(hasWizardAddress ? WIZARD_ADDRESS : addresses[0] ? String(addresses[0].id) : '')
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load addresses'))
+      .finally(() => setLoadingAddresses(false))
+  }, [open, user, hasWizardAddress])
+
+  const toggleColor = (name: string) => {
+    setSelected(prev => prev.includes(name)
+      ? prev.filter(color => color !== name)
+      : prev.length < SAMPLE_COLOR_LIMIT ? [...prev, name] : prev)
+  }
+
+  const getAddress = () => {
+    if (addressChoice === WIZARD_ADDRESS) return shippingAddress
+    const saved = savedAddresses.find(address => String(address.id) === addressChoice)
+    return saved ? toShippingAddress(saved, shippingAddress) : null
+  }
+
+  const handleSubmit = async () => {
+    const address = getAddress()
+    if (!address || selected.length === 0) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      const sampleRequest = await sampleRequestService.requestSamples(selected, address)
+      if (sampleRequest.status === 'UNPAID') {
+        await onBeforeCheckout?.()
+        await sampleRequestService.payForSamples(sampleRequest.id)
+        return
+      }
+      onRequested(sampleRequest)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request samples')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Request Samples</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          We will mail you a swatch of each color you pick, up to {SAMPLE_COLOR_LIMIT}.
+          {fee > 0 ? ` Samples cost $${fee.toFixed(2)}, paid by card on the next step.` : ' Samples are free.'}
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Colors ({selected.length}/{SAMPLE_COLOR_LIMIT})
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 3 }}>
+          {colors.map(color => {
+            const isSelected = selected.includes(color.name)
+            return (
+              <Chip
+                key={color.name}
+                label={color.name}
+                icon={<Box sx={{ display: 'flex', ml: 0.5 }}><ColorSwatch color={color} size={16} /></Box>}
+                color={isSelected ? 'primary' : 'default'}
+                variant={isSelected ? 'filled' : 'outlined'}
+                onClick={() => toggleColor(color.name)}
+                disabled={!isSelected && selected.length >= SAMPLE_COLOR_LIMIT}
+              />
+            )
+          })}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Send To
+        </Typography>
+        {loadingAddresses ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : !hasWizardAddress && savedAddresses.length === 0 ? (
+          <Alert severity="info">
+            Add an address to your address book, or fill in Shipping Information later in this order, to request samples.
+          </Alert>
+        ) : (
+          <TextField
+            select
+            fullWidth
+            size="small"
+            value={addressChoice}
+            onChange={(e) => setAddressChoice(e.target.value)}
+          >
+            {hasWizardAddress && (
+              <MenuItem value={WIZARD_ADDRESS}>
+                {`This order's shipping address: ${shippingAddress.name}, ${formatAddressLine(shippingAddress)}`}
+              </MenuItem>
+            )}
+            {savedAddresses.map(address => (
+              <MenuItem key={address.id} value={String(address.id)}>
+                {`${address.label}: ${address.name}, ${formatAddressLine(address)}`}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || selected.length === 0 || !getAddress()}
+          startIcon={submitting ? <CircularProgress size={16} /> : undefined}
+        >
+          {fee > 0 ? `Request & Pay $${fee.toFixed(2)}` : 'Request Samples'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Divider,
+  Chip,
+  Link,
+  Stack,
+} from '@mui/material'
+import { LocalShipping, OpenInNew } from '@mui/icons-material'
+import { shipmentService } from '@/services/shipmentService'
+import { Shipment, TrackingStatus } from '@/types/shipment'
+import { getCarrierName, getTrackingUrl, getTrackingStatusLabel } from '@/lib/carriers'
+
+interface ShipmentTrackingProps {
+  orderId: number
+  refreshKey?: string // Reload when this changes, e.g. the order's updated_at
+}
+
+const getTrackingStatusColor = (status: TrackingStatus) => {
+  switch (status) {
+    case 'delivered':
+      return 'success'
+    case 'out_for_delivery':
+      return 'info'
+    case 'in_transit':
+      return 'primary'
+    case 'exception':
+      return 'error'
+    default:
+      return 'default'
+  }
+}
+
+// Tracking links and the latest carrier status for an order's shipments; renders nothing until the
+// order has shipped
+export default function ShipmentTracking({ orderId, refreshKey }: ShipmentTrackingProps) {
+  const [shipments, setShipments] = useState<Shipment[]>([])
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadShipments = async () => {
+      try {
+        const data = await shipmentService.getShipments(orderId)
+        if (isMounted) {
+          setShipments(data)
+        }
+      } catch (err) {
+        console.error('Failed to load shipments:', err)
+      }
+    }
+
+    if (orderId) {
+      loadShipments()
+    }
+
+    return () => {
+      isMounted = false
+    }
+  }, [orderId, refreshKey])
+
+  if (shipments.length === 0) {
+    return null
+  }
+
+  return (
+    <Card sx={{ mt: 2 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <LocalShipping />
+          Shipment Tracking
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+        <Stack spacing={2} divider={<Divider flexItem />}>
+          {shipments.map((shipment) => {
+            const trackingUrl = getTrackingUrl(shipment.carrier, shipment.tracking_number)
+            return (
+              <Box key={shipment.id}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                    {getCarrierName(shipment.carrier)}
+                  </Typography>
+                  <Chip
+                    label={getTrackingStatusLabel(shipment.tracking_status)}
+                    color={getTrackingStatusColor(shipment.tracking_status) as any}
+                    size="small"
+                  />
+                </Box>
+                <Typography variant="body2">
+                  Tracking number:{' '}
+                  {trackingUrl ? (
+                    <Link href={trackingUrl} target="_blank" rel="noopener noreferrer" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+                      {shipment.tracking_number}
+                      <OpenInNew fontSize="inherit" />
+                    </Link>
+                  ) : (
+                    shipment.tracking_number
+                  )}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Shipped {new Date(`${shipment.ship_date}T00:00:00`).toLocaleDateString()}
+                  {' • '}
+                  {shipment.package_count} package{shipment.package_count === 1 ? '' : 's'}
+                  {shipment.weight_lbs ? ` • ${Number(shipment.weight_lbs)} lbs` : ''}
+                </Typography>
+                {shipment.delivered_at ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Delivered {new Date(shipment.delivered_at).toLocaleString()}
+                  </Typography>
+                ) : shipment.tracking_status_detail && (
+                  <Typography variant="body2" color="text.secondary">
+                    {shipment.tracking_status_detail}
+                  </Typography>
+                )}
+              </Box>
+            )
+          })}
+        </Stack>
+      </CardContent>
+    </Card>
+  )
+}
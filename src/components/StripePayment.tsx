@@ -12,24 +12,32 @@ import {
   DialogContent,
   IconButton,
   Stack,
-  Divider
+  Divider,
+  RadioGroup,
+  FormControlLabel,
+  Radio
 } from '@mui/material'
 import { Close, Payment, Lock, Security, CheckCircle } from '@mui/icons-material'
-import { PaymentService } from '../services/paymentService'
+import { PaymentOption, PaymentService } from '../services/paymentService'
 import { useAuth } from '../contexts/AuthContext'
 
 interface StripePaymentProps {
   orderId: number
   amount: number
+  // Offered as an alternative to paying the full amount when the quote allows a deposit
+  depositAmount?: number
   onSuccess: () => void
   onError: (message: string) => void
   onClose: () => void
 }
 
-export default function StripePayment({ orderId, amount, onSuccess, onError, onClose }: StripePaymentProps) {
+export default function StripePayment({ orderId, amount, depositAmount, onSuccess, onError, onClose }: StripePaymentProps) {
   const { user } = useAuth()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [paymentOption, setPaymentOption] = useState<PaymentOption>(depositAmount ? 'deposit' : 'full')
+
+  const chargeAmount = paymentOption === 'deposit' && depositAmount ? depositAmount : amount
 
   const handleCheckout = async () => {
     setLoading(true)
@@ -41,6 +49,7 @@ export default function StripePayment({ orderId, amount, onSuccess, onError, onC
       // Create checkout session using PaymentService
       const checkoutSession = await PaymentService.createCheckoutSession({
         orderId,
+        paymentOption,
         successUrl: `${window.location.origin}/payment/success?order_id=${orderId}`,
         cancelUrl: `${window.location.origin}/orders/${orderId}?canceled=true`,
       })
@@ -106,6 +115,26 @@ export default function StripePayment({ orderId, amount, onSuccess, onError, onC
                 ${amount.toFixed(2)}
               </Typography>
             </Box>
+            {depositAmount ? (
+              <RadioGroup
+                value={paymentOption}
+                onChange={(e) => setPaymentOption(e.target.value as PaymentOption)}
+                sx={{ mt: 2 }}
+              >
+                <FormControlLabel
+                  value="deposit"
+                  control={<Radio />}
+                  disabled={loading}
+                  label={`Pay deposit of $${depositAmount.toFixed(2)} now, balance of $${(amount - depositAmount).toFixed(2)} before shipping`}
+                />
+                <FormControlLabel
+                  value="full"
+                  control={<Radio />}
+                  disabled={loading}
+                  label={`Pay in full ($${amount.toFixed(2)})`}
+                />
+              </RadioGroup>
+            ) : null}
             <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
               Order #{orderId}
             </Typography>
@@ -181,7 +210,7 @@ export default function StripePayment({ orderId, amount, onSuccess, onError, onC
                 fontWeight: 'bold'
               }}
             >
-              {loading ? 'Processing...' : `Pay $${amount.toFixed(2)}`}
+              {loading ? 'Processing...' : `Pay $${chargeAmount.toFixed(2)}`}
             </Button>
           </Box>
         </Stack>
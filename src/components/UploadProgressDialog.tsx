@@ -55,10 +55,21 @@ export default function UploadProgressDialog({
     }
   }
 
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    return `${Math.round(bytes / 1024)} KB`
+  }
+
   const completedCount = progress.filter(p => p.status === 'completed').length
   const errorCount = progress.filter(p => p.status === 'error').length
   const totalCount = progress.length
 
+  // Weighted by size, so a large video counts for more than a photo
+  const totalBytes = progress.reduce((sum, p) => sum + (p.totalBytes ?? 0), 0)
+  const uploadedBytes = progress.reduce((sum, p) => sum + (p.bytesUploaded ?? 0), 0)
+  const overallProgress = totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : (completedCount / totalCount) * 100
+
   return (
     <Dialog open={open} maxWidth="sm" fullWidth>
       <DialogContent sx={{ p: 3 }}>
@@ -78,7 +89,7 @@ export default function UploadProgressDialog({
           </Box>
           <LinearProgress 
             variant="determinate" 
-            value={(completedCount / totalCount) * 100}
+            value={overallProgress}
             sx={{ height: 8, borderRadius: 4 }}
           />
         </Box>
@@ -101,10 +112,18 @@ export default function UploadProgressDialog({
               </Box>
               
               {file.status === 'uploading' && (
-                <LinearProgress 
-                  variant="indeterminate" 
-                  sx={{ height: 4, borderRadius: 2 }}
-                />
+                <>
+                  <LinearProgress 
+                    variant="determinate" 
+                    value={file.progress ?? 0}
+                    sx={{ height: 4, borderRadius: 2 }}
+                  />
+                  {file.totalBytes !== undefined && (
+                    <Typography variant="caption" color="text.secondary">
+                      {formatBytes(file.bytesUploaded ?? 0)} of {formatBytes(file.totalBytes)} ({file.progress ?? 0}%)
+                    </Typography>
+                  )}
+                </>
               )}
               
               {file.status === 'completed' && (
@@ -131,7 +150,7 @@ export default function UploadProgressDialog({
         {errorCount > 0 && (
           <Alert severity="warning" sx={{ mt: 2 }}>
             <Typography variant="body2">
-              {errorCount} file(s) failed to upload. Please try again.
+              {errorCount} file(s) failed to upload. Uploaded data is kept, so trying again resumes where it stopped.
             </Typography>
           </Alert>
         )}
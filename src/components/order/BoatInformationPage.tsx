@@ -1,13 +1,19 @@
 'use client'
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import {
   Box,
   Typography,
   TextField,
   Paper,
+  MenuItem,
+  Alert,
 } from '@mui/material'
 import { NewOrderFormData } from '@/types/order'
+import { Boat } from '@/types/boat'
+import { boatService } from '@/services/boatService'
+import { useAuth } from '@/contexts/AuthContext'
+import { checkHin, describeHin } from '@/lib/hin'
 
 interface BoatInformationPageProps {
   formData: NewOrderFormData
@@ -20,16 +26,78 @@ export default function BoatInformationPage({
   setFormData,
   showPrompt,
 }: BoatInformationPageProps) {
-  const handleBoatInfoChange = (field: keyof NewOrderFormData['boatInformation'], value: string) => {
+  const { user } = useAuth()
+  const [boats, setBoats] = useState<Boat[]>([])
+
+  useEffect(() => {
+    if (!user) return
+    boatService.getBoats(user.id)
+      .then(setBoats)
+      .catch(error => console.error('Failed to load saved boats:', error))
+  }, [user])
+
+  // Editing a field means the order is no longer for the saved boat exactly as it was picked
+  const handleBoatInfoChange = (field: Exclude<keyof NewOrderFormData['boatInformation'], 'boatId'>, value: string) => {
     setFormData(prev => ({
       ...prev,
       boatInformation: {
         ...prev.boatInformation,
+        boatId: undefined,
         [field]: value,
       },
     }))
   }
 
+  const handleSavedBoatSelect = (boatId: string) => {
+    const boat = boats.find(b => b.id === Number(boatId))
+    if (!boat) {
+      setFormData(prev => ({
+        ...prev,
+        boatInformation: { ...prev.boatInformation, boatId: undefined },
+      }))
+      return
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      boatInformation: {
+        boatId: boat.id,
+        make: boat.make,
+        model: boat.model,
+        year: boat.year?.toString() || '',
+        length: boat.length?.toString() || '',
+        boatHin: boat.hin || '',
+      },
+    }))
+  }
+
+  const hinCheck = checkHin(formData.boatInformation.boatHin, {
+    year: formData.boatInformation.year,
+    make: formData.boatInformation.make,
+  })
+
+  // Store the HIN in its canonical form once it decodes, so saved boats match on it
+  const handleHinBlur = () => {
+    if (hinCheck.decoded && hinCheck.decoded.hin !== formData.boatInformation.boatHin) {
+      handleBoatInfoChange('boatHin', hinCheck.decoded.hin)
+    }
+  }
+
+  const getHinHelperText = () => {
+    if (hinCheck.errors.length > 0) {
+      return hinCheck.errors[0]
+    }
+    if (hinCheck.decoded) {
+      return describeHin(hinCheck.decoded)
+    }
+    return 'Located on the transom or inside the hull. Boats are saved to My Boats by their HIN when you order.'
+  }
+
+  const getBoatLabel = (boat: Boat) => {
+    const description = [boat.year, boat.make, boat.model].filter(Boolean).join(' ')
+    return boat.name ? `${boat.name} (${description})` : description
+  }
+
   const handleYearChange = (value: string) => {
     // Only allow 4-digit numbers
     const numericValue = value.replace(/\D/g, '').slice(0, 4)
@@ -52,6 +120,32 @@ export default function BoatInformationPage({
         <Typography variant="h6" gutterBottom>
           Boat Information
         </Typography>
+
+        {boats.length > 0 && (
+          <TextField
+            select
+            fullWidth
+            label="Saved Boat"
+            value={formData.boatInformation.boatId?.toString() ?? ''}
+            onChange={(e) => handleSavedBoatSelect(e.target.value)}
+            sx={{ mb: 2 }}
+            helperText="Pick one of your boats to fill in its details"
+          >
+            <MenuItem value="">
+              <em>Enter a different boat</em>
+            </MenuItem>
+            {boats.map((boat) => (
+              <MenuItem key={boat.id} value={boat.id.toString()}>
+                {getBoatLabel(boat)}
+                {boat.hin && (
+                  <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                    HIN {boat.hin}
+                  </Typography>
+                )}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
         
         <TextField
           fullWidth
@@ -110,12 +204,25 @@ export default function BoatInformationPage({
           label="HIN (Hull Identification Number)"
           value={formData.boatInformation.boatHin}
           onChange={(e) => handleBoatInfoChange('boatHin', e.target.value)}
+          onBlur={handleHinBlur}
           required
-          placeholder="Enter Hull Identification Number"
+          placeholder="e.g., ABC12345D405"
           sx={{ mb: 2 }}
-          helperText="Located on the transom or inside the hull"
+          error={hinCheck.errors.length > 0}
+          helperText={getHinHelperText()}
         />
 
+        {hinCheck.errors.slice(1).map((message) => (
+          <Alert key={message} severity="error" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        ))}
+        {hinCheck.warnings.map((message) => (
+          <Alert key={message} severity="warning" sx={{ mb: 2 }}>
+            {message}. Please double-check the HIN and boat details; we pick the patterns for your boat from them.
+          </Alert>
+        ))}
+
         <Box sx={{ mt: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
           <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1.5 }}>
             Boat Information Summary
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import {
   Box,
   Typography,
@@ -8,105 +8,109 @@ import {
   Chip,
   Button,
   Alert,
-  IconButton,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material'
-import {
-  CloudUpload as UploadIcon,
-  Close as CloseIcon,
-} from '@mui/icons-material'
-import { NewOrderFormData, VideoFile } from '@/types/order'
-import { COLORS, Color } from '@/types/color'
-import LocalMediaPreview from '@/components/LocalMediaPreview'
+import { CushionMaterial, NewOrderFormData } from '@/types/order'
+import { Color } from '@/types/color'
+import { colorService } from '@/services/colorService'
+import ColorSwatch from '@/components/ColorSwatch'
+import CushionMaterialFields from '@/components/CushionMaterialFields'
+import CushionPreview from '@/components/CushionPreview'
+import SampleRequestDialog from '@/components/SampleRequestDialog'
+import { COLOR_PANELS, ColorPanel, emptyMaterial, getOrderColors } from '@/lib/materials'
 
 interface ColorPickerPageProps {
   formData: NewOrderFormData
   setFormData: React.Dispatch<React.SetStateAction<NewOrderFormData>>
   showPrompt: (title: string, message: string, severity?: 'error' | 'warning' | 'info' | 'success') => void
+  saveDraft?: () => Promise<void> // Before leaving the wizard to pay for samples
 }
 
 export default function ColorPickerPage({
   formData,
   setFormData,
   showPrompt,
+  saveDraft,
 }: ColorPickerPageProps) {
-  const [mediaPreview, setMediaPreview] = useState<{
-    open: boolean
-    media: { url: string; type: 'image' | 'video'; name?: string } | null
-  }>({ open: false, media: null })
-
-  // Handle color selection
-  const handleColorClick = (color: Color) => {
-    if (formData.selectedColors.includes(color.name)) {
-      // Remove color
-      setFormData(prev => ({
-        ...prev,
-        selectedColors: prev.selectedColors.filter(c => c !== color.name),
-        cushions: prev.cushions.map(cushion => ({
-          ...cushion,
-          colorPhotos: cushion.colorPhotos?.filter(photo => photo.name !== color.name) || []
-        }))
-      }))
-    } else {
-      // Add color
-      setFormData(prev => ({
-        ...prev,
-        selectedColors: [...prev.selectedColors, color.name],
-      }))
-    }
-  }
+  // The whole catalog, so colors discontinued since a reordered order was placed can be pointed out
+  const [catalog, setCatalog] = useState<Color[]>([])
+  const [catalogLoading, setCatalogLoading] = useState(true)
+  const [catalogError, setCatalogError] = useState<string | null>(null)
+  // Where a color clicked in the palette goes
+  const [activeCushionId, setActiveCushionId] = useState(formData.cushions[0]?.id ?? '')
+  const [activePanel, setActivePanel] = useState<ColorPanel>('color')
+  const [sampleDialogOpen, setSampleDialogOpen] = useState(false)
 
-  // Handle file upload for a specific color
-  const handleFileUpload = (colorName: string, event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+  useEffect(() => {
+    colorService.getColors(true)
+      .then(setCatalog)
+      .catch(err => setCatalogError(err instanceof Error ? err.message : 'Failed to load colors'))
+      .finally(() => setCatalogLoading(false))
+  }, [])
 
-    if (!file.type.startsWith('image/')) {
-      showPrompt('Invalid File Type', 'Please select an image file (JPG, PNG, etc.).', 'error')
-      return
-    }
+  const availableColors = catalog.filter(color => color.is_active)
+  // Grouped by fabric line, in catalog order; colors without a line come first
+  const fabricLines = Array.from(new Set(availableColors.map(color => color.fabric_line || '')))
+    .sort((a, b) => (a === '' ? -1 : b === '' ? 1 : 0))
+  const orderColors = getOrderColors(formData.cushions)
+  const discontinuedColors = orderColors.filter(name => {
+    const color = catalog.find(c => c.name === name)
+    return !catalogLoading && (!color || !color.is_active)
+  })
 
-    const photoFile: VideoFile = {
-      id: Math.random().toString(36).substr(2, 9),
-      file,
-      name: colorName,
-      size: file.size,
-      type: file.type,
-    }
+  const activeCushion = formData.cushions.find(cushion => cushion.id === activeCushionId) ?? formData.cushions[0]
+  const activeColor = activeCushion?.material?.[activePanel] ?? null
 
+  const setMaterial = (cushionId: string, material: CushionMaterial) => {
     setFormData(prev => ({
       ...prev,
-      cushions: prev.cushions.map(cushion => ({
-        ...cushion,
-        colorPhotos: [
-          ...(cushion.colorPhotos?.filter(photo => photo.name !== colorName) || []),
-          photoFile
-        ]
-      }))
+      cushions: prev.cushions.map(cushion =>
+        cushion.id === cushionId ? { ...cushion, material } : cushion
+      ),
     }))
+  }
+
+  // Assign the clicked color to the active panel of the active cushion, or clear it when it is already there
+  const handleColorClick = (color: Color) => {
+    if (!activeCushion) return
+    const material = activeCushion.material ?? emptyMaterial()
 
-    // Reset input
-    event.target.value = ''
+    if (material[activePanel] === color.name) {
+      setMaterial(activeCushion.id, { ...material, [activePanel]: null })
+    } else if (activePanel === 'color') {
+      setMaterial(activeCushion.id, { ...material, color: color.name, fabric_line: color.fabric_line })
+    } else {
+      setMaterial(activeCushion.id, { ...material, [activePanel]: color.name })
+    }
   }
 
-  // Handle file removal
-  const handleRemovePhoto = (colorName: string) => {
+  // Take a color off every cushion it is assigned to
+  const handleRemoveColor = (colorName: string) => {
     setFormData(prev => ({
       ...prev,
-      cushions: prev.cushions.map(cushion => ({
-        ...cushion,
-        colorPhotos: cushion.colorPhotos?.filter(photo => photo.name !== colorName) || []
-      }))
+      cushions: prev.cushions.map(cushion => {
+        if (!cushion.material) return cushion
+        const material = { ...cushion.material }
+        COLOR_PANELS.forEach(({ key }) => {
+          if (material[key] === colorName) material[key] = null
+        })
+        return { ...cushion, material }
+      }),
     }))
   }
 
-  // Get photo for a color
-  const getPhotoForColor = (colorName: string) => {
-    return formData.cushions[0]?.colorPhotos?.find(photo => photo.name === colorName)
+  const copyMaterialToAll = (material: CushionMaterial | undefined) => {
+    setFormData(prev => ({
+      ...prev,
+      cushions: prev.cushions.map(cushion => ({ ...cushion, material })),
+    }))
   }
 
   return (
     <Box>
-      {/* 
+      {/*
         IMPORTANT: This cushion preview image section should NEVER be removed.
         It provides users with a visual reference for their order.
         The image is located at public/images/cushion-preview.jpg
@@ -125,7 +129,7 @@ export default function ColorPickerPage({
       </Box>
 
       <Typography variant="body1" color="text.secondary" sx={{ mb: 2 }}>
-        Select the colors for your order. You can choose from preset colors or add custom colors.
+        Choose the colors for each cushion. Pick a cushion and the part of it to color, then click a color.
       </Typography>
 
       {/* Available Colors */}
@@ -133,201 +137,203 @@ export default function ColorPickerPage({
         <Typography variant="h6" gutterBottom>
           Available Colors
         </Typography>
-        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
-          {COLORS.map((color) => (
-            <Box
-              key={color.name}
-              sx={{
-                display: 'flex',
-                flexDirection: 'column',
-                alignItems: 'center',
-                gap: 1,
-                cursor: 'pointer',
-                '&:hover': { opacity: 0.8 },
-              }}
-              onClick={() => handleColorClick(color)}
-            >
-              <Box
-                sx={{
-                  width: 50,
-                  height: 50,
-                  backgroundColor: color.hex,
-                  border: `3px solid ${formData.selectedColors.includes(color.name) ? '#1976d2' : '#ddd'}`,
-                  borderRadius: 1,
-                  position: 'relative',
-                }}
-              >
-                {formData.selectedColors.includes(color.name) && (
-                  <Box
-                    sx={{
-                      position: 'absolute',
-                      top: -5,
-                      right: -5,
-                      width: 20,
-                      height: 20,
-                      bgcolor: '#1976d2',
-                      borderRadius: '50%',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      color: 'white',
-                      fontSize: '12px',
-                      fontWeight: 'bold',
-                    }}
-                  >
-                    ✓
-                  </Box>
-                )}
-              </Box>
-              <Typography variant="caption" sx={{ textAlign: 'center', fontWeight: 'bold' }}>
-                {color.name}
-              </Typography>
-            </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {formData.cushions.map((cushion) => (
+            <Chip
+              key={cushion.id}
+              label={cushion.name}
+              color={cushion.id === activeCushion?.id ? 'primary' : 'default'}
+              variant={cushion.id === activeCushion?.id ? 'filled' : 'outlined'}
+              icon={cushion.material?.color ? (
+                <Box sx={{ display: 'flex', ml: 0.5 }}>
+                  <ColorSwatch color={catalog.find(c => c.name === cushion.material!.color)} size={16} />
+                </Box>
+              ) : undefined}
+              onClick={() => setActiveCushionId(cushion.id)}
+            />
           ))}
         </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={activePanel}
+            onChange={(_, panel: ColorPanel | null) => panel && setActivePanel(panel)}
+          >
+            {COLOR_PANELS.map(panel => (
+              <ToggleButton key={panel.key} value={panel.key}>
+                {panel.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Typography variant="caption" color="text.secondary">
+            {activePanel === 'side_color'
+              ? 'Leave the sides unset for one color all over.'
+              : activePanel === 'piping_color'
+                ? 'Leave the piping unset for none.'
+                : `Coloring ${activeCushion?.name ?? 'the cushion'}.`}
+          </Typography>
+        </Box>
+        {activeCushion && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2, p: 2, bgcolor: 'grey.50', borderRadius: 2 }}>
+            <CushionPreview
+              shape={activeCushion.shape}
+              material={activeCushion.material}
+              colors={catalog}
+              width={280}
+              title={`${activeCushion.name} preview`}
+            />
+          </Box>
+        )}
+
+        {catalogError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {catalogError}
+          </Alert>
+        )}
+        {catalogLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {fabricLines.map((line) => (
+          <Box key={line || 'none'} sx={{ mb: 2 }}>
+            {line && (
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                {line}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+              {availableColors.filter(color => (color.fabric_line || '') === line).map((color) => (
+                <Box
+                  key={color.name}
+                  sx={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: 1,
+                    cursor: 'pointer',
+                    '&:hover': { opacity: 0.8 },
+                  }}
+                  onClick={() => handleColorClick(color)}
+                >
+                  <ColorSwatch color={color} selected={activeColor === color.name}>
+                    {activeColor === color.name && (
+                      <Box
+                        sx={{
+                          position: 'absolute',
+                          top: -5,
+                          right: -5,
+                          width: 20,
+                          height: 20,
+                          bgcolor: '#1976d2',
+                          borderRadius: '50%',
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          color: 'white',
+                          fontSize: '12px',
+                          fontWeight: 'bold',
+                        }}
+                      >
+                        ✓
+                      </Box>
+                    )}
+                  </ColorSwatch>
+                  <Typography variant="caption" sx={{ textAlign: 'center', fontWeight: 'bold' }}>
+                    {color.name}
+                  </Typography>
+                  {color.surcharge > 0 && (
+                    <Typography variant="caption" color="text.secondary" sx={{ mt: -1 }}>
+                      +${Number(color.surcharge).toFixed(2)}/pc
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        ))}
       </Paper>
 
       {/* Selected Colors */}
       <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
-        <Typography variant="h6" gutterBottom>
-          Selected Colors ({formData.selectedColors.length})
-        </Typography>
-        {formData.selectedColors.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+          <Typography variant="h6" gutterBottom>
+            Selected Colors ({orderColors.length})
+          </Typography>
+          <Button size="small" onClick={() => setSampleDialogOpen(true)} disabled={availableColors.length === 0}>
+            Request Samples
+          </Button>
+        </Box>
+        {orderColors.length === 0 ? (
           <Typography variant="body2" color="text.secondary">
-            No colors selected yet. Choose colors from the presets above.
+            No colors assigned yet. Choose colors for your cushions above.
           </Typography>
         ) : (
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-            {formData.selectedColors.map((color) => (
+            {orderColors.map((color) => (
               <Chip
                 key={color}
                 label={color}
-                onDelete={() => handleColorClick({ name: color, hex: '#000' })}
-                sx={{
-                  backgroundColor: color.startsWith('#') ? color : 'transparent',
-                  color: color.startsWith('#') ? 
-                    (parseInt(color.slice(1), 16) > 0xffffff / 2 ? '#000' : '#fff') : 
-                    'inherit',
-                  border: color.startsWith('#') ? 'none' : `1px solid ${color}`,
-                }}
+                onDelete={() => handleRemoveColor(color)}
               />
             ))}
           </Box>
         )}
+        {discontinuedColors.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {discontinuedColors.join(', ')} {discontinuedColors.length === 1 ? 'is' : 'are'} no longer available.
+            Remove {discontinuedColors.length === 1 ? 'it' : 'them'} and choose from the colors above.
+          </Alert>
+        )}
       </Paper>
 
-      {/* Color Photos Section */}
-      {formData.selectedColors.length >= 2 && (
-        <Paper elevation={2} sx={{ p: 2 }}>
-          <Typography variant="h6" gutterBottom>
-            Color Photos
-          </Typography>
-          
-          <Alert severity="warning" sx={{ mb: 2 }}>
-            <Typography variant="body2">
-              You've selected {formData.selectedColors.length} colors!
-              <br />
-              For each color selected, upload an image of the cushion you'd like to replace. 
-              Add an arrow pointing to the cushion you would like to replace.
-            </Typography>
-          </Alert>
-          
-          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
-            {formData.selectedColors.map((colorName) => {
-              const photo = getPhotoForColor(colorName)
-              
-              return (
-                <Box key={colorName} sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1 }}>
-                  <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                    {colorName}
-                  </Typography>
-                  
-                  {photo ? (
-                    <Box sx={{ position: 'relative' }}>
-                      <img
-                        src={URL.createObjectURL(photo.file)}
-                        alt={`${colorName} cushion`}
-                        style={{
-                          width: 100,
-                          height: 100,
-                          objectFit: 'cover',
-                          borderRadius: 8,
-                          cursor: 'pointer',
-                        }}
-                        onClick={() => setMediaPreview({
-                          open: true,
-                          media: {
-                            url: URL.createObjectURL(photo.file),
-                            type: 'image',
-                            name: `${colorName} Cushion`,
-                          },
-                        })}
-                      />
-                      <IconButton
-                        size="small"
-                        sx={{
-                          position: 'absolute',
-                          top: -8,
-                          right: -8,
-                          bgcolor: 'error.main',
-                          color: 'white',
-                          width: 24,
-                          height: 24,
-                          borderRadius: '50%',
-                          '&:hover': { bgcolor: 'error.dark' },
-                        }}
-                        onClick={() => handleRemovePhoto(colorName)}
-                      >
-                        <CloseIcon sx={{ fontSize: 16 }} />
-                      </IconButton>
-                    </Box>
-                  ) : (
-                    <Box sx={{ position: 'relative' }}>
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => handleFileUpload(colorName, e)}
-                        style={{ display: 'none' }}
-                        id={`file-input-${colorName}`}
-                      />
-                      <Button
-                        variant="outlined"
-                        onClick={() => {
-                          const input = document.getElementById(`file-input-${colorName}`) as HTMLInputElement
-                          if (input) {
-                            input.click()
-                          }
-                        }}
-                        sx={{
-                          width: 100,
-                          height: 100,
-                          borderStyle: 'dashed',
-                          display: 'flex',
-                          flexDirection: 'column',
-                          gap: 0.5,
-                          justifyContent: 'center',
-                          alignItems: 'center',
-                        }}
-                      >
-                        <UploadIcon sx={{ fontSize: 20 }} />
-                        <Typography variant="caption">
-                          Upload
-                        </Typography>
-                      </Button>
-                    </Box>
-                  )}
-                </Box>
-              )
-            })}
+      {/* Cushion Materials */}
+      <Paper elevation={2} sx={{ p: 2 }}>
+        <Typography variant="h6" gutterBottom>
+          Cushion Materials
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Each cushion needs a top color. Fabric, thread and foam left open are settled with you in the order chat.
+        </Typography>
+        {formData.cushions.map((cushion, index) => (
+          <Box key={cushion.id} sx={{ mb: index < formData.cushions.length - 1 ? 3 : 0 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {cushion.name}
+              </Typography>
+              {formData.cushions.length > 1 && cushion.material && (
+                <Button size="small" onClick={() => copyMaterialToAll(cushion.material)}>
+                  Use for all cushions
+                </Button>
+              )}
+            </Box>
+            <CushionMaterialFields
+              material={cushion.material}
+              colors={availableColors}
+              onChange={(material) => setMaterial(cushion.id, material)}
+            />
           </Box>
-        </Paper>
-      )}
+        ))}
+      </Paper>
 
-      <LocalMediaPreview
-        open={mediaPreview.open}
-        onClose={() => setMediaPreview({ open: false, media: null })}
-        media={mediaPreview.media}
+      <SampleRequestDialog
+        open={sampleDialogOpen}
+        colors={availableColors}
+        initialColors={orderColors}
+        shippingAddress={formData.shippingAddress}
+        onClose={() => setSampleDialogOpen(false)}
+        onBeforeCheckout={saveDraft}
+        onRequested={() => {
+          setSampleDialogOpen(false)
+          showPrompt(
+            'Samples Requested',
+            'We will mail your fabric samples soon. You can follow the request on your orders list.',
+            'success'
+          )
+        }}
       />
     </Box>
   )
-} 
\ No newline at end of file
+}
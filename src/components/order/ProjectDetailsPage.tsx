@@ -18,6 +18,8 @@ import {
   Alert,
   LinearProgress,
   CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material'
 import {
   Add as AddIcon,
@@ -30,7 +32,8 @@ import {
   Close as CloseIcon,
   Videocam as VideocamIcon,
 } from '@mui/icons-material'
-import { NewOrderFormData, Cushion, VideoFile } from '@/types/order'
+import { NewOrderFormData, Cushion, CushionShape, VideoFile } from '@/types/order'
+import { CUSHION_SHAPES } from '@/lib/materials'
 import VideoCapture from '@/components/VideoCapture'
 import { videoService } from '@/services/videoService'
 
@@ -220,6 +223,7 @@ export default function ProjectDetailsPage({
       quantity: 1,
       isMirrored: false,
       videos: [],
+      shape: 'rectangle',
     }
 
     setFormData(prev => ({
@@ -523,6 +527,25 @@ export default function ProjectDetailsPage({
               />
             </Box>
 
+            <Box sx={{ mb: 2 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Shape:
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={cushion.shape ?? 'rectangle'}
+                onChange={(_, shape: CushionShape | null) => shape && updateCushion(cushion.id, { shape })}
+                sx={{ flexWrap: 'wrap' }}
+              >
+                {CUSHION_SHAPES.map(shape => (
+                  <ToggleButton key={shape.code} value={shape.code}>
+                    {shape.name}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+
             {/* Video Upload Section */}
             <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
               <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
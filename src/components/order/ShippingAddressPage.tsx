@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
 import {
   Box,
   Typography,
@@ -9,10 +9,21 @@ import {
   Chip,
   Select,
   MenuItem,
+  Button,
 } from '@mui/material'
+import { BookmarkAdd as SaveAddressIcon } from '@mui/icons-material'
 import { NewOrderFormData } from '@/types/order'
+import { SavedAddress, SavedAddressInput } from '@/types/address'
+import { Color } from '@/types/color'
 import { useAuth } from '@/contexts/AuthContext'
+import { addressService } from '@/services/addressService'
+import { colorService } from '@/services/colorService'
+import { formatAddressLine, fromShippingAddress, toShippingAddress } from '@/lib/addresses'
+import { AddressField, checkAddress } from '@/lib/addressValidation'
+import { describeMaterial } from '@/lib/materials'
 import AddressAutocomplete, { AddressData } from '@/components/AddressAutocomplete'
+import AddressDialog from '@/components/AddressDialog'
+import CushionPreview from '@/components/CushionPreview'
 
 interface ShippingAddressPageProps {
   formData: NewOrderFormData
@@ -26,6 +37,44 @@ export default function ShippingAddressPage({
   showPrompt,
 }: ShippingAddressPageProps) {
   const { user } = useAuth()
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([])
+  const [addressToSave, setAddressToSave] = useState<SavedAddressInput | null>(null)
+  const [touchedFields, setTouchedFields] = useState<AddressField[]>([])
+  const [checkAllFields, setCheckAllFields] = useState(false) // A saved address was not typed here, so check all of it
+  const [colors, setColors] = useState<Color[]>([]) // For the cushion previews in the summary
+
+  const isCanada = formData.shippingAddress.country === 'Canada'
+  const addressCheck = checkAddress(formData.shippingAddress)
+
+  // Problems are shown once the customer has left a field, not while they type
+  const getFieldError = (field: AddressField) =>
+    checkAllFields || touchedFields.includes(field) ? addressCheck.issues.find(issue => issue.field === field)?.message : undefined
+
+  const handleFieldBlur = (field: AddressField) => {
+    setTouchedFields(prev => (prev.includes(field) ? prev : [...prev, field]))
+  }
+
+  useEffect(() => {
+    colorService.getColors(true)
+      .then(setColors)
+      .catch(err => console.error('Failed to load colors:', err))
+  }, [])
+
+  // Start a new order at the default address, unless one was already entered or picked
+  useEffect(() => {
+    if (!user) return
+    addressService.getAddresses(user.id)
+      .then(addresses => {
+        setSavedAddresses(addresses)
+        const defaultAddress = addresses.find(address => address.is_default)
+        if (!defaultAddress) return
+        setFormData(prev => (prev.shippingAddress.address || prev.shippingAddress.addressId)
+          ? prev
+          : { ...prev, shippingAddress: toShippingAddress(defaultAddress, prev.shippingAddress) })
+        setCheckAllFields(true)
+      })
+      .catch(error => console.error('Failed to load saved addresses:', error))
+  }, [user])
 
   // Auto-fill email from user's login and set default country when component mounts
   useEffect(() => {
@@ -42,21 +91,45 @@ export default function ShippingAddressPage({
     }
   }, [user])
 
-  const handleAddressChange = (field: keyof NewOrderFormData['shippingAddress'], value: string) => {
+  // The ship by date is the order's own, so changing it keeps the picked address
+  const handleAddressChange = (field: Exclude<keyof NewOrderFormData['shippingAddress'], 'addressId'>, value: string) => {
     setFormData(prev => ({
       ...prev,
       shippingAddress: {
         ...prev.shippingAddress,
+        ...(field !== 'shipByDate' && { addressId: undefined }),
         [field]: value,
       },
     }))
   }
 
+  const handleSavedAddressSelect = (addressId: string) => {
+    const saved = savedAddresses.find(address => address.id === Number(addressId))
+    setCheckAllFields(Boolean(saved))
+    setFormData(prev => ({
+      ...prev,
+      shippingAddress: saved
+        ? toShippingAddress(saved, prev.shippingAddress)
+        : { ...prev.shippingAddress, addressId: undefined },
+    }))
+  }
+
+  const handleSaveToAddressBook = async (input: SavedAddressInput) => {
+    if (!user) return
+    const saved = await addressService.createAddress(user.id, input)
+    setSavedAddresses(prev => [...prev, saved])
+    setFormData(prev => ({
+      ...prev,
+      shippingAddress: toShippingAddress(saved, prev.shippingAddress),
+    }))
+  }
+
   const handleAddressSelect = (addressData: AddressData) => {
     setFormData(prev => ({
       ...prev,
       shippingAddress: {
         ...prev.shippingAddress,
+        addressId: undefined,
         address: addressData.street,
         city: addressData.city || '',
         state: addressData.state,
@@ -90,6 +163,45 @@ export default function ShippingAddressPage({
           Shipping Information
         </Typography>
 
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          {savedAddresses.length > 0 && (
+            <TextField
+              select
+              label="Saved Address"
+              value={formData.shippingAddress.addressId?.toString() ?? ''}
+              onChange={(e) => handleSavedAddressSelect(e.target.value)}
+              sx={{ flex: 1 }}
+            >
+              <MenuItem value="">
+                <em>Enter a different address</em>
+              </MenuItem>
+              {savedAddresses.map((address) => (
+                <MenuItem key={address.id} value={address.id.toString()}>
+                  <Box>
+                    <Typography variant="body1">
+                      {address.label}
+                      {address.is_default && <Chip label="Default" size="small" sx={{ ml: 1 }} />}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {formatAddressLine(address)}
+                    </Typography>
+                  </Box>
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          {!formData.shippingAddress.addressId && formData.shippingAddress.address && (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<SaveAddressIcon />}
+              onClick={() => setAddressToSave(fromShippingAddress('', formData.shippingAddress))}
+            >
+              Save to address book
+            </Button>
+          )}
+        </Box>
+
         <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 3 }}>
           {/* CONTACT INFORMATION */}
           <Box sx={{ flex: 1 }}>
@@ -103,6 +215,9 @@ export default function ShippingAddressPage({
               label="Customer/Company Name"
               value={formData.shippingAddress.name}
               onChange={(e) => handleAddressChange('name', e.target.value)}
+              onBlur={() => handleFieldBlur('name')}
+              error={Boolean(getFieldError('name'))}
+              helperText={getFieldError('name')}
               required
               placeholder="Enter customer or company name"
               sx={{ mb: 2 }}
@@ -114,6 +229,9 @@ export default function ShippingAddressPage({
               label="Company Phone (Optional)"
               value={formData.shippingAddress.companyPhone || ''}
               onChange={(e) => handleAddressChange('companyPhone', formatPhoneNumber(e.target.value))}
+              onBlur={() => handleFieldBlur('companyPhone')}
+              error={Boolean(getFieldError('companyPhone'))}
+              helperText={getFieldError('companyPhone')}
               placeholder="Enter company phone number"
               sx={{ mb: 2 }}
             />
@@ -124,6 +242,9 @@ export default function ShippingAddressPage({
               label="Contact Name"
               value={formData.shippingAddress.contactName}
               onChange={(e) => handleAddressChange('contactName', e.target.value)}
+              onBlur={() => handleFieldBlur('contactName')}
+              error={Boolean(getFieldError('contactName'))}
+              helperText={getFieldError('contactName')}
               required
               placeholder="Enter contact person name"
               sx={{ mb: 2 }}
@@ -135,6 +256,9 @@ export default function ShippingAddressPage({
               label="Contact Phone"
               value={formData.shippingAddress.phonenumber}
               onChange={(e) => handleAddressChange('phonenumber', formatPhoneNumber(e.target.value))}
+              onBlur={() => handleFieldBlur('phonenumber')}
+              error={Boolean(getFieldError('phonenumber'))}
+              helperText={getFieldError('phonenumber')}
               required
               placeholder="Enter phone number"
               sx={{ mb: 2 }}
@@ -147,9 +271,11 @@ export default function ShippingAddressPage({
               type="email"
               value={formData.shippingAddress.email}
               onChange={(e) => handleAddressChange('email', e.target.value)}
+              onBlur={() => handleFieldBlur('email')}
+              error={Boolean(getFieldError('email'))}
               required
               placeholder="Enter email address"
-              helperText="Auto-filled from your account, but you can change it"
+              helperText={getFieldError('email') || 'Auto-filled from your account, but you can change it'}
             />
           </Box>
 
@@ -185,6 +311,9 @@ export default function ShippingAddressPage({
                 label="City"
                 value={formData.shippingAddress.city}
                 onChange={(e) => handleAddressChange('city', e.target.value)}
+                onBlur={() => handleFieldBlur('city')}
+                error={Boolean(getFieldError('city'))}
+                helperText={getFieldError('city')}
                 required
                 placeholder="Enter city"
                 sx={{ flex: 1 }}
@@ -192,11 +321,14 @@ export default function ShippingAddressPage({
 
               {/* State */}
               <TextField
-                label="State"
+                label={isCanada ? 'Province' : 'State'}
                 value={formData.shippingAddress.state}
                 onChange={(e) => handleAddressChange('state', e.target.value)}
+                onBlur={() => handleFieldBlur('state')}
+                error={Boolean(getFieldError('state'))}
+                helperText={getFieldError('state')}
                 required
-                placeholder="Enter state"
+                placeholder={isCanada ? 'e.g., ON' : 'e.g., FL'}
                 sx={{ flex: 1 }}
               />
             </Box>
@@ -204,11 +336,14 @@ export default function ShippingAddressPage({
             {/* ZIP Code */}
             <TextField
               fullWidth
-              label="ZIP Code"
+              label={isCanada ? 'Postal Code' : 'ZIP Code'}
               value={formData.shippingAddress.zipcode}
               onChange={(e) => handleAddressChange('zipcode', e.target.value)}
+              onBlur={() => handleFieldBlur('zipcode')}
+              error={Boolean(getFieldError('zipcode'))}
+              helperText={getFieldError('zipcode')}
               required
-              placeholder="Enter ZIP code"
+              placeholder={isCanada ? 'A1A 1A1' : 'Enter ZIP code'}
               sx={{ mb: 2 }}
             />
 
@@ -229,7 +364,7 @@ export default function ShippingAddressPage({
         {/* Summary */}
         <Box sx={{ mt: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
           <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1.5 }}>
-            Shipping Information Summary
+            Order Summary
           </Typography>
           <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 3 }}>
             {/* Contact Information Summary */}
@@ -296,8 +431,34 @@ export default function ShippingAddressPage({
               </Typography>
             </Box>
           </Box>
+
+          {/* Cushions Summary */}
+          <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600, display: 'block', mt: 2, mb: 1 }}>
+            CUSHIONS
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            {formData.cushions.map(cushion => (
+              <Box key={cushion.id} sx={{ width: 150 }}>
+                <CushionPreview shape={cushion.shape} material={cushion.material} colors={colors} width={150} />
+                <Typography variant="body2" sx={{ fontWeight: 600, mt: 0.5 }}>
+                  {cushion.name} ({cushion.quantity}{cushion.isMirrored ? ', mirrored' : ''})
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {describeMaterial(cushion.material) || 'No colors chosen'}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
         </Box>
       </Paper>
+
+      <AddressDialog
+        open={Boolean(addressToSave)}
+        title="Save to Address Book"
+        initialAddress={addressToSave}
+        onClose={() => setAddressToSave(null)}
+        onSave={handleSaveToAddressBook}
+      />
     </Box>
   )
 } 
\ No newline at end of file
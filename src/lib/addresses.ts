@@ -0,0 +1,42 @@
+import { NewOrderFormData } from '@/types/order'
+import { SavedAddress, SavedAddressInput } from '@/types/address'
+
+type ShippingAddress = NewOrderFormData['shippingAddress']
+
+// Fill the wizard's shipping address from the address book. The order copies these fields, so later
+// edits to the saved address do not change it. The ship by date belongs to the order and is kept.
+export const toShippingAddress = (saved: SavedAddress, current: ShippingAddress): ShippingAddress => ({
+  addressId: saved.id,
+  name: saved.name,
+  contactName: saved.contact_name || '',
+  address: saved.address,
+  address2: saved.address2 || '',
+  country: saved.country,
+  city: saved.city || '',
+  zipcode: saved.zipcode,
+  state: saved.state,
+  companyPhone: saved.company_phone || '',
+  phonenumber: saved.phonenumber || '',
+  email: saved.email || current.email,
+  shipByDate: current.shipByDate,
+})
+
+export const fromShippingAddress = (label: string, shipping: ShippingAddress): SavedAddressInput => ({
+  label,
+  name: shipping.name,
+  contact_name: shipping.contactName || null,
+  address: shipping.address,
+  address2: shipping.address2 || null,
+  city: shipping.city || null,
+  state: shipping.state,
+  zipcode: shipping.zipcode,
+  country: shipping.country || 'United States',
+  company_phone: shipping.companyPhone || null,
+  phonenumber: shipping.phonenumber || null,
+  email: shipping.email || null,
+})
+
+export const formatAddressLine = (address: Pick<SavedAddress, 'address' | 'city' | 'state' | 'zipcode'>): string => {
+  const cityState = [address.city, address.state].filter(Boolean).join(', ')
+  return [address.address, `${cityState} ${address.zipcode}`.trim()].filter(Boolean).join(', ')
+}
@@ -0,0 +1,45 @@
+import { TrackingStatus } from '@/types/shipment'
+
+// Carriers an order can ship with and their tracking pages.
+// Keep in sync with supabase/functions/_shared/carriers.ts, which also polls tracking status.
+
+export interface Carrier {
+  code: string
+  name: string
+  trackingUrl: ((trackingNumber: string) => string) | null
+}
+
+const CARRIERS: Carrier[] = [
+  { code: 'ups', name: 'UPS', trackingUrl: (n) => `https://www.ups.com/track?tracknum=${n}` },
+  { code: 'fedex', name: 'FedEx', trackingUrl: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}` },
+  { code: 'usps', name: 'USPS', trackingUrl: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}` },
+  { code: 'freight', name: 'Freight / other', trackingUrl: null },
+]
+
+// Only offered where the edge functions have ENABLE_FAKE_CARRIER set as well
+const FAKE_CARRIER: Carrier = { code: 'fake', name: 'Fake Carrier', trackingUrl: null }
+
+export const getCarriers = (): Carrier[] => {
+  return process.env.NEXT_PUBLIC_ENABLE_FAKE_CARRIER === 'true' ? [...CARRIERS, FAKE_CARRIER] : CARRIERS
+}
+
+export const getCarrierName = (code: string): string => {
+  return [...CARRIERS, FAKE_CARRIER].find(carrier => carrier.code === code)?.name || code
+}
+
+export const getTrackingUrl = (code: string, trackingNumber: string): string | null => {
+  const carrier = CARRIERS.find(c => c.code === code)
+  return carrier?.trackingUrl ? carrier.trackingUrl(encodeURIComponent(trackingNumber.trim())) : null
+}
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+}
+
+export const getTrackingStatusLabel = (status: string): string => {
+  return TRACKING_STATUS_LABELS[status as TrackingStatus] || status
+}
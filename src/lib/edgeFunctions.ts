@@ -0,0 +1,23 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+
+// Edge functions answer errors with a JSON body ({ error }), but supabase-js only
+// exposes a generic "non-2xx status code" message. Read the body so callers can
+// show the actual reason.
+export const getEdgeFunctionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json()
+      if (body?.error) {
+        return body.error
+      }
+    } catch {
+      // Body was not JSON, fall through to the default message
+    }
+  }
+
+  if (error instanceof Error && error.message) {
+    return error.message
+  }
+
+  return fallback
+}
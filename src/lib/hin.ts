@@ -0,0 +1,226 @@
+import { HIN_MANUFACTURERS } from '@/lib/hinManufacturers'
+
+// Hull identification numbers (33 CFR 181.25). A US HIN is 12 characters: a 3-character
+// manufacturer identification code (MIC), a 5-character hull serial and 4 date characters whose
+// layout depends on when the boat was built. US HINs carry no check digit, so a mistyped HIN is
+// caught by its structure and by cross-checking the decoded dates against the boat details.
+
+export type HinFormat =
+  | 'current' // Since November 1984: production month letter, production year digit, model year
+  | 'model-year' // 1972 to 1984: 'M', model year, production month letter
+  | 'straight-year' // 1972 to 1984: production month and year as four digits
+
+export interface DecodedHin {
+  hin: string // Normalized: upper case, without spaces, dashes or country code
+  format: HinFormat
+  manufacturerCode: string
+  manufacturer: string | null // null when the MIC is not in our table
+  serial: string
+  modelYear: number | null // Not encoded in the straight-year format
+  productionYear: number | null
+  productionMonth: number | null // 1-12
+}
+
+export interface HinCheck {
+  decoded: DecodedHin | null
+  errors: string[] // The HIN cannot be right as entered
+  warnings: string[] // The HIN is well formed but disagrees with the boat details
+}
+
+const HIN_LENGTH = 12
+const MONTH_LETTERS = 'ABCDEFGHIJKL' // A is January
+const FIRST_CURRENT_FORMAT_MODEL_YEAR = 1985
+const FIRST_HIN_YEAR = 1972
+const LAST_OLD_FORMAT_YEAR = 1984
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+export const normalizeHin = (value: string): string => {
+  const hin = value.toUpperCase().replace(/[\s-]/g, '')
+  // HINs are sometimes written with the ISO country code in front, e.g. US-ABC12345D404
+  return hin.length === HIN_LENGTH + 2 && hin.startsWith('US') ? hin.slice(2) : hin
+}
+
+// Two-digit model years of the current format run from 1985 to next year's models
+const toCurrentFormatYear = (twoDigits: number, now: Date): number | null => {
+  const latestModelYear = now.getFullYear() + 1
+  const year = twoDigits >= FIRST_CURRENT_FORMAT_MODEL_YEAR % 100 ? 1900 + twoDigits : 2000 + twoDigits
+  return year <= latestModelYear ? year : null
+}
+
+const decodeDate = (
+  date: string,
+  errors: string[],
+  now: Date
+): Pick<DecodedHin, 'format' | 'modelYear' | 'productionYear' | 'productionMonth'> | null => {
+  // Model year format: M, two-digit model year, production month letter
+  if (/^M\d\d[A-L]$/.test(date)) {
+    const modelYear = 1900 + parseInt(date.slice(1, 3), 10)
+    if (modelYear < FIRST_HIN_YEAR || modelYear > LAST_OLD_FORMAT_YEAR + 1) {
+      errors.push(`The model year ${modelYear} is outside the years this HIN format was used (${FIRST_HIN_YEAR}-${LAST_OLD_FORMAT_YEAR})`)
+      return null
+    }
+    return {
+      format: 'model-year',
+      modelYear,
+      productionYear: null,
+      productionMonth: MONTH_LETTERS.indexOf(date[3]) + 1,
+    }
+  }
+
+  // Straight year format: the production month (01-12) and two-digit year (72-84), which cannot
+  // be mistaken for one another
+  if (/^\d{4}$/.test(date)) {
+    const first = parseInt(date.slice(0, 2), 10)
+    const second = parseInt(date.slice(2, 4), 10)
+    const isMonth = (value: number) => value >= 1 && value <= 12
+    const isOldYear = (value: number) => value >= FIRST_HIN_YEAR % 100 && value <= LAST_OLD_FORMAT_YEAR % 100
+
+    const month = isMonth(first) && isOldYear(second) ? first : isMonth(second) && isOldYear(first) ? second : null
+    if (month === null) {
+      errors.push(`The last four digits (${date}) are not a production month and year between ${FIRST_HIN_YEAR} and ${LAST_OLD_FORMAT_YEAR}`)
+      return null
+    }
+    return {
+      format: 'straight-year',
+      modelYear: null,
+      productionYear: 1900 + (month === first ? second : first),
+      productionMonth: month,
+    }
+  }
+
+  // Current format: production month letter, last digit of the production year, two-digit model year
+  if (/^[A-L]\d\d\d$/.test(date)) {
+    const modelYear = toCurrentFormatYear(parseInt(date.slice(2, 4), 10), now)
+    if (modelYear === null) {
+      errors.push(`The model year in the last two characters (${date.slice(2, 4)}) is not a valid year`)
+      return null
+    }
+
+    // Boats are built in their model year or the year before it
+    const productionDigit = parseInt(date[1], 10)
+    const productionYear = productionDigit === modelYear % 10
+      ? modelYear
+      : productionDigit === (modelYear - 1) % 10 ? modelYear - 1 : null
+    if (productionYear === null) {
+      errors.push(`The production year digit (${productionDigit}) does not fit a ${modelYear} model year`)
+      return null
+    }
+
+    return {
+      format: 'current',
+      modelYear,
+      productionYear,
+      productionMonth: MONTH_LETTERS.indexOf(date[0]) + 1,
+    }
+  }
+
+  errors.push('The last four characters are not a HIN date. Current HINs end in a month letter (A-L) and three digits, e.g. D405')
+  return null
+}
+
+export const decodeHin = (value: string, now = new Date()): { decoded: DecodedHin | null; errors: string[] } => {
+  const hin = normalizeHin(value)
+  const errors: string[] = []
+
+  if (!/^[A-Z0-9]*$/.test(hin)) {
+    errors.push('A HIN only contains letters and digits')
+    return { decoded: null, errors }
+  }
+
+  if (hin.length !== HIN_LENGTH) {
+    errors.push(`A HIN is ${HIN_LENGTH} characters long, not counting spaces and dashes; this one has ${hin.length}`)
+    return { decoded: null, errors }
+  }
+
+  const manufacturerCode = hin.slice(0, 3)
+  const serial = hin.slice(3, 8)
+
+  // I, O and Q are never used in the serial, so they are almost always a mistyped 1 or 0
+  if (/[IOQ]/.test(serial)) {
+    errors.push(`The hull serial (${serial}) contains I, O or Q, which HINs do not use. Check for a 1 or 0`)
+  }
+
+  const date = decodeDate(hin.slice(8), errors, now)
+  if (!date || errors.length > 0) {
+    return { decoded: null, errors }
+  }
+
+  if (date.productionYear !== null && date.productionMonth !== null) {
+    const produced = new Date(date.productionYear, date.productionMonth - 1, 1)
+    if (produced > now) {
+      errors.push(`The production date (${MONTH_NAMES[date.productionMonth - 1]} ${date.productionYear}) is in the future`)
+      return { decoded: null, errors }
+    }
+  }
+
+  return {
+    decoded: {
+      hin,
+      manufacturerCode,
+      manufacturer: HIN_MANUFACTURERS[manufacturerCode] ?? null,
+      serial,
+      ...date,
+    },
+    errors,
+  }
+}
+
+// Decode a HIN and compare it with the rest of the boat details as entered
+export const checkHin = (
+  value: string,
+  boat: { year?: string | number | null; make?: string | null } = {},
+  now = new Date()
+): HinCheck => {
+  if (!value.trim()) {
+    return { decoded: null, errors: [], warnings: [] }
+  }
+
+  const { decoded, errors } = decodeHin(value, now)
+  const warnings: string[] = []
+  if (!decoded) {
+    return { decoded, errors, warnings }
+  }
+
+  const enteredYear = boat.year ? parseInt(String(boat.year), 10) : NaN
+  if (Number.isFinite(enteredYear)) {
+    if (decoded.modelYear !== null && decoded.modelYear !== enteredYear) {
+      warnings.push(`The HIN is for a ${decoded.modelYear} model year, but the boat year is ${enteredYear}`)
+    } else if (
+      decoded.modelYear === null &&
+      decoded.productionYear !== null &&
+      enteredYear !== decoded.productionYear &&
+      enteredYear !== decoded.productionYear + 1
+    ) {
+      warnings.push(`The HIN shows the boat was built in ${decoded.productionYear}, but the boat year is ${enteredYear}`)
+    }
+  }
+
+  const make = boat.make?.trim().toLowerCase()
+  if (make && decoded.manufacturer && !decoded.manufacturer.toLowerCase().includes(make)) {
+    warnings.push(`The HIN manufacturer code ${decoded.manufacturerCode} belongs to ${decoded.manufacturer}, but the make is ${boat.make?.trim()}`)
+  }
+
+  return { decoded, errors, warnings }
+}
+
+export const describeHin = (decoded: DecodedHin): string => {
+  const manufacturer = decoded.manufacturer
+    ? `${decoded.manufacturer} (${decoded.manufacturerCode})`
+    : `Manufacturer code ${decoded.manufacturerCode}`
+  const parts = [manufacturer, `serial ${decoded.serial}`]
+
+  if (decoded.modelYear !== null) {
+    parts.push(`${decoded.modelYear} model year`)
+  }
+  if (decoded.productionYear !== null && decoded.productionMonth !== null) {
+    parts.push(`built ${MONTH_NAMES[decoded.productionMonth - 1]} ${decoded.productionYear}`)
+  } else if (decoded.productionMonth !== null) {
+    parts.push(`built in ${MONTH_NAMES[decoded.productionMonth - 1]}`)
+  }
+
+  return parts.join(', ')
+}
@@ -0,0 +1,27 @@
+// Manufacturer identification codes (the first three HIN characters) for builders we commonly make
+// cushions for. The US Coast Guard assigns MICs; codes missing here can be looked up in its MIC database.
+// Names list the brands a builder's boats are sold under where they differ from the builder.
+export const HIN_MANUFACTURERS: Record<string, string> = {
+  BLB: 'Bayliner',
+  BUJ: 'Tracker Marine',
+  BWC: 'Boston Whaler',
+  CDR: 'Carver',
+  CTY: 'Catalina Yachts',
+  ETW: 'Bennington',
+  FGB: 'Chaparral',
+  GFN: 'Four Winns',
+  GLA: 'Glastron',
+  HAT: 'Hatteras',
+  HUN: 'Hunter Marine',
+  LAR: 'Larson',
+  MB2: 'Malibu',
+  MBC: 'MasterCraft',
+  NTL: 'Grady-White',
+  RGM: 'Regal',
+  SER: 'Sea Ray',
+  SSU: 'S2 Yachts (Pursuit, Tiara)',
+  VKY: 'Viking Yachts',
+  WEL: 'Wellcraft',
+  YAM: 'Yamaha',
+  YDV: 'Sea-Doo',
+}
@@ -0,0 +1,86 @@
+import { CushionMaterial, CushionShape } from '@/types/order'
+
+// Cushion shapes and materials offered in the order wizard. Fabric lines and colors come from the
+// colors table; shapes, foam and thread are fixed here.
+// Keep in sync with supabase/functions/_shared/materials.ts, which create-order checks them against.
+
+export const CUSHION_SHAPES: { code: CushionShape; name: string }[] = [
+  { code: 'rectangle', name: 'Square corners' },
+  { code: 'rounded', name: 'Rounded corners' },
+  { code: 'wedge', name: 'Wedge (backrest)' },
+  { code: 'bolster', name: 'Bolster (round)' },
+]
+
+export interface FoamType {
+  code: string
+  name: string
+  description: string
+}
+
+export const FOAM_TYPES: FoamType[] = [
+  { code: 'polyurethane', name: 'Standard foam', description: 'Medium-density polyurethane for covered areas' },
+  { code: 'high_density', name: 'High-density foam', description: 'Firmer and longer lasting, for seats that see daily use' },
+  { code: 'marine_open_cell', name: 'Marine quick-dry foam', description: 'Open-cell reticulated foam that drains, for open decks' },
+  { code: 'closed_cell', name: 'Closed-cell foam', description: 'Does not absorb water and floats, for bolsters and casting decks' },
+]
+
+// Inches
+export const FOAM_THICKNESSES = [1, 2, 3, 4, 5, 6]
+
+export const THREAD_COLORS = ['White', 'Black', 'Beige', 'Grey', 'Navy', 'Tan']
+
+export type ColorPanel = 'color' | 'side_color' | 'piping_color'
+
+// The parts of a cushion a color can be assigned to
+export const COLOR_PANELS: { key: ColorPanel; label: string }[] = [
+  { key: 'color', label: 'Top' },
+  { key: 'side_color', label: 'Sides' },
+  { key: 'piping_color', label: 'Piping' },
+]
+
+export const emptyMaterial = (): CushionMaterial => ({
+  fabric_line: null,
+  color: null,
+  side_color: null,
+  piping_color: null,
+  thread_color: null,
+  foam_type: null,
+  foam_thickness: null,
+})
+
+export const getFoamTypeName = (code: string): string => {
+  return FOAM_TYPES.find(foam => foam.code === code)?.name || code
+}
+
+// Catalog colors a material uses, for checking they are still offered
+export const getMaterialColors = (material: CushionMaterial | null | undefined): string[] => {
+  return [material?.color, material?.side_color, material?.piping_color]
+    .filter((color): color is string => Boolean(color))
+}
+
+// Every color assigned to the cushions, which is what the order lists as its colors
+export const getOrderColors = (cushions: { material?: CushionMaterial | null }[]): string[] => {
+  return Array.from(new Set(cushions.flatMap(cushion => getMaterialColors(cushion.material))))
+}
+
+// e.g. 4" High-density foam
+export const describeFoam = (material: CushionMaterial): string => {
+  return [
+    material.foam_thickness ? `${material.foam_thickness}"` : null,
+    material.foam_type ? getFoamTypeName(material.foam_type) : material.foam_thickness ? 'foam' : null,
+  ].filter(Boolean).join(' ')
+}
+
+// One line for lists, e.g. "Sunbrella Horizon, Navy top, White sides, White piping, Black thread, 4" High-density foam"
+export const describeMaterial = (material: CushionMaterial | null | undefined): string => {
+  if (!material) return ''
+
+  return [
+    material.fabric_line,
+    material.color && material.side_color ? `${material.color} top` : material.color,
+    material.side_color ? `${material.side_color} sides` : null,
+    material.piping_color ? `${material.piping_color} piping` : null,
+    material.thread_color ? `${material.thread_color} thread` : null,
+    describeFoam(material),
+  ].filter(Boolean).join(', ')
+}
@@ -0,0 +1,29 @@
+import { OrderAttentionReason } from '@/types/order'
+
+// Orders are flagged by the stripe-webhook function when a payment problem needs an admin
+
+export const getAttentionLabel = (reason: OrderAttentionReason | null): string => {
+  switch (reason) {
+    case 'dispute':
+      return 'Disputed'
+    case 'dispute_lost':
+      return 'Dispute lost'
+    case 'refund_failed':
+      return 'Refund failed'
+    default:
+      return 'Needs attention'
+  }
+}
+
+export const getAttentionDescription = (reason: OrderAttentionReason | null): string => {
+  switch (reason) {
+    case 'dispute':
+      return 'The customer disputed a payment with their card issuer. Respond to the dispute in the Stripe dashboard before the evidence deadline.'
+    case 'dispute_lost':
+      return 'A dispute was lost and the funds were returned to the card holder. Decide how to settle the order with the customer.'
+    case 'refund_failed':
+      return 'A refund could not be completed. Contact the customer to arrange another way to return the money.'
+    default:
+      return 'This order was flagged for review.'
+  }
+}
@@ -0,0 +1,95 @@
+import { NewOrderFormData, Order, OrderDraft, VideoFile } from '@/types/order'
+import { emptyMaterial } from '@/lib/materials'
+
+// Drafts keep the new order wizard's state server-side. Local File objects cannot be saved, so only
+// files that have reached the scans bucket are kept, referenced by their path.
+
+const withoutLocalFile = ({ file: _file, ...video }: VideoFile): VideoFile => video
+
+const uploadedOnly = (videos: VideoFile[] = []) =>
+  videos.filter(video => video.uploadedFileName).map(withoutLocalFile)
+
+export const toDraftFormData = (formData: NewOrderFormData): NewOrderFormData => ({
+  ...formData,
+  cushions: formData.cushions.map(cushion => ({
+    ...cushion,
+    videos: uploadedOnly(cushion.videos),
+  })),
+})
+
+// Files picked in this session that are not uploaded yet, and so not part of the saved draft
+export const getPendingFiles = (formData: NewOrderFormData): VideoFile[] =>
+  formData.cushions
+    .flatMap(cushion => cushion.videos)
+    .filter(video => video.file && !video.uploadedFileName)
+
+export const getDraftTitle = (draft: OrderDraft): string => {
+  const formData = draft.form_data
+  if (formData?.purchaseOrderNumber) {
+    return formData.purchaseOrderNumber
+  }
+
+  const boat = [formData?.boatInformation.year, formData?.boatInformation.make, formData?.boatInformation.model]
+    .filter(Boolean)
+    .join(' ')
+  return boat || 'Untitled order'
+}
+
+export const getDraftSummary = (draft: OrderDraft): string => {
+  const cushions = draft.form_data?.cushions || []
+  const videoCount = cushions.reduce((total, cushion) => total + cushion.videos.length, 0)
+  return `${cushions.length} cushion${cushions.length === 1 ? '' : 's'}, ${videoCount} video${videoCount === 1 ? '' : 's'}`
+}
+
+const storedFile = (path: string, name: string, type: string): VideoFile => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  size: 0,
+  type,
+  uploadedFileName: path,
+})
+
+// Pre-fill the wizard from an earlier order (with its cushions loaded). Its videos are referenced where
+// they are in the scans bucket instead of being uploaded again. Orders from before colors were assigned
+// per cushion only carry over their color when they had just one.
+export const buildReorderFormData = (order: Order): NewOrderFormData => {
+  const singleColor = order.color.length === 1 ? { ...emptyMaterial(), color: order.color[0] } : undefined
+
+  return {
+    purchaseOrderNumber: '',
+    reorderOf: order.id,
+    cushions: (order.cushions || []).map((cushion, index) => ({
+      id: (index + 1).toString(),
+      name: cushion.name,
+      quantity: cushion.quantity,
+      isMirrored: cushion.mirror,
+      videos: cushion.videos.map((path, videoIndex) =>
+        storedFile(path, `${cushion.name} video ${videoIndex + 1}`, 'video/mp4')
+      ),
+      shape: cushion.shape,
+      material: cushion.material ?? singleColor,
+    })),
+    shippingAddress: {
+      name: order.name,
+      contactName: order.contact_name || '',
+      address: order.address,
+      address2: order.address2 || '',
+      country: order.country || '',
+      city: order.city || '',
+      zipcode: order.zipcode,
+      state: order.state,
+      companyPhone: order.company_phone || '',
+      phonenumber: order.phonenumber,
+      email: order.email || '',
+      shipByDate: '',
+    },
+    boatInformation: {
+      boatId: order.boat_id ?? undefined,
+      make: order.boat_make || '',
+      model: order.boat_model || '',
+      year: order.boat_year?.toString() || '',
+      length: order.boat_length?.toString() || '',
+      boatHin: order.boat_HIN || '',
+    },
+  }
+}
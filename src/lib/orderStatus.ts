@@ -0,0 +1,55 @@
+import { OrderStatus } from '@/types/order'
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'UNPAID',
+  'PARTIALLY_PAID',
+  'PAID',
+  'PREPARING',
+  'SHIPPING',
+  'DELIVERED',
+  'CANCELLED',
+  'RETURNED',
+]
+
+// Allowed next statuses for every order status.
+// Keep in sync with supabase/functions/_shared/orderStatus.ts, which enforces the same table server-side.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  UNPAID: ['PAID', 'PARTIALLY_PAID', 'CANCELLED'],
+  PARTIALLY_PAID: ['PREPARING', 'PAID', 'UNPAID', 'CANCELLED'], // the deposit starts fabrication
+  PAID: ['PREPARING', 'PARTIALLY_PAID', 'UNPAID', 'CANCELLED'], // back to paying when a quote or additional amount raises the total
+  PREPARING: ['SHIPPING', 'PARTIALLY_PAID', 'UNPAID', 'CANCELLED'],
+  SHIPPING: ['DELIVERED', 'RETURNED'],
+  DELIVERED: ['RETURNED'],
+  CANCELLED: [],
+  RETURNED: [],
+}
+
+// Statuses an order can only enter once nothing is left to pay
+export const SETTLED_BALANCE_STATUSES: OrderStatus[] = ['SHIPPING']
+
+export const getAllowedNextStatuses = (status: OrderStatus): OrderStatus[] => {
+  return Object.hasOwn(ORDER_STATUS_TRANSITIONS, status) ? ORDER_STATUS_TRANSITIONS[status] : []
+}
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  return getAllowedNextStatuses(from).includes(to)
+}
+
+export const requiresSettledBalance = (status: OrderStatus): boolean => {
+  return SETTLED_BALANCE_STATUSES.includes(status)
+}
+
+export const assertOrderStatusTransition = (from: OrderStatus, to: OrderStatus, outstandingAmount = 0): void => {
+  if (canTransitionOrderStatus(from, to)) {
+    if (requiresSettledBalance(to) && outstandingAmount > 0) {
+      throw new Error(`Cannot move order to ${to} while $${outstandingAmount.toFixed(2)} is still outstanding.`)
+    }
+    return
+  }
+
+  const allowed = getAllowedNextStatuses(from)
+  throw new Error(
+    `Cannot change order status from ${from} to ${to}. ` +
+    (allowed.length > 0 ? `Allowed next statuses: ${allowed.join(', ')}.` : `${from} is a final status.`)
+  )
+}
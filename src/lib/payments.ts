@@ -0,0 +1,39 @@
+import { PaymentRecord } from '@/types/payment'
+import { roundCurrency } from '@/lib/quote'
+
+// Charges and adjustments add to what the customer has paid, refunds take it away.
+// Failed and canceled entries never moved money.
+export const getSignedPaymentAmount = (payment: Pick<PaymentRecord, 'type' | 'amount'>): number => {
+  return payment.type === 'refund' ? -Number(payment.amount) : Number(payment.amount)
+}
+
+export const isSettledPayment = (payment: Pick<PaymentRecord, 'status'>): boolean => {
+  return payment.status !== 'failed' && payment.status !== 'canceled'
+}
+
+export const getNetPaid = (payments: PaymentRecord[]): number => {
+  return roundCurrency(
+    payments
+      .filter(isSettledPayment)
+      .reduce((sum, payment) => sum + getSignedPaymentAmount(payment), 0)
+  )
+}
+
+// What an admin can still refund: each captured charge less the refunds held against it
+// (keep in sync with supabase/functions/_shared/refunds.ts)
+export const getRefundableAmount = (payments: PaymentRecord[]): number => {
+  const refundable = payments
+    .filter((payment) => payment.type === 'charge' && payment.status === 'succeeded')
+    .reduce((sum, charge) => {
+      const refunded = payments
+        .filter((payment) =>
+          payment.type === 'refund' &&
+          payment.stripe_payment_intent_id === charge.stripe_payment_intent_id &&
+          isSettledPayment(payment)
+        )
+        .reduce((total, refund) => total + Number(refund.amount), 0)
+      return sum + Math.max(0, Number(charge.amount) - refunded)
+    }, 0)
+
+  return roundCurrency(refundable)
+}
@@ -0,0 +1,43 @@
+import { Quote, QuoteLineItemInput, QuoteStatus } from '@/types/quote'
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30
+
+export const DEFAULT_DEPOSIT_PERCENT = 50
+
+// Quote arithmetic and lifecycle. Keep in sync with supabase/functions/_shared/quote.ts,
+// which recomputes totals server-side before a quote is stored.
+
+export const roundCurrency = (value: number): number => {
+  return Math.round(value * 100) / 100
+}
+
+export const getLineUnitPrice = (item: Pick<QuoteLineItemInput, 'base_price' | 'mirror_surcharge' | 'fabric_surcharge'>): number => {
+  return roundCurrency(item.base_price + item.mirror_surcharge + item.fabric_surcharge)
+}
+
+export const getLineTotal = (item: Pick<QuoteLineItemInput, 'quantity' | 'base_price' | 'mirror_surcharge' | 'fabric_surcharge'>): number => {
+  return roundCurrency(getLineUnitPrice(item) * item.quantity)
+}
+
+export const calculateQuoteTotals = (
+  lineItems: QuoteLineItemInput[],
+  shippingAmount: number,
+  taxAmount: number,
+  discountAmount: number
+): { subtotal: number; total: number } => {
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + getLineTotal(item), 0))
+  const total = roundCurrency(Math.max(0, subtotal + shippingAmount + taxAmount - discountAmount))
+  return { subtotal, total }
+}
+
+// A sent quote past its expiry date is expired even before the server has recorded it
+export const getEffectiveQuoteStatus = (quote: Pick<Quote, 'status' | 'expires_at'>, now = new Date()): QuoteStatus => {
+  if (quote.status === 'SENT' && quote.expires_at && new Date(quote.expires_at) <= now) {
+    return 'EXPIRED'
+  }
+  return quote.status
+}
+
+export const getDepositAmount = (quote: Pick<Quote, 'total' | 'deposit_percent'>): number => {
+  return roundCurrency(Number(quote.total) * Number(quote.deposit_percent) / 100)
+}
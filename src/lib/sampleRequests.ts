@@ -0,0 +1,43 @@
+import { SampleRequestStatus } from '@/types/sampleRequest'
+
+// Most colors one request may ask for
+export const SAMPLE_COLOR_LIMIT = 8
+
+// Shown before a sample request is made. request-samples charges its own SAMPLE_REQUEST_FEE and the
+// created request carries that fee. Keep the rounding in sync with request-samples/index.ts
+export const getSampleRequestFee = (): number => {
+  const fee = Number(process.env.NEXT_PUBLIC_SAMPLE_REQUEST_FEE || 0)
+  return Number.isFinite(fee) && fee > 0 ? Math.round(fee * 100) / 100 : 0
+}
+
+export const SAMPLE_REQUEST_STATUS_LABELS: Record<SampleRequestStatus, string> = {
+  UNPAID: 'Awaiting payment',
+  REQUESTED: 'Requested',
+  SENT: 'Sent',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+}
+
+// Allowed next statuses for every sample request status. UNPAID becomes REQUESTED when the webhook
+// records the fee, or when an admin waives it; admins make every other move.
+export const SAMPLE_REQUEST_TRANSITIONS: Record<SampleRequestStatus, SampleRequestStatus[]> = {
+  UNPAID: ['REQUESTED', 'CANCELLED'],
+  REQUESTED: ['SENT', 'CANCELLED'],
+  SENT: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: [],
+}
+
+export const getAllowedNextSampleStatuses = (status: SampleRequestStatus): SampleRequestStatus[] => {
+  return SAMPLE_REQUEST_TRANSITIONS[status] || []
+}
+
+export const assertSampleRequestTransition = (from: SampleRequestStatus, to: SampleRequestStatus): void => {
+  if (getAllowedNextSampleStatuses(from).includes(to)) return
+
+  const allowed = getAllowedNextSampleStatuses(from)
+  throw new Error(
+    `Cannot change sample request from ${from} to ${to}. ` +
+    (allowed.length > 0 ? `Allowed next statuses: ${allowed.join(', ')}.` : `${from} is a final status.`)
+  )
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/lib/supabase'
+import { SavedAddress, SavedAddressInput } from '@/types/address'
+
+// A customer's address book, used to fill the shipping address of new orders
+export const addressService = {
+  // Default address first, then by label
+  async getAddresses(userId: string): Promise<SavedAddress[]> {
+    const { data, error } = await supabase
+      .from('addresses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('is_default', { ascending: false })
+      .order('label', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch addresses: ${error.message}`)
+    }
+
+    return data || []
+  },
+
+  // The first address saved becomes the default
+  async createAddress(userId: string, address: SavedAddressInput): Promise<SavedAddress> {
+    const { count, error: countError } = await supabase
+      .from('addresses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if (countError) {
+      throw new Error(`Failed to save address: ${countError.message}`)
+    }
+
+    const { data, error } = await supabase
+      .from('addresses')
+      .insert({ ...address, user_id: userId, is_default: count === 0 })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save address: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async updateAddress(addressId: number, address: SavedAddressInput): Promise<SavedAddress> {
+    const { data, error } = await supabase
+      .from('addresses')
+      .update({ ...address, updated_at: new Date().toISOString() })
+      .eq('id', addressId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update address: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async deleteAddress(addressId: number): Promise<void> {
+    const { error } = await supabase
+      .from('addresses')
+      .delete()
+      .eq('id', addressId)
+
+    if (error) {
+      throw new Error(`Failed to delete address: ${error.message}`)
+    }
+  },
+
+  async setDefaultAddress(addressId: number): Promise<void> {
+    const { error } = await supabase.rpc('set_default_address', { p_address_id: addressId })
+
+    if (error) {
+      throw new Error(`Failed to set default address: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { supabase } from '@/lib/supabase'
+import { Boat, BoatInput } from '@/types/boat'
+import { Order } from '@/types/order'
+
+// A customer's saved boats; orders point at the boat they were made for through orders.boat_id
+export const boatService = {
+  async getBoats(userId: string): Promise<Boat[]> {
+    const { data, error } = await supabase
+      .from('boats')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch boats: ${error.message}`)
+    }
+
+    return data || []
+  },
+
+  async getBoat(boatId: number): Promise<Boat | null> {
+    const { data, error } = await supabase
+      .from('boats')
+      .select('*')
+      .eq('id', boatId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch boat: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async createBoat(userId: string, boat: BoatInput): Promise<Boat> {
+    const { data, error } = await supabase
+      .from('boats')
+      .insert({ ...boat, user_id: userId })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.code === '23505'
+        ? 'A boat with this HIN is already saved'
+        : `Failed to save boat: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async updateBoat(boatId: number, boat: BoatInput): Promise<Boat> {
+    const { data, error } = await supabase
+      .from('boats')
+      .update({ ...boat, updated_at: new Date().toISOString() })
+      .eq('id', boatId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.code === '23505'
+        ? 'A boat with this HIN is already saved'
+        : `Failed to update boat: ${error.message}`)
+    }
+
+    return data
+  },
+
+  // Orders made for the boat keep their own copy of its details
+  async deleteBoat(boatId: number): Promise<void> {
+    const { error } = await supabase
+      .from('boats')
+      .delete()
+      .eq('id', boatId)
+
+    if (error) {
+      throw new Error(`Failed to delete boat: ${error.message}`)
+    }
+  },
+
+  // Everything made for this hull, newest first
+  async getBoatOrders(boatId: number): Promise<Order[]> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('boat_id', boatId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch orders for boat: ${error.message}`)
+    }
+
+    return data || []
+  }
+}
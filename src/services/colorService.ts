@@ -0,0 +1,88 @@
+import { supabase } from '@/lib/supabase'
+import { Color, ColorInput } from '@/types/color'
+
+const SWATCH_BUCKET = 'color-swatches'
+
+// The fabric color catalog. New orders only offer active colors; pass includeInactive to look up the
+// colors of existing orders, which may have been discontinued since
+export const colorService = {
+  async getColors(includeInactive = false): Promise<Color[]> {
+    let query = supabase
+      .from('colors')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch colors: ${error.message}`)
+    }
+
+    return data || []
+  },
+
+  async createColor(color: ColorInput): Promise<Color> {
+    const { data, error } = await supabase
+      .from('colors')
+      .insert(color)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save color: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async updateColor(colorId: number, color: Partial<ColorInput>): Promise<Color> {
+    const { data, error } = await supabase
+      .from('colors')
+      .update({ ...color, updated_at: new Date().toISOString() })
+      .eq('id', colorId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update color: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async deleteColor(colorId: number): Promise<void> {
+    const { error } = await supabase
+      .from('colors')
+      .delete()
+      .eq('id', colorId)
+
+    if (error) {
+      throw new Error(`Failed to delete color: ${error.message}`)
+    }
+  },
+
+  // Returns the path to store in swatch_path
+  async uploadSwatch(file: File): Promise<string> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg'
+    const path = `${crypto.randomUUID()}.${extension}`
+
+    const { error } = await supabase.storage
+      .from(SWATCH_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (error) {
+      throw new Error(`Failed to upload swatch: ${error.message}`)
+    }
+
+    return path
+  },
+
+  getSwatchUrl(path: string): string {
+    return supabase.storage.from(SWATCH_BUCKET).getPublicUrl(path).data.publicUrl
+  },
+}
@@ -0,0 +1,18 @@
+import { supabase } from '@/lib/supabase'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+import { Invoice } from '@/types/invoice'
+
+export const invoiceService = {
+  // Get a download link for the order's current invoice; a new one is issued if the order changed since the last
+  async getCurrentInvoice(orderId: number): Promise<{ invoice: Invoice; url: string }> {
+    const { data, error } = await supabase.functions.invoke('generate-invoice', {
+      body: { order_id: orderId }
+    })
+
+    if (error) {
+      throw new Error(`Failed to get invoice: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
+    }
+
+    return data.data
+  }
+}
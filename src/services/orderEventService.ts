@@ -0,0 +1,19 @@
+import { supabase } from '@/lib/supabase'
+import { OrderEvent } from '@/types/orderEvent'
+
+export const orderEventService = {
+  // Fetch the audit trail for an order, oldest first
+  async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    const { data, error } = await supabase
+      .from('order_events')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch order history: ${error.message}`)
+    }
+
+    return data || []
+  }
+}
@@ -1,5 +1,9 @@
 import { supabase } from '@/lib/supabase'
-import { Order, CreateOrderData } from '@/types/order'
+import { Order, OrderStatus, CreateOrderData, OrderDraft, NewOrderFormData, NewOrderWizardPage } from '@/types/order'
+import { ShipmentInput } from '@/types/shipment'
+import { assertOrderStatusTransition } from '@/lib/orderStatus'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+import { buildReorderFormData, toDraftFormData } from '@/lib/orderDrafts'
 
 export const orderService = {
   async isAdmin(userId: string): Promise<boolean> {
@@ -32,9 +36,11 @@ export const orderService = {
   },
 
   async getAllOrders(): Promise<Order[]> {
+    // Orders flagged by a dispute or a failed refund come first so admins see them
     const { data, error } = await supabase
       .from('orders')
       .select('*')
+      .order('needs_attention', { ascending: false })
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -65,6 +71,94 @@ export const orderService = {
     return data
   },
 
+  // Reserve a draft to upload the order's files to; create-order turns it into the order
+  async createDraft(userId: string, formData?: NewOrderFormData, currentPage?: NewOrderWizardPage): Promise<OrderDraft> {
+    const { data, error } = await supabase
+      .from('order_drafts')
+      .insert({
+        user_id: userId,
+        form_data: formData ? toDraftFormData(formData) : null,
+        current_page: currentPage ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create order draft: ${error.message}`)
+    }
+
+    return data
+  },
+
+  // Start a draft pre-filled from one of the user's orders, reusing its uploaded videos and photos
+  async createReorderDraft(orderId: number, userId: string): Promise<OrderDraft> {
+    const order = await this.getOrderById(orderId, userId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    return await this.createDraft(userId, buildReorderFormData(order), 'project')
+  },
+
+  async getDrafts(userId: string): Promise<OrderDraft[]> {
+    const { data, error } = await supabase
+      .from('order_drafts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'open')
+      .not('form_data', 'is', null)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch order drafts: ${error.message}`)
+    }
+
+    return data || []
+  },
+
+  async getDraft(draftId: string): Promise<OrderDraft | null> {
+    const { data, error } = await supabase
+      .from('order_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch order draft: ${error.message}`)
+    }
+
+    return data
+  },
+
+  async saveDraft(draftId: string, formData: NewOrderFormData, currentPage: NewOrderWizardPage): Promise<void> {
+    const { error } = await supabase
+      .from('order_drafts')
+      .update({
+        form_data: toDraftFormData(formData),
+        current_page: currentPage,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draftId)
+      .eq('status', 'open')
+
+    if (error) {
+      throw new Error(`Failed to save order draft: ${error.message}`)
+    }
+  },
+
+  // Its files are removed by the cleanup-order-drafts function
+  async discardDraft(draftId: string): Promise<void> {
+    const { error } = await supabase
+      .from('order_drafts')
+      .update({ status: 'abandoned', updated_at: new Date().toISOString() })
+      .eq('id', draftId)
+      .eq('status', 'open')
+
+    if (error) {
+      throw new Error(`Failed to discard order draft: ${error.message}`)
+    }
+  },
+
   async getOrderById(orderId: number, userId: string): Promise<Order | null> {
     // First get the order
     const { data: orderData, error: orderError } = await supabase
@@ -147,32 +241,42 @@ export const orderService = {
     }
   }
   ,
-  async updateOrderStatusAdmin(orderId: number, status: Order['status']): Promise<void> {
-    const { error } = await supabase
-      .from('orders')
-      .update({
+  async updateOrderStatusAdmin(
+    orderId: number,
+    currentStatus: OrderStatus,
+    status: OrderStatus,
+    outstandingAmount: number | null = 0,
+    shipment?: ShipmentInput // Required when moving to SHIPPING
+  ): Promise<Order> {
+    assertOrderStatusTransition(currentStatus, status, outstandingAmount || 0)
+
+    const { data, error } = await supabase.functions.invoke('update-order-status', {
+      body: {
+        order_id: orderId,
         status,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId)
+        shipment
+      }
+    })
 
     if (error) {
-      throw new Error(`Failed to update order status: ${error.message}`)
+      throw new Error(`Failed to update order status: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
     }
-  }
-  ,
-  async updateOutstandingAmountAdmin(orderId: number, amount: number): Promise<void> {
-    const { error } = await supabase
-      .from('orders')
-      .update({
-        outstanding_amount: amount,
-        status: 'UNPAID',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId)
+
+    return data.data.order
+  },
+
+  async resolveAttentionAdmin(orderId: number, note?: string): Promise<Order> {
+    const { data, error } = await supabase.functions.invoke('resolve-order-attention', {
+      body: {
+        order_id: orderId,
+        note
+      }
+    })
 
     if (error) {
-      throw new Error(`Failed to set outstanding amount: ${error.message}`)
+      throw new Error(`Failed to resolve order: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
     }
+
+    return data.data.order
   }
-} 
\ No newline at end of file
+}
@@ -1,7 +1,12 @@
 import { supabase } from '../lib/supabase'
+import { PaymentRecord } from '../types/payment'
+import { getEdgeFunctionErrorMessage } from '../lib/edgeFunctions'
+
+export type PaymentOption = 'full' | 'deposit'
 
 export interface CreateCheckoutSessionParams {
   orderId: number
+  paymentOption?: PaymentOption
   successUrl?: string
   cancelUrl?: string
 }
@@ -11,6 +16,7 @@ export interface CheckoutSessionResponse {
   url: string
   order_id: number
   amount: number
+  payment_type: 'full' | 'deposit' | 'balance'
 }
 
 export interface RefundParams {
@@ -20,7 +26,9 @@ export interface RefundParams {
 
 export interface RefundResponse {
   success: boolean
-  refund_id: string
+  refund_ids: string[] // One refund per PaymentIntent the amount was spread across
+  refunded_amount: number
+  refundable_amount: number // Left to refund afterwards
 }
 
 export class PaymentService {
@@ -29,12 +37,14 @@ export class PaymentService {
    */
   static async createCheckoutSession({
     orderId,
+    paymentOption = 'full',
     successUrl,
     cancelUrl
   }: CreateCheckoutSessionParams): Promise<CheckoutSessionResponse> {
     const { data, error } = await supabase.functions.invoke('create-payment-intent', {
       body: {
         order_id: orderId,
+        payment_option: paymentOption,
         success_url: successUrl || `${window.location.origin}/payment/success?order_id=${orderId}`,
         cancel_url: cancelUrl || `${window.location.origin}/orders/${orderId}?canceled=true`,
       }
@@ -66,12 +76,29 @@ export class PaymentService {
     })
 
     if (error) {
-      throw new Error(error.message || 'Failed to issue refund')
+      throw new Error(await getEdgeFunctionErrorMessage(error, 'Failed to issue refund'))
     }
 
     return data as RefundResponse
   }
 
+  /**
+   * Get the payments ledger for an order, oldest first
+   */
+  static async getPayments(orderId: number): Promise<PaymentRecord[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch payments: ${error.message}`)
+    }
+
+    return data || []
+  }
+
   /**
    * Redirect to Stripe Checkout
    */
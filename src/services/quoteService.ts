@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabase'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+import { Order } from '@/types/order'
+import { Quote, SaveQuoteData } from '@/types/quote'
+
+export const quoteService = {
+  // Get the most recent quote for an order, with its line items in display order.
+  // Drafts are only returned to admins when includeDrafts is set (RLS hides them from customers).
+  async getCurrentQuote(orderId: number, includeDrafts = false): Promise<Quote | null> {
+    let query = supabase
+      .from('quotes')
+      .select('*, line_items:quote_line_items(*)')
+      .eq('order_id', orderId)
+
+    if (!includeDrafts) {
+      query = query.neq('status', 'DRAFT')
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch quote: ${error.message}`)
+    }
+
+    if (!data) {
+      return null
+    }
+
+    return {
+      ...data,
+      line_items: [...(data.line_items || [])].sort((a, b) => a.sort_order - b.sort_order)
+    }
+  },
+
+  // Admin: store a draft quote, or send it and request its total from the customer
+  async saveQuote(quoteData: SaveQuoteData): Promise<{ quote: Quote; order: Order }> {
+    const { data, error } = await supabase.functions.invoke('save-quote', {
+      body: quoteData
+    })
+
+    if (error) {
+      throw new Error(`Failed to save quote: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
+    }
+
+    return data.data
+  },
+
+  // Customer: accept the current quote for their order
+  async acceptQuote(quoteId: number): Promise<Quote> {
+    const { data, error } = await supabase.functions.invoke('respond-to-quote', {
+      body: {
+        quote_id: quoteId,
+        action: 'accept'
+      }
+    })
+
+    if (error) {
+      throw new Error(`Failed to accept quote: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
+    }
+
+    return data.data.quote
+  },
+
+  // Customer: decline the current quote for their order
+  async rejectQuote(quoteId: number, reason?: string): Promise<Quote> {
+    const { data, error } = await supabase.functions.invoke('respond-to-quote', {
+      body: {
+        quote_id: quoteId,
+        action: 'reject',
+        reason
+      }
+    })
+
+    if (error) {
+      throw new Error(`Failed to reject quote: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
+    }
+
+    return data.data.quote
+  }
+}
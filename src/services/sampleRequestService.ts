@@ -0,0 +1,103 @@
+import { supabase } from '@/lib/supabase'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+import { assertSampleRequestTransition } from '@/lib/sampleRequests'
+import { SampleRequest, SampleRequestAddress, SampleRequestStatus } from '@/types/sampleRequest'
+
+// Fabric samples mailed before an order. Customers create them through request-samples and pay any
+// fee through create-payment-intent; admins move them through their statuses
+export const sampleRequestService = {
+  // Newest first; RLS limits customers to their own requests
+  async getSampleRequests(): Promise<SampleRequest[]> {
+    const { data, error } = await supabase
+      .from('sample_requests')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch sample requests: ${error.message}`)
+    }
+
+    return data || []
+  },
+
+  async requestSamples(colors: string[], address: SampleRequestAddress): Promise<SampleRequest> {
+    const { data, error } = await supabase.functions.invoke('request-samples', {
+      body: {
+        colors,
+        name: address.name,
+        contact_name: address.contactName,
+        address: address.address,
+        address2: address.address2,
+        city: address.city,
+        state: address.state,
+        zipcode: address.zipcode,
+        country: address.country,
+        phonenumber: address.phonenumber,
+        email: address.email,
+      }
+    })
+
+    if (error) {
+      throw new Error(await getEdgeFunctionErrorMessage(error, 'Failed to request samples'))
+    }
+
+    return data.data.sample_request
+  },
+
+  // Sends the customer to Stripe Checkout for the sample fee
+  async payForSamples(sampleRequestId: number): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('create-payment-intent', {
+      body: {
+        sample_request_id: sampleRequestId,
+        success_url: `${window.location.origin}/orders?samples=paid`,
+        cancel_url: `${window.location.origin}/orders?samples=canceled`,
+      }
+    })
+
+    if (error) {
+      throw new Error(await getEdgeFunctionErrorMessage(error, 'Failed to create checkout session'))
+    }
+
+    if (!data?.url) {
+      throw new Error('No checkout URL received')
+    }
+
+    window.location.href = data.url
+  },
+
+  // Admins only. Only applies if the request is still in the status it was shown in
+  async updateStatus(
+    sampleRequest: SampleRequest,
+    status: SampleRequestStatus,
+    tracking?: { carrier: string; tracking_number: string }
+  ): Promise<SampleRequest> {
+    assertSampleRequestTransition(sampleRequest.status, status)
+    const now = new Date().toISOString()
+
+    const { data, error } = await supabase
+      .from('sample_requests')
+      .update({
+        status,
+        ...(status === 'SENT' ? {
+          carrier: tracking?.carrier || null,
+          tracking_number: tracking?.tracking_number.trim() || null,
+          sent_at: now,
+        } : {}),
+        updated_at: now,
+      })
+      .eq('id', sampleRequest.id)
+      .eq('status', sampleRequest.status)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update sample request: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new Error('The sample request was changed by someone else. Reload the page and try again.')
+    }
+
+    return data
+  },
+}
@@ -0,0 +1,20 @@
+import { supabase } from '@/lib/supabase'
+import { Shipment } from '@/types/shipment'
+
+// Shipments are created by update-order-status when an order moves to SHIPPING and kept up to date by
+// sync-shipments; the client only reads them
+export const shipmentService = {
+  async getShipments(orderId: number): Promise<Shipment[]> {
+    const { data, error } = await supabase
+      .from('shipments')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch shipments: ${error.message}`)
+    }
+
+    return data || []
+  },
+}
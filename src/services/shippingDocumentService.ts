@@ -0,0 +1,38 @@
+import { supabase } from '@/lib/supabase'
+import { getEdgeFunctionErrorMessage } from '@/lib/edgeFunctions'
+
+export type ShippingDocumentType = 'packing_slips' | 'labels'
+
+export const shippingDocumentService = {
+  // Packing slips (US Letter) or 4x6 shipping labels for the given orders, as one PDF
+  async getShippingDocuments(orderIds: number[], type: ShippingDocumentType): Promise<Blob> {
+    const { data, error } = await supabase.functions.invoke('generate-shipping-documents', {
+      body: { order_ids: orderIds, type }
+    })
+
+    if (error) {
+      throw new Error(`Failed to generate shipping documents: ${await getEdgeFunctionErrorMessage(error, 'Unknown error')}`)
+    }
+
+    // The function answers with application/octet-stream, which functions.invoke returns as a Blob
+    if (!(data instanceof Blob)) {
+      throw new Error('Failed to generate shipping documents: the response was not a PDF')
+    }
+
+    return data
+  },
+
+  async downloadShippingDocuments(orderIds: number[], type: ShippingDocumentType): Promise<void> {
+    const pdf = await this.getShippingDocuments(orderIds, type)
+    const name = type === 'labels' ? 'shipping-labels' : 'packing-slips'
+
+    const url = URL.createObjectURL(pdf)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${name}-${orderIds.length === 1 ? orderIds[0] : `${orderIds.length}-orders`}.pdf`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  },
+}
@@ -0,0 +1,271 @@
+import { supabase } from '@/lib/supabase'
+
+// Resumable uploads to Supabase Storage over its TUS endpoint.
+// Files go up in 6MB chunks; a dropped connection only costs the chunk in flight, and the upload URL is
+// kept in localStorage so re-adding the same file after a page reload continues where it stopped.
+
+const TUS_VERSION = '1.0.0'
+const CHUNK_SIZE = 6 * 1024 * 1024 // Supabase requires exactly 6MB chunks (the last one may be shorter)
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000, 30000]
+const STORAGE_KEY_PREFIX = 'resumable-upload:'
+const UPLOAD_URL_TTL_MS = 23 * 60 * 60 * 1000 // Supabase keeps unfinished uploads for 24 hours
+const COMPLETED_UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000 // Still checked for existence before reuse
+
+export interface ResumableUploadOptions {
+  bucket: string
+  objectName: string // Used for new uploads; a resumed upload keeps the name it started with
+  file: File
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+}
+
+interface StoredUpload {
+  uploadUrl: string | null
+  objectName: string
+  completed: boolean
+  createdAt: number
+}
+
+class UploadHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'UploadHttpError'
+  }
+}
+
+const getEndpoint = () => `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`
+
+// Same user, bucket, name, size and modification time means the same file picked again
+const getFingerprint = async (bucket: string, file: File) => {
+  const { data: { session } } = await supabase.auth.getSession()
+  return `${STORAGE_KEY_PREFIX}${session?.user.id}:${bucket}:${file.name}:${file.size}:${file.lastModified}`
+}
+
+const loadStoredUpload = (fingerprint: string): StoredUpload | null => {
+  try {
+    const raw = localStorage.getItem(fingerprint)
+    if (!raw) return null
+    const stored: StoredUpload = JSON.parse(raw)
+    if (Date.now() - stored.createdAt > (stored.completed ? COMPLETED_UPLOAD_TTL_MS : UPLOAD_URL_TTL_MS)) {
+      localStorage.removeItem(fingerprint)
+      return null
+    }
+    return stored
+  } catch {
+    return null
+  }
+}
+
+const getFolder = (objectName: string) => objectName.slice(0, objectName.lastIndexOf('/') + 1)
+
+const saveStoredUpload = (fingerprint: string, upload: StoredUpload) => {
+  try {
+    localStorage.setItem(fingerprint, JSON.stringify(upload))
+  } catch {
+    // Storage full or disabled: the upload still works, it just cannot resume after a reload
+  }
+}
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+    .join(',')
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error('No active session')
+  }
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    'Tus-Resumable': TUS_VERSION
+  }
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// Retrying while the device is offline only burns through the attempts
+const waitUntilOnline = () =>
+  new Promise<void>(resolve => {
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      resolve()
+      return
+    }
+    window.addEventListener('online', () => resolve(), { once: true })
+  })
+
+// Network failures and server-side hiccups are worth retrying; client errors are not
+const isRetryable = (error: unknown) =>
+  !(error instanceof UploadHttpError) || error.status >= 500 || error.status === 409 || error.status === 423 || error.status === 429
+
+function request(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | null,
+  onUploadProgress?: (loaded: number) => void
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open(method, url)
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) => onUploadProgress(event.loaded)
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr)
+      } else {
+        reject(new UploadHttpError(xhr.status, xhr.responseText || `Upload request failed with status ${xhr.status}`))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error during upload'))
+    xhr.ontimeout = () => reject(new Error('Upload request timed out'))
+
+    xhr.send(body)
+  })
+}
+
+async function createUpload(bucket: string, objectName: string, file: File): Promise<string> {
+  const xhr = await request('POST', getEndpoint(), {
+    ...await getAuthHeaders(),
+    'Upload-Length': String(file.size),
+    'Upload-Metadata': encodeMetadata({
+      bucketName: bucket,
+      objectName,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600'
+    })
+  }, null)
+
+  const location = xhr.getResponseHeader('Location')
+  if (!location) {
+    throw new Error('Upload server did not return an upload URL')
+  }
+  return new URL(location, getEndpoint()).toString()
+}
+
+// Bytes the server already has, or null when the upload URL is no longer known to it
+async function getUploadOffset(uploadUrl: string): Promise<number | null> {
+  try {
+    const xhr = await request('HEAD', uploadUrl, await getAuthHeaders(), null)
+    return Number(xhr.getResponseHeader('Upload-Offset') ?? 0)
+  } catch (error) {
+    if (error instanceof UploadHttpError && [403, 404, 410].includes(error.status)) {
+      return null
+    }
+    throw error
+  }
+}
+
+export const uploadService = {
+  // Upload a file, resuming an earlier attempt at the same file if there is one.
+  // Returns the object name the file was stored under.
+  async uploadResumable({ bucket, objectName, file, onProgress }: ResumableUploadOptions): Promise<string> {
+    const fingerprint = await getFingerprint(bucket, file)
+    let stored = loadStoredUpload(fingerprint)
+
+    // Only reuse uploads made into the same folder (the same draft): cleanup-order-drafts removes the
+    // files of other drafts once they are discarded
+    if (stored && getFolder(stored.objectName) !== getFolder(objectName)) {
+      localStorage.removeItem(fingerprint)
+      stored = null
+    }
+
+    // Uploaded before, but the order it was for was never created. The file may have been cleaned up since.
+    if (stored?.completed) {
+      const exists = await supabase.storage.from(bucket).exists(stored.objectName)
+        .then(({ data }) => data)
+        .catch(() => false) // Uploading again is safer than trusting a path that could not be checked
+      if (exists) {
+        onProgress?.(file.size, file.size)
+        return stored.objectName
+      }
+      localStorage.removeItem(fingerprint)
+      stored = null
+    }
+
+    let offset = stored?.uploadUrl ? await getUploadOffset(stored.uploadUrl) : null
+    if (!stored?.uploadUrl || offset === null) {
+      stored = {
+        uploadUrl: await createUpload(bucket, objectName, file),
+        objectName,
+        completed: false,
+        createdAt: Date.now()
+      }
+      saveStoredUpload(fingerprint, stored)
+      offset = 0
+    }
+
+    const uploadUrl = stored.uploadUrl!
+    let uploaded: number = offset
+    let attempt = 0
+    onProgress?.(uploaded, file.size)
+
+    while (uploaded < file.size) {
+      const chunkStart = uploaded
+      const chunk = file.slice(chunkStart, Math.min(chunkStart + CHUNK_SIZE, file.size))
+
+      try {
+        const xhr = await request('PATCH', uploadUrl, {
+          ...await getAuthHeaders(),
+          'Upload-Offset': String(chunkStart),
+          'Content-Type': 'application/offset+octet-stream'
+        }, chunk, (loaded) => onProgress?.(chunkStart + loaded, file.size))
+
+        uploaded = Number(xhr.getResponseHeader('Upload-Offset') ?? chunkStart + chunk.size)
+        onProgress?.(uploaded, file.size)
+        attempt = 0
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= RETRY_DELAYS_MS.length) {
+          throw error
+        }
+
+        await wait(RETRY_DELAYS_MS[attempt])
+        await waitUntilOnline()
+        attempt += 1
+
+        // The chunk may have partly arrived; ask the server where to continue from
+        const serverOffset = await getUploadOffset(uploadUrl).catch(() => chunkStart)
+        if (serverOffset === null) {
+          localStorage.removeItem(fingerprint)
+          throw new Error('The upload expired on the server')
+        }
+        uploaded = serverOffset
+        onProgress?.(uploaded, file.size)
+      }
+    }
+
+    saveStoredUpload(fingerprint, { ...stored, uploadUrl: null, completed: true })
+    return stored.objectName
+  },
+
+  // Forget every upload made into a folder, e.g. a draft's when it is discarded
+  clearFolderUploads(folder: string): void {
+    const prefix = folder.endsWith('/') ? folder : `${folder}/`
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(STORAGE_KEY_PREFIX))
+        .forEach(key => {
+          const stored = loadStoredUpload(key)
+          if (stored?.objectName.startsWith(prefix)) {
+            localStorage.removeItem(key)
+          }
+        })
+    } catch {
+      // Storage disabled: nothing was kept
+    }
+  },
+
+  // Forget uploads once the order they were for has been created
+  async clearCompletedUploads(bucket: string, files: File[]): Promise<void> {
+    for (const file of files) {
+      try {
+        localStorage.removeItem(await getFingerprint(bucket, file))
+      } catch {
+        // Nothing to clean up
+      }
+    }
+  }
+}
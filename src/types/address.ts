@@ -0,0 +1,22 @@
+// An entry in a customer's address book. Orders keep their own copy of the address they shipped to.
+export interface SavedAddress {
+  id: number
+  user_id: string
+  label: string // e.g. Home, Marina, Upholstery shop
+  name: string // Customer/Company Name
+  contact_name: string | null
+  address: string
+  address2: string | null
+  city: string | null
+  state: string
+  zipcode: string
+  country: string
+  company_phone: string | null
+  phonenumber: string | null
+  email: string | null
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type SavedAddressInput = Omit<SavedAddress, 'id' | 'user_id' | 'is_default' | 'created_at' | 'updated_at'>
@@ -0,0 +1,21 @@
+export interface Boat {
+  id: number
+  user_id: string
+  name: string | null // The customer's name for the boat
+  make: string
+  model: string
+  year: number | null
+  length: number | null // Feet
+  hin: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BoatInput {
+  name?: string | null
+  make: string
+  model: string
+  year?: number | null
+  length?: number | null
+  hin?: string | null
+}
@@ -1,27 +1,24 @@
+// A fabric color from the colors table. Orders store color names, so a discontinued color keeps its
+// row (is_active false) and old orders can still show its swatch.
 export interface Color {
+  id: number
   name: string
   hex: string
+  swatch_path: string | null // Object in the color-swatches bucket
+  fabric_line: string | null
+  is_active: boolean
+  sort_order: number
+  surcharge: number // Per piece
+  created_at: string
+  updated_at: string
 }
 
-export const COLORS: Color[] = [
-  { name: 'White', hex: '#E5E3C5' },
-  { name: 'Malta', hex: '#A59B6D' },
-  { name: 'Beige', hex: '#6D6549' },
-  { name: 'Inova', hex: '#6D6549' },
-  { name: 'Grey', hex: '#6D6549' },
-  { name: 'Brown', hex: '#533721' },
-  { name: 'Haiti', hex: '#35241A' },
-  { name: 'Java', hex: '#28231D' },
-  { name: 'Black', hex: '#191817' },
-  { name: 'Iguana', hex: '#494135' },
-  { name: 'Corsica', hex: '#1F2640' },
-  { name: 'Aruba', hex: '#4F5877' },
-  { name: 'Madeirra', hex: '#414F24' },
-  { name: 'Maldives', hex: '#80750C' },
-  { name: 'Tobago', hex: '#621A20' },
-  { name: 'Honolulu', hex: '#B29C6C' },
-  { name: 'Corfu', hex: '#9B8543' },
-  { name: 'Crete', hex: '#8B5D18' },
-  { name: 'Antigua', hex: '#954816' },
-  { name: 'Grenada', hex: '#771D1A' },
-] 
\ No newline at end of file
+export interface ColorInput {
+  name: string
+  hex: string
+  swatch_path?: string | null
+  fabric_line?: string | null
+  is_active?: boolean
+  sort_order?: number
+  surcharge?: number
+}
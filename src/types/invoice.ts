@@ -0,0 +1,14 @@
+export interface Invoice {
+  id: number
+  order_id: number
+  invoice_number: string // INV-000123, sequential across all orders
+  payment_id: number | null // Ledger row of the payment it was issued for
+  quote_id: number | null
+  total_amount: number
+  amount_paid: number // Net of refunds when it was issued
+  balance_due: number
+  payment_count: number
+  storage_path: string | null // Object in the media bucket
+  issued_by: string | null
+  issued_at: string
+}
@@ -1,4 +1,7 @@
-export type OrderStatus = 'UNPAID' | 'PAID' | 'PREPARING' | 'SHIPPING' | 'DELIVERED' | 'CANCELLED' | 'RETURNED'
+export type OrderStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'PREPARING' | 'SHIPPING' | 'DELIVERED' | 'CANCELLED' | 'RETURNED'
+
+// Why an order was flagged for an admin by the Stripe webhook
+export type OrderAttentionReason = 'dispute' | 'dispute_lost' | 'refund_failed'
 
 export interface Cushion {
   id: string
@@ -6,7 +9,21 @@ export interface Cushion {
   quantity: number
   isMirrored: boolean
   videos: VideoFile[]
-  colorPhotos?: VideoFile[]
+  shape?: CushionShape // Missing on drafts saved before shapes were asked for
+  material?: CushionMaterial
+}
+
+export type CushionShape = 'rectangle' | 'rounded' | 'wedge' | 'bolster'
+
+// What a cushion is made of. Colors are names from the colors table; anything not chosen yet is null.
+export interface CushionMaterial {
+  fabric_line: string | null
+  color: string | null // The top, or the whole cushion when side_color is null
+  side_color: string | null // Sides (boxing) in a different color than the top
+  piping_color: string | null
+  thread_color: string | null
+  foam_type: string | null // FOAM_TYPES code in src/lib/materials.ts
+  foam_thickness: number | null // Inches
 }
 
 export interface DatabaseCushion {
@@ -16,15 +33,17 @@ export interface DatabaseCushion {
   quantity: number
   mirror: boolean
   videos: string[] // Array of video filenames
+  shape: CushionShape
+  material: CushionMaterial | null // Missing on orders placed before materials were specified
 }
 
 export interface VideoFile {
   id: string
-  file: File
+  file?: File // Missing for files restored from a saved draft
   name: string
   size: number
   type: string
-  uploadedFileName?: string
+  uploadedFileName?: string // Path in the scans bucket once uploaded
 }
 
 export interface Order {
@@ -51,16 +70,42 @@ export interface Order {
   boat_year: number | null
   boat_length: number | null
   boat_HIN: string | null
+  boat_id: number | null // Saved boat the order was made for
   status: OrderStatus
   payment_intent_id: string[]
   paid_at: string | null
   updated_at: string
   cushions_count: number // Display as "Total Cushion Count"
   color_images: Record<string, any> | null
-  outstanding_amount: number | null
+  outstanding_amount: number | null // Amount still due
+  total_amount: number | null // Total of the quote the customer is paying
+  amount_paid: number
+  needs_attention: boolean
+  attention_reason: OrderAttentionReason | null
+  last_payment_error: string | null // Why the last payment attempt failed; cleared by a successful payment
+  last_payment_error_at: string | null
+  dispute_id: string | null
+  dispute_status: string | null // Stripe dispute status, e.g. needs_response, won, lost
+  disputed_at: string | null
   cushions?: DatabaseCushion[]
 }
 
+export type NewOrderWizardPage = 'project' | 'colors' | 'boat' | 'shipping'
+
+// An order reserved before its files are uploaded; uploads go under scans/<user_id>/<draft id>/.
+// The wizard autosaves its state here, with only uploaded files kept.
+export interface OrderDraft {
+  id: string
+  user_id: string
+  status: 'open' | 'finalized' | 'abandoned'
+  order_id: number | null
+  form_data: NewOrderFormData | null
+  current_page: NewOrderWizardPage | null
+  created_at: string
+  updated_at: string
+  finalized_at: string | null
+}
+
 export interface CreateOrderData {
   projectname?: string
   quantity: number
@@ -89,14 +134,17 @@ export interface CreateOrderData {
     quantity: number
     mirror: boolean
     videos: string[] // Array of video filenames
+    shape?: CushionShape
+    material?: CushionMaterial | null
   }[]
 }
 
 export interface NewOrderFormData {
   purchaseOrderNumber?: string
-  cushions: Cushion[]
-  selectedColors: string[]
+  reorderOf?: number // Id of the order this one was pre-filled from
+  cushions: Cushion[] // Each with the colors assigned to it; the order's colors are all of those
   shippingAddress: {
+    addressId?: number // Address book entry picked in the wizard; cleared when the address is edited
     name: string // Customer/Company Name
     contactName: string
     address: string
@@ -111,6 +159,7 @@ export interface NewOrderFormData {
     shipByDate?: string
   }
   boatInformation: {
+    boatId?: number // Saved boat picked in the wizard; cleared when its details are edited
     make: string
     model: string
     year: string // 4-digit year
@@ -122,6 +171,8 @@ export interface NewOrderFormData {
 export interface UploadProgress {
   fileName: string
   status: 'pending' | 'uploading' | 'completed' | 'error'
-  progress?: number
+  progress?: number // Percent of bytes uploaded
+  bytesUploaded?: number
+  totalBytes?: number
   error?: string
 } 
\ No newline at end of file
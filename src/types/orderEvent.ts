@@ -0,0 +1,33 @@
+export type OrderEventType =
+  | 'status_changed'
+  | 'outstanding_amount_changed'
+  | 'payment_received'
+  | 'payment_failed'
+  | 'checkout_expired'
+  | 'refund_issued'
+  | 'refund_processed'
+  | 'refund_updated'
+  | 'dispute_opened'
+  | 'dispute_closed'
+  | 'attention_resolved'
+  | 'quote_created'
+  | 'quote_sent'
+  | 'quote_accepted'
+  | 'quote_rejected'
+  | 'quote_expired'
+  | 'shipment_created'
+  | 'shipment_status_changed'
+
+export type OrderEventActorType = 'customer' | 'admin' | 'system'
+
+export interface OrderEvent {
+  id: number
+  order_id: number
+  event_type: OrderEventType
+  actor_id: string | null
+  actor_type: OrderEventActorType
+  old_value: any
+  new_value: any
+  metadata: Record<string, any>
+  created_at: string
+}
@@ -0,0 +1,17 @@
+export type PaymentType = 'charge' | 'refund' | 'adjustment'
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action'
+
+export interface PaymentRecord {
+  id: number
+  order_id: number
+  type: PaymentType
+  amount: number // Always positive; refunds are subtracted when totalling
+  currency: string
+  stripe_object_id: string | null
+  stripe_payment_intent_id: string | null
+  status: PaymentStatus
+  created_by: string | null
+  metadata: Record<string, any>
+  created_at: string
+}
@@ -0,0 +1,59 @@
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+
+export interface QuoteLineItem {
+  id: number
+  quote_id: number
+  cushion_id: string | null
+  description: string
+  quantity: number
+  base_price: number
+  mirror_surcharge: number
+  fabric_surcharge: number
+  line_total: number // (base_price + mirror_surcharge + fabric_surcharge) * quantity
+  sort_order: number
+}
+
+export interface Quote {
+  id: number
+  order_id: number
+  created_by: string | null
+  status: QuoteStatus
+  subtotal: number
+  shipping_amount: number
+  tax_amount: number
+  discount_amount: number
+  total: number
+  deposit_percent: number // Share of the total due up front; 0 means the full amount is due at once
+  notes: string | null
+  sent_at: string | null
+  expires_at: string | null
+  accepted_at: string | null
+  accepted_by: string | null
+  rejected_at: string | null
+  rejected_by: string | null
+  rejection_reason: string | null
+  created_at: string
+  updated_at: string
+  line_items: QuoteLineItem[]
+}
+
+export interface QuoteLineItemInput {
+  cushion_id?: string | null
+  description: string
+  quantity: number
+  base_price: number
+  mirror_surcharge: number
+  fabric_surcharge: number
+}
+
+export interface SaveQuoteData {
+  order_id: number
+  line_items: QuoteLineItemInput[]
+  shipping_amount: number
+  tax_amount: number
+  discount_amount: number
+  deposit_percent: number
+  notes?: string
+  expires_at?: string
+  send: boolean // false saves a draft the customer cannot see yet
+}
@@ -0,0 +1,42 @@
+export type SampleRequestStatus = 'UNPAID' | 'REQUESTED' | 'SENT' | 'DELIVERED' | 'CANCELLED'
+
+// Fabric swatches mailed to a customer before they order. Keeps its own copy of the address, like orders.
+export interface SampleRequest {
+  id: number
+  user_id: string
+  status: SampleRequestStatus
+  colors: string[] // Color names
+  name: string // Customer/Company Name
+  contact_name: string | null
+  address: string
+  address2: string | null
+  city: string
+  state: string
+  zipcode: string
+  country: string
+  phonenumber: string | null
+  email: string | null
+  fee: number // 0 when samples are free
+  amount_paid: number
+  payment_intent_id: string | null
+  paid_at: string | null
+  carrier: string | null // Carrier code, see src/lib/carriers.ts
+  tracking_number: string | null
+  sent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// The address samples go to, in the wizard's shipping address fields
+export interface SampleRequestAddress {
+  name: string
+  contactName: string
+  address: string
+  address2?: string
+  city: string
+  state: string
+  zipcode: string
+  country: string
+  phonenumber: string
+  email: string
+}
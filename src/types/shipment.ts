@@ -0,0 +1,27 @@
+export type TrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception'
+
+export interface Shipment {
+  id: number
+  order_id: number
+  carrier: string // Carrier code, see src/lib/carriers.ts
+  tracking_number: string
+  ship_date: string // YYYY-MM-DD
+  package_count: number
+  weight_lbs: number | null // Total for all packages
+  tracking_status: TrackingStatus
+  tracking_status_detail: string | null
+  last_checked_at: string | null
+  delivered_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// What the admin enters when moving an order to SHIPPING
+export interface ShipmentInput {
+  carrier: string
+  tracking_number: string
+  ship_date: string
+  package_count: number
+  weight_lbs: number | null
+}
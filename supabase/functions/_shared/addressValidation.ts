@@ -0,0 +1,236 @@
+// Shipping address normalization and validation shared by the edge functions. The rules work offline;
+// providers such as Google's Address Validation API (googleAddressValidation.ts) can be plugged in on top.
+// Keep in sync with src/lib/addressValidation.ts, which checks the same rules in the order wizard.
+
+export interface AddressInput {
+  name: string;
+  contactName?: string;
+  address: string;
+  address2?: string;
+  city: string;
+  state: string;
+  zipcode: string;
+  country: string;
+  phonenumber: string;
+  companyPhone?: string;
+  email?: string;
+}
+
+export type AddressField = keyof AddressInput;
+
+export interface AddressIssue {
+  field: AddressField;
+  message: string;
+}
+
+export interface AddressValidationResult {
+  valid: boolean;
+  address: AddressInput; // Normalized: country name, state code, postal code and E.164 phone numbers
+  issues: AddressIssue[];
+}
+
+// An extra check on an address that passed the offline rules, e.g. a postal service lookup
+export interface AddressValidationProvider {
+  name: string;
+  validate: (address: AddressInput) => Promise<AddressIssue[]>;
+}
+
+type Country = 'United States' | 'Canada';
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+  PR: 'Puerto Rico', VI: 'U.S. Virgin Islands', GU: 'Guam', AS: 'American Samoa',
+  MP: 'Northern Mariana Islands', AA: 'Armed Forces Americas', AE: 'Armed Forces Europe',
+  AP: 'Armed Forces Pacific',
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+  ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+};
+
+// The state each 3-digit ZIP prefix is delivered in. Prefixes not listed (military mail, Pacific
+// territories, unassigned) are not cross-checked.
+const US_ZIP_PREFIXES: [number, number, string][] = [
+  [5, 5, 'NY'], [6, 7, 'PR'], [8, 8, 'VI'], [9, 9, 'PR'], [10, 27, 'MA'], [28, 29, 'RI'],
+  [30, 38, 'NH'], [39, 49, 'ME'], [50, 54, 'VT'], [55, 55, 'MA'], [56, 59, 'VT'], [60, 69, 'CT'],
+  [70, 89, 'NJ'], [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'], [200, 200, 'DC'],
+  [201, 201, 'VA'], [202, 205, 'DC'], [206, 219, 'MD'], [220, 246, 'VA'], [247, 268, 'WV'],
+  [270, 289, 'NC'], [290, 299, 'SC'], [300, 319, 'GA'], [320, 339, 'FL'], [341, 349, 'FL'],
+  [350, 369, 'AL'], [370, 385, 'TN'], [386, 397, 'MS'], [398, 399, 'GA'], [400, 427, 'KY'],
+  [430, 459, 'OH'], [460, 479, 'IN'], [480, 499, 'MI'], [500, 528, 'IA'], [530, 549, 'WI'],
+  [550, 567, 'MN'], [569, 569, 'DC'], [570, 577, 'SD'], [580, 588, 'ND'], [590, 599, 'MT'],
+  [600, 629, 'IL'], [630, 658, 'MO'], [660, 679, 'KS'], [680, 693, 'NE'], [700, 715, 'LA'],
+  [716, 729, 'AR'], [730, 732, 'OK'], [733, 733, 'TX'], [734, 749, 'OK'], [750, 799, 'TX'],
+  [800, 816, 'CO'], [820, 831, 'WY'], [832, 838, 'ID'], [840, 847, 'UT'], [850, 865, 'AZ'],
+  [870, 884, 'NM'], [885, 885, 'TX'], [889, 898, 'NV'], [900, 961, 'CA'], [967, 968, 'HI'],
+  [970, 979, 'OR'], [980, 994, 'WA'], [995, 999, 'AK'],
+];
+
+// The provinces each first letter of a Canadian postal code is delivered in
+const CA_POSTAL_PREFIXES: Record<string, string[]> = {
+  A: ['NL'], B: ['NS'], C: ['PE'], E: ['NB'], G: ['QC'], H: ['QC'], J: ['QC'], K: ['ON'], L: ['ON'],
+  M: ['ON'], N: ['ON'], P: ['ON'], R: ['MB'], S: ['SK'], T: ['AB'], V: ['BC'], X: ['NT', 'NU'],
+  Y: ['YT'],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeCountry(value: string): Country | null {
+  const country = value.trim().toUpperCase().replace(/\./g, '');
+  if (['US', 'USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'].includes(country)) return 'United States';
+  if (['CA', 'CAN', 'CANADA'].includes(country)) return 'Canada';
+  return null;
+}
+
+// State or province code from a code or a full name
+export function normalizeRegion(value: string, country: Country): string | null {
+  const regions = country === 'Canada' ? CA_PROVINCES : US_STATES;
+  const region = value.trim().toUpperCase();
+  if (regions[region]) return region;
+  return Object.keys(regions).find(code => regions[code].toUpperCase() === region) ?? null;
+}
+
+// ZIP or ZIP+4 in the United States, A1A 1A1 in Canada
+export function normalizePostalCode(value: string, country: Country): string | null {
+  const postal = value.trim().toUpperCase();
+  if (country === 'Canada') {
+    const match = postal.replace(/[\s-]/g, '').match(/^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])(\d[ABCEGHJ-NPRSTV-Z]\d)$/);
+    return match ? `${match[1]} ${match[2]}` : null;
+  }
+  const match = postal.match(/^(\d{5})(?:[\s-]?(\d{4}))?$/);
+  return match ? (match[2] ? `${match[1]}-${match[2]}` : match[1]) : null;
+}
+
+// E.164 for North American numbers, which is all we ship to: +1 and a 10-digit number
+export function normalizePhoneNumber(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(national) ? `+1${national}` : null;
+}
+
+function getPostalRegions(postal: string, country: Country): string[] | null {
+  if (country === 'Canada') {
+    return CA_POSTAL_PREFIXES[postal[0]] ?? null;
+  }
+  const prefix = parseInt(postal.slice(0, 3), 10);
+  const range = US_ZIP_PREFIXES.find(([from, to]) => prefix >= from && prefix <= to);
+  return range ? [range[2]] : null;
+}
+
+// The offline rules; every problem found is reported so the form can mark each field
+export function checkAddress(input: AddressInput): AddressValidationResult {
+  const issues: AddressIssue[] = [];
+  const address: AddressInput = { ...input };
+  const required = (field: AddressField, label: string) => {
+    if (!String(input[field] ?? '').trim()) {
+      issues.push({ field, message: `${label} is required` });
+      return false;
+    }
+    return true;
+  };
+
+  required('name', 'Customer/Company name');
+  required('address', 'Address');
+
+  const country = normalizeCountry(input.country || '');
+  if (!country) {
+    issues.push({ field: 'country', message: 'We ship to the United States and Canada' });
+    return { valid: false, address, issues };
+  }
+  address.country = country;
+
+  const regionLabel = country === 'Canada' ? 'Province' : 'State';
+  const postalLabel = country === 'Canada' ? 'Postal code' : 'ZIP code';
+
+  required('city', 'City');
+
+  let region: string | null = null;
+  if (required('state', regionLabel)) {
+    region = normalizeRegion(input.state, country);
+    if (region) {
+      address.state = region;
+    } else {
+      issues.push({ field: 'state', message: `${input.state.trim()} is not a ${country === 'Canada' ? 'Canadian province' : 'US state'}` });
+    }
+  }
+
+  if (required('zipcode', postalLabel)) {
+    const postal = normalizePostalCode(input.zipcode, country);
+    if (!postal) {
+      issues.push({
+        field: 'zipcode',
+        message: country === 'Canada'
+          ? 'Postal code should look like A1A 1A1'
+          : 'ZIP code should be 5 digits, or ZIP+4 like 12345-6789',
+      });
+    } else {
+      address.zipcode = postal;
+      const postalRegions = getPostalRegions(postal, country);
+      if (region && postalRegions && !postalRegions.includes(region)) {
+        issues.push({ field: 'zipcode', message: `${postalLabel} ${postal} is in ${postalRegions.join(' or ')}, not ${region}` });
+      }
+    }
+  }
+
+  if (required('phonenumber', 'Contact phone')) {
+    const phone = normalizePhoneNumber(input.phonenumber);
+    if (phone) {
+      address.phonenumber = phone;
+    } else {
+      issues.push({ field: 'phonenumber', message: 'Contact phone should be a 10-digit number' });
+    }
+  }
+
+  // The phone inputs start with +1, which on its own means no number was entered
+  if (!input.companyPhone?.replace(/\D/g, '').replace(/^1/, '')) {
+    address.companyPhone = '';
+  } else {
+    const phone = normalizePhoneNumber(input.companyPhone);
+    if (phone) {
+      address.companyPhone = phone;
+    } else {
+      issues.push({ field: 'companyPhone', message: 'Company phone should be a 10-digit number' });
+    }
+  }
+
+  if (input.email?.trim()) {
+    address.email = input.email.trim();
+    if (!EMAIL_PATTERN.test(address.email)) {
+      issues.push({ field: 'email', message: 'Email address is not valid' });
+    }
+  }
+
+  return { valid: issues.length === 0, address, issues };
+}
+
+// The offline rules, then each provider in turn. Providers are optional: one that fails is skipped
+// rather than blocking the order.
+export async function validateAddress(
+  input: AddressInput,
+  providers: AddressValidationProvider[] = []
+): Promise<AddressValidationResult> {
+  const result = checkAddress(input);
+  if (!result.valid) {
+    return result;
+  }
+
+  for (const provider of providers) {
+    try {
+      result.issues.push(...await provider.validate(result.address));
+    } catch (error) {
+      console.warn(`Address validation provider ${provider.name} failed:`, error);
+    }
+  }
+
+  return { ...result, valid: result.issues.length === 0 };
+}
@@ -0,0 +1,71 @@
+// Carrier adapters for shipments. Every carrier links to its tracking page; carriers with a tracking
+// integration also report status, which sync-shipments polls to move orders to DELIVERED.
+// Keep the carrier list in sync with src/lib/carriers.ts, which shows the same tracking links.
+
+export type TrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception';
+
+export interface ShipmentRef {
+  tracking_number: string;
+  ship_date: string; // YYYY-MM-DD
+}
+
+export interface TrackingUpdate {
+  status: TrackingStatus;
+  detail: string | null;
+  delivered_at: string | null;
+}
+
+export interface CarrierAdapter {
+  code: string;
+  name: string;
+  trackingUrl(trackingNumber: string): string | null;
+  getTrackingStatus?(shipment: ShipmentRef, now: Date): Promise<TrackingUpdate>;
+}
+
+const linkOnlyCarrier = (code: string, name: string, url: ((trackingNumber: string) => string) | null): CarrierAdapter => ({
+  code,
+  name,
+  trackingUrl: (trackingNumber) => (url ? url(encodeURIComponent(trackingNumber.trim())) : null)
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local stand-in for a carrier with a tracking integration. A shipment moves one step a day from its
+// ship date: label created, in transit, out for delivery, then delivered on the third day. Tracking
+// numbers containing EXCEPTION stop at an exception once in transit.
+export const fakeCarrier: CarrierAdapter = {
+  code: 'fake',
+  name: 'Fake Carrier',
+  trackingUrl: () => null,
+  getTrackingStatus(shipment, now) {
+    const shipped = new Date(`${shipment.ship_date}T00:00:00Z`).getTime();
+    const days = Math.floor((now.getTime() - shipped) / DAY_MS);
+
+    if (days >= 1 && shipment.tracking_number.toUpperCase().includes('EXCEPTION')) {
+      return Promise.resolve({ status: 'exception', detail: 'Delivery attempted, address not found', delivered_at: null });
+    }
+    if (days >= 3) {
+      return Promise.resolve({ status: 'delivered', detail: 'Delivered', delivered_at: new Date(shipped + 3 * DAY_MS).toISOString() });
+    }
+    if (days === 2) {
+      return Promise.resolve({ status: 'out_for_delivery', detail: 'Out for delivery', delivered_at: null });
+    }
+    if (days === 1) {
+      return Promise.resolve({ status: 'in_transit', detail: 'In transit', delivered_at: null });
+    }
+    return Promise.resolve({ status: 'label_created', detail: 'Shipping label created', delivered_at: null });
+  }
+};
+
+const CARRIERS: CarrierAdapter[] = [
+  linkOnlyCarrier('ups', 'UPS', (n) => `https://www.ups.com/track?tracknum=${n}`),
+  linkOnlyCarrier('fedex', 'FedEx', (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`),
+  linkOnlyCarrier('usps', 'USPS', (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`),
+  linkOnlyCarrier('freight', 'Freight / other', null)
+];
+
+// The fake carrier is only offered where ENABLE_FAKE_CARRIER is set, i.e. local and staging projects
+export function getCarriers(): Record<string, CarrierAdapter> {
+  const carriers = Deno.env.get('ENABLE_FAKE_CARRIER') === 'true' ? [...CARRIERS, fakeCarrier] : CARRIERS;
+  return Object.fromEntries(carriers.map((carrier) => [carrier.code, carrier]));
+}
@@ -0,0 +1,63 @@
+import type { AddressInput, AddressIssue, AddressValidationProvider } from './addressValidation.ts';
+
+// Optional address check against Google's Address Validation API. It is only used when
+// GOOGLE_MAPS_API_KEY is set, and only rejects addresses Google reports as missing parts; addresses
+// it cannot confirm, such as a slip at a marina, are still accepted.
+
+const ENDPOINT = 'https://addressvalidation.googleapis.com/v1:validateAddress';
+const TIMEOUT_MS = 5000;
+
+const REGION_CODES: Record<string, string> = {
+  'United States': 'US',
+  Canada: 'CA'
+};
+
+const COMPONENT_LABELS: Record<string, string> = {
+  street_number: 'street number',
+  route: 'street',
+  locality: 'city',
+  administrative_area_level_1: 'state',
+  postal_code: 'ZIP code',
+  subpremise: 'unit number'
+};
+
+export function createGoogleAddressProvider(apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')): AddressValidationProvider | null {
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    name: 'google',
+    async validate(address: AddressInput): Promise<AddressIssue[]> {
+      const response = await fetch(`${ENDPOINT}?key=${encodeURIComponent(apiKey)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+        body: JSON.stringify({
+          address: {
+            regionCode: REGION_CODES[address.country],
+            addressLines: [address.address, address.address2].filter(Boolean),
+            locality: address.city,
+            administrativeArea: address.state,
+            postalCode: address.zipcode
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Google address validation returned ${response.status}: ${await response.text()}`);
+      }
+
+      const { result } = await response.json();
+      const missing: string[] = result?.address?.missingComponentTypes ?? [];
+      if (missing.length === 0) {
+        return [];
+      }
+
+      return [{
+        field: 'address',
+        message: `The address looks incomplete: missing ${missing.map((type) => COMPONENT_LABELS[type] ?? type.replace(/_/g, ' ')).join(', ')}`
+      }];
+    }
+  };
+}
@@ -0,0 +1,280 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'npm:pdf-lib@1.17.1';
+
+// Renders an invoice as a one-or-more page US Letter PDF. Only layout lives here;
+// invoices.ts gathers the order data and stores the result.
+
+export interface BusinessDetails {
+  name: string;
+  addressLines: string[];
+  email: string | null;
+  phone: string | null;
+  taxId: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface InvoicePaymentLine {
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number; // Negative for refunds
+}
+
+export interface InvoiceDocument {
+  business: BusinessDetails;
+  invoiceNumber: string;
+  issuedAt: string;
+  orderId: number;
+  poNumber: string | null;
+  billTo: string[];
+  boat: string[];
+  colors: string[];
+  cushions: string[];
+  lines: InvoiceLine[];
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  discount: number;
+  total: number;
+  payments: InvoicePaymentLine[];
+  amountPaid: number;
+  balanceDue: number;
+  notes: string | null;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// The standard PDF fonts only cover WinAnsi; anything else would make pdf-lib throw
+export const toWinAnsi = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: ReturnType<typeof rgb>;
+  align?: 'left' | 'right';
+  maxWidth?: number;
+}
+
+// Draws top to bottom, tracking the baseline of the next line in y
+class InvoiceWriter {
+  private page: PDFPage;
+  y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private pdf: PDFDocument, private font: PDFFont, private bold: PDFFont) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  // Start a new page when the next block would run into the bottom margin
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(value: string, x: number, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.font;
+    let content = toWinAnsi(value);
+    // Cut text that would run into the next column
+    if (options.maxWidth && font.widthOfTextAtSize(content, size) > options.maxWidth) {
+      while (content.length > 0 && font.widthOfTextAtSize(`${content}...`, size) > options.maxWidth) {
+        content = content.slice(0, -1);
+      }
+      content = `${content.trimEnd()}...`;
+    }
+    const width = font.widthOfTextAtSize(content, size);
+    this.page.drawText(content, {
+      x: options.align === 'right' ? x - width : x,
+      y: this.y,
+      size,
+      font,
+      color: options.color ?? TEXT_COLOR
+    });
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: RULE_COLOR
+    });
+  }
+
+  newline(lines = 1) {
+    this.y -= LINE_HEIGHT * lines;
+  }
+}
+
+export async function renderInvoicePdf(invoice: InvoiceDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Invoice ${invoice.invoiceNumber}`);
+  pdf.setAuthor(invoice.business.name);
+
+  const writer = new InvoiceWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold)
+  );
+  const right = PAGE_WIDTH - MARGIN;
+
+  // Business details on the left, invoice number and dates on the right
+  writer.text(invoice.business.name, MARGIN, { size: 18, bold: true });
+  writer.text('INVOICE', right, { size: 18, bold: true, align: 'right' });
+  writer.newline(1.6);
+
+  const businessLines = [
+    ...invoice.business.addressLines,
+    invoice.business.phone,
+    invoice.business.email,
+    invoice.business.taxId ? `Tax ID: ${invoice.business.taxId}` : null
+  ].filter((line): line is string => Boolean(line));
+  const invoiceLines = [
+    `Invoice: ${invoice.invoiceNumber}`,
+    `Date: ${formatDate(invoice.issuedAt)}`,
+    `Order: #${invoice.orderId}`,
+    ...(invoice.poNumber ? [`PO: ${invoice.poNumber}`] : [])
+  ];
+  for (let i = 0; i < Math.max(businessLines.length, invoiceLines.length); i++) {
+    if (businessLines[i]) writer.text(businessLines[i], MARGIN, { color: MUTED_COLOR });
+    if (invoiceLines[i]) writer.text(invoiceLines[i], right, { align: 'right' });
+    writer.newline();
+  }
+  writer.newline();
+
+  // Bill to and boat side by side
+  const column = MARGIN + 280;
+  writer.text('Bill To', MARGIN, { bold: true });
+  if (invoice.boat.length > 0) writer.text('Boat', column, { bold: true });
+  writer.newline();
+  for (let i = 0; i < Math.max(invoice.billTo.length, invoice.boat.length); i++) {
+    if (invoice.billTo[i]) writer.text(invoice.billTo[i], MARGIN, { maxWidth: 260 });
+    if (invoice.boat[i]) writer.text(invoice.boat[i], column, { maxWidth: right - column });
+    writer.newline();
+  }
+  writer.newline();
+
+  if (invoice.colors.length > 0) {
+    writer.text('Colors: ', MARGIN, { bold: true });
+    writer.text(invoice.colors.join(', '), MARGIN + 45, { maxWidth: right - MARGIN - 45 });
+    writer.newline();
+  }
+  if (invoice.cushions.length > 0) {
+    writer.text('Cushions: ', MARGIN, { bold: true });
+    writer.text(invoice.cushions.join(', '), MARGIN + 55, { maxWidth: right - MARGIN - 55 });
+    writer.newline();
+  }
+  writer.newline();
+
+  // Charges
+  const qtyX = right - 190;
+  const unitX = right - 90;
+  writer.text('Description', MARGIN, { bold: true });
+  writer.text('Qty', qtyX, { bold: true, align: 'right' });
+  writer.text('Unit Price', unitX, { bold: true, align: 'right' });
+  writer.text('Amount', right, { bold: true, align: 'right' });
+  writer.newline(0.6);
+  writer.rule();
+  writer.newline(1.2);
+
+  for (const line of invoice.lines) {
+    writer.ensureSpace(LINE_HEIGHT);
+    writer.text(line.description, MARGIN, { maxWidth: qtyX - MARGIN - 40 });
+    writer.text(String(line.quantity), qtyX, { align: 'right' });
+    writer.text(formatMoney(line.unitPrice), unitX, { align: 'right' });
+    writer.text(formatMoney(line.total), right, { align: 'right' });
+    writer.newline();
+  }
+  if (invoice.lines.length === 0) {
+    writer.text('No quote has been issued for this order yet', MARGIN, { color: MUTED_COLOR });
+    writer.newline();
+  }
+
+  writer.newline(0.4);
+  writer.rule();
+  writer.newline(1.2);
+
+  const totalRows: [string, number][] = [
+    ['Subtotal', invoice.subtotal],
+    ...(invoice.shipping > 0 ? [['Shipping', invoice.shipping] as [string, number]] : []),
+    ...(invoice.tax > 0 ? [['Tax', invoice.tax] as [string, number]] : []),
+    ...(invoice.discount > 0 ? [['Discount', -invoice.discount] as [string, number]] : [])
+  ];
+  writer.ensureSpace(LINE_HEIGHT * (totalRows.length + 2));
+  for (const [label, amount] of totalRows) {
+    writer.text(label, unitX, { align: 'right' });
+    writer.text(formatMoney(amount), right, { align: 'right' });
+    writer.newline();
+  }
+  writer.text('Total', unitX, { bold: true, align: 'right' });
+  writer.text(formatMoney(invoice.total), right, { bold: true, align: 'right' });
+  writer.newline(2);
+
+  // Payment history
+  writer.ensureSpace(LINE_HEIGHT * 3);
+  writer.text('Payments', MARGIN, { bold: true, size: 12 });
+  writer.newline(1.4);
+  if (invoice.payments.length === 0) {
+    writer.text('No payments received yet', MARGIN, { color: MUTED_COLOR });
+    writer.newline();
+  }
+  for (const payment of invoice.payments) {
+    writer.ensureSpace(LINE_HEIGHT);
+    writer.text(formatDate(payment.date), MARGIN);
+    writer.text(payment.description, MARGIN + 90);
+    if (payment.reference) writer.text(payment.reference, MARGIN + 200, { color: MUTED_COLOR, maxWidth: unitX - MARGIN - 220 });
+    writer.text(formatMoney(payment.amount), right, { align: 'right' });
+    writer.newline();
+  }
+  writer.newline(0.4);
+  writer.rule();
+  writer.newline(1.2);
+
+  writer.ensureSpace(LINE_HEIGHT * 2);
+  writer.text('Amount Paid', unitX, { align: 'right' });
+  writer.text(formatMoney(invoice.amountPaid), right, { align: 'right' });
+  writer.newline();
+  writer.text('Balance Due', unitX, { bold: true, align: 'right' });
+  writer.text(formatMoney(invoice.balanceDue), right, { bold: true, align: 'right' });
+  if (invoice.balanceDue <= 0) {
+    writer.text('PAID IN FULL', MARGIN, { bold: true, size: 14, color: rgb(0.18, 0.49, 0.2) });
+  }
+  writer.newline(2);
+
+  if (invoice.notes) {
+    writer.ensureSpace(LINE_HEIGHT * 2);
+    writer.text('Notes', MARGIN, { bold: true });
+    writer.newline();
+    writer.text(invoice.notes, MARGIN, { maxWidth: right - MARGIN, color: MUTED_COLOR });
+    writer.newline();
+  }
+
+  writer.ensureSpace(LINE_HEIGHT);
+  writer.text('Thank you for your business.', MARGIN, { color: MUTED_COLOR });
+
+  return await pdf.save();
+}
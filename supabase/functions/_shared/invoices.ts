@@ -0,0 +1,312 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { BusinessDetails, InvoiceDocument, renderInvoicePdf } from './invoicePdf.ts';
+import { roundCurrency } from './quote.ts';
+
+// Issues invoice PDFs for an order: numbers them from the invoices table, renders them and stores them
+// in the media bucket next to the order's chat attachments, so the chat can show them like any other file.
+
+export interface InvoiceRow {
+  id: number;
+  order_id: number;
+  invoice_number: string;
+  payment_id: number | null;
+  quote_id: number | null;
+  total_amount: number;
+  amount_paid: number;
+  balance_due: number;
+  payment_count: number;
+  storage_path: string | null;
+  issued_by: string | null;
+  issued_at: string;
+}
+
+const INVOICE_BUCKET = 'media';
+const UNIQUE_VIOLATION = '23505';
+
+// Our details printed on every invoice, configured per project
+export function getBusinessDetails(): BusinessDetails {
+  return {
+    name: Deno.env.get('INVOICE_BUSINESS_NAME') ?? 'BoatSew',
+    addressLines: (Deno.env.get('INVOICE_BUSINESS_ADDRESS') ?? '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean),
+    email: Deno.env.get('INVOICE_BUSINESS_EMAIL') ?? null,
+    phone: Deno.env.get('INVOICE_BUSINESS_PHONE') ?? null,
+    taxId: Deno.env.get('INVOICE_BUSINESS_TAX_ID') ?? null
+  };
+}
+
+// File name inside the order's media folder; chat messages reference attachments by this name
+export const getInvoiceFileName = (invoice: Pick<InvoiceRow, 'invoice_number'>) => `${invoice.invoice_number}.pdf`;
+
+const PAYMENT_LABELS: Record<string, string> = {
+  charge: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment'
+};
+
+interface InvoiceSource {
+  order: Record<string, any>;
+  cushions: { name: string; quantity: number; mirror: boolean }[];
+  quote: Record<string, any> | null;
+  payments: Record<string, any>[];
+}
+
+async function loadInvoiceSource(supabase: SupabaseClient, orderId: number): Promise<InvoiceSource> {
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+
+  if (orderError || !order) {
+    throw new Error(`Failed to fetch order ${orderId}: ${orderError?.message}`);
+  }
+
+  const [cushionsResult, quoteResult, paymentsResult] = await Promise.all([
+    supabase.from('cushions').select('name, quantity, mirror').eq('order_id', orderId).order('name'),
+    supabase
+      .from('quotes')
+      .select('*, line_items:quote_line_items(*)')
+      .eq('order_id', orderId)
+      .neq('status', 'DRAFT')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('payments')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+  ]);
+
+  const failed = [cushionsResult, quoteResult, paymentsResult].find((result) => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to load invoice data for order ${orderId}: ${failed.error.message}`);
+  }
+
+  return {
+    order,
+    cushions: cushionsResult.data || [],
+    quote: quoteResult.data,
+    payments: paymentsResult.data || []
+  };
+}
+
+// Failed and canceled ledger entries moved no money and are left off the invoice
+const settledPayments = (payments: Record<string, any>[]) =>
+  payments.filter((payment) => payment.status !== 'failed' && payment.status !== 'canceled');
+
+const getNetPaid = (payments: Record<string, any>[]) =>
+  roundCurrency(settledPayments(payments).reduce(
+    (sum, payment) => sum + (payment.type === 'refund' ? -Number(payment.amount) : Number(payment.amount)),
+    0
+  ));
+
+function buildInvoiceDocument(source: InvoiceSource, invoice: InvoiceRow): InvoiceDocument {
+  const { order, cushions, quote, payments } = source;
+  const lineItems = [...(quote?.line_items || [])].sort((a, b) => a.sort_order - b.sort_order);
+
+  return {
+    business: getBusinessDetails(),
+    invoiceNumber: invoice.invoice_number,
+    issuedAt: invoice.issued_at,
+    orderId: order.id,
+    poNumber: order.projectname,
+    billTo: [
+      order.name,
+      order.contact_name ? `Attn: ${order.contact_name}` : null,
+      order.address,
+      order.address2,
+      [order.city, [order.state, order.zipcode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+      order.country,
+      order.company_phone || order.phonenumber,
+      order.email
+    ].filter(Boolean),
+    boat: [
+      [order.boat_year, order.boat_make, order.boat_model].filter(Boolean).join(' '),
+      order.boat_length ? `Length: ${order.boat_length} ft` : null,
+      order.boat_HIN ? `HIN: ${order.boat_HIN}` : null
+    ].filter(Boolean),
+    colors: order.color || [],
+    cushions: cushions.map((cushion) =>
+      `${cushion.name} x${cushion.quantity}${cushion.mirror ? ' (mirrored)' : ''}`
+    ),
+    lines: lineItems.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: roundCurrency(Number(item.base_price) + Number(item.mirror_surcharge) + Number(item.fabric_surcharge)),
+      total: Number(item.line_total)
+    })),
+    subtotal: Number(quote?.subtotal ?? 0),
+    shipping: Number(quote?.shipping_amount ?? 0),
+    tax: Number(quote?.tax_amount ?? 0),
+    discount: Number(quote?.discount_amount ?? 0),
+    total: Number(invoice.total_amount),
+    payments: settledPayments(payments).map((payment) => ({
+      date: payment.created_at,
+      description: PAYMENT_LABELS[payment.type] ?? payment.type,
+      reference: payment.stripe_object_id,
+      amount: payment.type === 'refund' ? -Number(payment.amount) : Number(payment.amount)
+    })),
+    amountPaid: Number(invoice.amount_paid),
+    balanceDue: Number(invoice.balance_due),
+    notes: quote?.notes ?? null
+  };
+}
+
+async function storeInvoicePdf(supabase: SupabaseClient, source: InvoiceSource, invoice: InvoiceRow): Promise<InvoiceRow> {
+  const pdf = await renderInvoicePdf(buildInvoiceDocument(source, invoice));
+  const storagePath = `${invoice.order_id}/${getInvoiceFileName(invoice)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(INVOICE_BUCKET)
+    .upload(storagePath, pdf, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload invoice ${invoice.invoice_number}: ${uploadError.message}`);
+  }
+
+  const { data: stored, error: updateError } = await supabase
+    .from('invoices')
+    .update({ storage_path: storagePath })
+    .eq('id', invoice.id)
+    .select()
+    .single();
+
+  if (updateError || !stored) {
+    throw new Error(`Failed to save invoice ${invoice.invoice_number}: ${updateError?.message}`);
+  }
+
+  return stored;
+}
+
+// The order's latest invoice if nothing has been paid, refunded or re-quoted since it was issued
+async function findCurrentInvoice(
+  supabase: SupabaseClient,
+  source: InvoiceSource
+): Promise<InvoiceRow | null> {
+  const { data: latest, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('order_id', source.order.id)
+    .order('issued_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch invoices for order ${source.order.id}: ${error.message}`);
+  }
+
+  if (
+    latest &&
+    latest.payment_count === source.payments.length &&
+    Number(latest.total_amount) === Number(source.order.total_amount ?? 0) &&
+    latest.quote_id === (source.quote?.id ?? null)
+  ) {
+    return latest;
+  }
+
+  return null;
+}
+
+// Issue an invoice for the order as it stands now. With a paymentId, at most one invoice is issued for
+// that payment, so a replayed webhook returns the existing one instead of numbering another.
+export async function issueInvoice(
+  supabase: SupabaseClient,
+  orderId: number,
+  options: { paymentId?: number | null; issuedBy?: string | null; reuseCurrent?: boolean } = {}
+): Promise<InvoiceRow> {
+  const source = await loadInvoiceSource(supabase, orderId);
+
+  if (options.reuseCurrent) {
+    const current = await findCurrentInvoice(supabase, source);
+    if (current) {
+      return current.storage_path ? current : await storeInvoicePdf(supabase, source, current);
+    }
+  }
+
+  const totalAmount = roundCurrency(Number(source.order.total_amount ?? source.quote?.total ?? 0));
+  const { data: invoice, error: insertError } = await supabase
+    .from('invoices')
+    .insert({
+      order_id: orderId,
+      payment_id: options.paymentId ?? null,
+      quote_id: source.quote?.id ?? null,
+      total_amount: totalAmount,
+      amount_paid: getNetPaid(source.payments),
+      balance_due: roundCurrency(Number(source.order.outstanding_amount ?? 0)),
+      payment_count: source.payments.length,
+      issued_by: options.issuedBy ?? null
+    })
+    .select()
+    .single();
+
+  if (insertError?.code === UNIQUE_VIOLATION && options.paymentId) {
+    const { data: existing, error: existingError } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('payment_id', options.paymentId)
+      .single();
+
+    if (existingError || !existing) {
+      throw new Error(`Failed to fetch the invoice of payment ${options.paymentId}: ${existingError?.message}`);
+    }
+
+    // A previous attempt may have numbered the invoice but failed before the PDF was stored
+    return existing.storage_path ? existing : await storeInvoicePdf(supabase, source, existing);
+  }
+
+  if (insertError || !invoice) {
+    throw new Error(`Failed to create invoice for order ${orderId}: ${insertError?.message}`);
+  }
+
+  return await storeInvoicePdf(supabase, source, invoice);
+}
+
+// Issue the invoice for a payment that just went through and attach it to the order chat
+export async function issuePaymentInvoice(supabase: SupabaseClient, orderId: number, paymentIntentId: string): Promise<void> {
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('stripe_object_id', paymentIntentId)
+    .single();
+
+  if (paymentError || !payment) {
+    throw new Error(`Failed to find payment ${paymentIntentId}: ${paymentError?.message}`);
+  }
+
+  const { data: alreadyIssued } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('payment_id', payment.id)
+    .not('storage_path', 'is', null)
+    .maybeSingle();
+
+  if (alreadyIssued) {
+    return;
+  }
+
+  const invoice = await issueInvoice(supabase, orderId, { paymentId: payment.id });
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('user_id')
+    .eq('id', orderId)
+    .single();
+
+  const { error: messageError } = await supabase
+    .from('messages')
+    .insert({
+      order_id: orderId,
+      sender_id: order?.user_id,
+      message_text: `Invoice ${invoice.invoice_number} for this order is attached.`,
+      media_url: getInvoiceFileName(invoice),
+      media_type: 'file'
+    });
+
+  if (messageError) {
+    console.error('Error attaching invoice to chat:', messageError);
+  }
+}
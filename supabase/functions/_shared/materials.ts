@@ -0,0 +1,88 @@
+// Cushion shapes and materials shared by the edge functions: what create-order accepts on a cushion and
+// how the packing slip describes it. Fabric lines and colors come from the colors table.
+// Keep in sync with src/lib/materials.ts, which offers the same choices in the order wizard.
+
+export const CUSHION_SHAPES = ['rectangle', 'rounded', 'wedge', 'bolster'];
+
+export interface CushionMaterial {
+  fabric_line: string | null;
+  color: string | null; // The top, or the whole cushion when side_color is null
+  side_color: string | null;
+  piping_color: string | null;
+  thread_color: string | null;
+  foam_type: string | null;
+  foam_thickness: number | null; // Inches
+}
+
+export const FOAM_TYPES: Record<string, string> = {
+  polyurethane: 'Standard foam',
+  high_density: 'High-density foam',
+  marine_open_cell: 'Marine quick-dry foam',
+  closed_cell: 'Closed-cell foam'
+};
+
+export const FOAM_THICKNESSES = [1, 2, 3, 4, 5, 6];
+
+export const THREAD_COLORS = ['White', 'Black', 'Beige', 'Grey', 'Navy', 'Tan'];
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Reads a cushion's material from a request body. Returns null for cushions without one and an error
+// message for choices that are not offered.
+export function parseMaterial(value: unknown): { material: CushionMaterial | null; error?: string } {
+  if (value === null || value === undefined) {
+    return { material: null };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { material: null, error: 'material must be an object' };
+  }
+
+  const input = value as Record<string, unknown>;
+  const material: CushionMaterial = {
+    fabric_line: optionalText(input.fabric_line),
+    color: optionalText(input.color),
+    side_color: optionalText(input.side_color),
+    piping_color: optionalText(input.piping_color),
+    thread_color: optionalText(input.thread_color),
+    foam_type: optionalText(input.foam_type),
+    foam_thickness: input.foam_thickness === null || input.foam_thickness === undefined || input.foam_thickness === ''
+      ? null
+      : Number(input.foam_thickness)
+  };
+
+  if (material.foam_type && !FOAM_TYPES[material.foam_type]) {
+    return { material, error: `Unknown foam type: ${material.foam_type}` };
+  }
+  if (material.foam_thickness !== null && !FOAM_THICKNESSES.includes(material.foam_thickness)) {
+    return { material, error: `Foam thickness must be one of ${FOAM_THICKNESSES.join(', ')} inches` };
+  }
+  if (material.thread_color && !THREAD_COLORS.includes(material.thread_color)) {
+    return { material, error: `Unknown thread color: ${material.thread_color}` };
+  }
+
+  return { material };
+}
+
+// Catalog colors a material uses, for checking they are still offered
+export const getMaterialColors = (material: CushionMaterial | null | undefined): string[] =>
+  [material?.color, material?.side_color, material?.piping_color].filter((color): color is string => Boolean(color));
+
+export function describeMaterial(material: CushionMaterial | null | undefined): string {
+  if (!material) {
+    return '';
+  }
+  const foam = [
+    material.foam_thickness ? `${material.foam_thickness}"` : null,
+    material.foam_type ? FOAM_TYPES[material.foam_type] ?? material.foam_type : material.foam_thickness ? 'foam' : null
+  ].filter(Boolean).join(' ');
+
+  return [
+    material.fabric_line,
+    material.color && material.side_color ? `${material.color} top` : material.color,
+    material.side_color ? `${material.side_color} sides` : null,
+    material.piping_color ? `${material.piping_color} piping` : null,
+    material.thread_color ? `${material.thread_color} thread` : null,
+    foam
+  ].filter(Boolean).join(', ');
+}
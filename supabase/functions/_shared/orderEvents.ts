@@ -0,0 +1,61 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// Audit trail writer for the order_events table.
+// Every edge function that mutates an order's status or amounts records what changed here.
+
+export type OrderEventType =
+  | 'status_changed'
+  | 'outstanding_amount_changed'
+  | 'payment_received'
+  | 'payment_failed'
+  | 'checkout_expired'
+  | 'refund_issued'
+  | 'refund_processed'
+  | 'refund_updated'
+  | 'dispute_opened'
+  | 'dispute_closed'
+  | 'attention_resolved'
+  | 'quote_created'
+  | 'quote_sent'
+  | 'quote_accepted'
+  | 'quote_rejected'
+  | 'quote_expired'
+  | 'shipment_created'
+  | 'shipment_status_changed';
+
+export type OrderEventActorType = 'customer' | 'admin' | 'system';
+
+export interface OrderEventInput {
+  order_id: number | string;
+  event_type: OrderEventType;
+  actor_id?: string | null;
+  actor_type: OrderEventActorType;
+  old_value?: unknown;
+  new_value?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export async function recordOrderEvents(supabase: SupabaseClient, events: OrderEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const { error } = await supabase
+    .from('order_events')
+    .insert(events.map((event) => ({
+      order_id: event.order_id,
+      event_type: event.event_type,
+      actor_id: event.actor_id ?? null,
+      actor_type: event.actor_type,
+      old_value: event.old_value ?? null,
+      new_value: event.new_value ?? null,
+      metadata: event.metadata ?? {}
+    })));
+
+  if (error) {
+    // The mutation itself already succeeded; never fail the request because of the audit write
+    console.error('Error recording order events:', error);
+  }
+}
+
+export async function recordOrderEvent(supabase: SupabaseClient, event: OrderEventInput): Promise<void> {
+  await recordOrderEvents(supabase, [event]);
+}
@@ -0,0 +1,56 @@
+// Order status state machine shared by the edge functions.
+// Keep in sync with src/lib/orderStatus.ts, which applies the same table in the client.
+
+export type OrderStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'PREPARING' | 'SHIPPING' | 'DELIVERED' | 'CANCELLED' | 'RETURNED';
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  UNPAID: ['PAID', 'PARTIALLY_PAID', 'CANCELLED'],
+  PARTIALLY_PAID: ['PREPARING', 'PAID', 'UNPAID', 'CANCELLED'],
+  PAID: ['PREPARING', 'PARTIALLY_PAID', 'UNPAID', 'CANCELLED'],
+  PREPARING: ['SHIPPING', 'PARTIALLY_PAID', 'UNPAID', 'CANCELLED'],
+  SHIPPING: ['DELIVERED', 'RETURNED'],
+  DELIVERED: ['RETURNED'],
+  CANCELLED: [],
+  RETURNED: []
+};
+
+// Statuses an order can only enter once nothing is left to pay
+export const SETTLED_BALANCE_STATUSES: OrderStatus[] = ['SHIPPING'];
+
+// Statuses in which the customer may still pay toward the order (a balance can be paid during fabrication)
+export const PAYABLE_ORDER_STATUSES: OrderStatus[] = ['UNPAID', 'PARTIALLY_PAID', 'PREPARING'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  // Own keys only, so prototype names such as "constructor" are not taken for statuses
+  return typeof value === 'string' && Object.hasOwn(ORDER_STATUS_TRANSITIONS, value);
+}
+
+export function getAllowedNextStatuses(status: OrderStatus): OrderStatus[] {
+  return Object.hasOwn(ORDER_STATUS_TRANSITIONS, status) ? ORDER_STATUS_TRANSITIONS[status] : [];
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return getAllowedNextStatuses(from).includes(to);
+}
+
+export function requiresSettledBalance(status: OrderStatus): boolean {
+  return SETTLED_BALANCE_STATUSES.includes(status);
+}
+
+// Status when a sent quote sets the order total: what was already paid decides whether the order is
+// awaiting payment or part paid. With nothing left to pay an order in fabrication stays there, others are PAID
+export function getStatusAfterQuote(status: OrderStatus, amountPaid: number, outstandingAmount: number): OrderStatus {
+  if (outstandingAmount <= 0) {
+    return status === 'PREPARING' ? status : 'PAID';
+  }
+  return amountPaid > 0 ? 'PARTIALLY_PAID' : 'UNPAID';
+}
+
+// Status after a payment: settling the balance marks an unpaid order PAID, a deposit marks it PARTIALLY_PAID,
+// and orders already in fabrication keep their status
+export function getStatusAfterPayment(status: OrderStatus, outstandingAfterPayment: number): OrderStatus {
+  if (status !== 'UNPAID' && status !== 'PARTIALLY_PAID') {
+    return status;
+  }
+  return outstandingAfterPayment > 0 ? 'PARTIALLY_PAID' : 'PAID';
+}
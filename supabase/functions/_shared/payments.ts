@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// Ledger writer for the payments table.
+// Every money movement on an order (charge, refund, manual adjustment) is one row, keyed by its Stripe object id.
+
+export type PaymentType = 'charge' | 'refund' | 'adjustment';
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action';
+
+export interface PaymentInput {
+  order_id: number | string;
+  type: PaymentType;
+  amount: number; // Always positive; the type gives the direction
+  currency?: string;
+  stripe_object_id?: string | null;
+  stripe_payment_intent_id?: string | null;
+  status: PaymentStatus;
+  created_by?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+const toRow = (payment: PaymentInput) => ({
+  order_id: payment.order_id,
+  type: payment.type,
+  amount: payment.amount,
+  currency: (payment.currency ?? 'usd').toLowerCase(),
+  stripe_object_id: payment.stripe_object_id ?? null,
+  stripe_payment_intent_id: payment.stripe_payment_intent_id ?? null,
+  status: payment.status,
+  created_by: payment.created_by ?? null,
+  metadata: payment.metadata ?? {}
+});
+
+// Returns false when the Stripe object is already in the ledger, so callers can apply each payment once
+export async function recordPayment(supabase: SupabaseClient, payment: PaymentInput): Promise<boolean> {
+  const { error } = await supabase.from('payments').insert(toRow(payment));
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return false;
+    }
+    throw new Error(`Failed to record payment: ${error.message}`);
+  }
+
+  return true;
+}
+
+// Insert refunds or refresh their status; created_by and metadata of existing rows are left untouched.
+// Throws on failure so the webhook event is retried rather than marked processed without the refunds
+export async function upsertRefunds(supabase: SupabaseClient, refunds: PaymentInput[]): Promise<void> {
+  if (refunds.length === 0) return;
+
+  const { error } = await supabase
+    .from('payments')
+    .upsert(refunds.map((refund) => {
+      const { created_by: _createdBy, metadata: _metadata, ...row } = toRow(refund);
+      return row;
+    }), { onConflict: 'stripe_object_id' });
+
+  if (error) {
+    throw new Error(`Failed to record refunds: ${error.message}`);
+  }
+}
+
+// Stripe refund statuses map directly onto ledger statuses
+export function toPaymentStatus(stripeStatus: string | null | undefined): PaymentStatus {
+  switch (stripeStatus) {
+    case 'succeeded':
+    case 'pending':
+    case 'failed':
+    case 'canceled':
+    case 'requires_action':
+      return stripeStatus;
+    default:
+      return 'pending';
+  }
+}
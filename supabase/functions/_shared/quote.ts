@@ -0,0 +1,114 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { recordOrderEvent } from './orderEvents.ts';
+
+// Quote arithmetic and lifecycle shared by the edge functions.
+// Keep in sync with src/lib/quote.ts, which shows the same totals in the quote builder.
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export interface QuoteLineItemInput {
+  cushion_id?: string | null;
+  description: string;
+  quantity: number;
+  base_price: number;
+  mirror_surcharge: number;
+  fabric_surcharge: number;
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getLineUnitPrice(item: QuoteLineItemInput): number {
+  return roundCurrency(item.base_price + item.mirror_surcharge + item.fabric_surcharge);
+}
+
+export function getLineTotal(item: QuoteLineItemInput): number {
+  return roundCurrency(getLineUnitPrice(item) * item.quantity);
+}
+
+export function calculateQuoteTotals(
+  lineItems: QuoteLineItemInput[],
+  shippingAmount: number,
+  taxAmount: number,
+  discountAmount: number
+): { subtotal: number; total: number } {
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + getLineTotal(item), 0));
+  const total = roundCurrency(Math.max(0, subtotal + shippingAmount + taxAmount - discountAmount));
+  return { subtotal, total };
+}
+
+// Deposit charged up front when the customer chooses to pay in installments
+export function getDepositAmount(quote: { total: number; deposit_percent: number }): number {
+  return roundCurrency(Number(quote.total) * Number(quote.deposit_percent) / 100);
+}
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Returns an error message for malformed input, or null when the quote can be stored
+export function validateQuoteInput(
+  lineItems: unknown,
+  shippingAmount: unknown,
+  taxAmount: unknown,
+  discountAmount: unknown,
+  depositPercent: unknown
+): string | null {
+  if (!Array.isArray(lineItems) || lineItems.length === 0) {
+    return 'A quote needs at least one line item';
+  }
+
+  for (const item of lineItems) {
+    if (!item || typeof item.description !== 'string' || item.description.trim() === '') {
+      return 'Every line item needs a description';
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `Line item "${item.description}" needs a positive whole quantity`;
+    }
+    if (!isAmount(item.base_price) || !isAmount(item.mirror_surcharge) || !isAmount(item.fabric_surcharge)) {
+      return `Line item "${item.description}" has an invalid price`;
+    }
+  }
+
+  if (!isAmount(shippingAmount) || !isAmount(taxAmount) || !isAmount(discountAmount)) {
+    return 'Shipping, tax and discount must be non-negative amounts';
+  }
+
+  if (!isAmount(depositPercent) || depositPercent >= 100) {
+    return 'Deposit must be at least 0% and less than 100%';
+  }
+
+  return null;
+}
+
+// A sent quote stops being actionable once its expiry date has passed
+export function isQuoteExpired(quote: { status: QuoteStatus; expires_at: string | null }, now = new Date()): boolean {
+  return quote.status === 'SENT' && !!quote.expires_at && new Date(quote.expires_at) <= now;
+}
+
+// Persist the EXPIRED status the first time an expired quote is acted upon
+export async function markQuoteExpired(
+  supabase: SupabaseClient,
+  quote: { id: number; order_id: number; total: number }
+): Promise<void> {
+  const { error } = await supabase
+    .from('quotes')
+    .update({ status: 'EXPIRED', updated_at: new Date().toISOString() })
+    .eq('id', quote.id)
+    .eq('status', 'SENT');
+
+  if (error) {
+    console.error('Error expiring quote:', error);
+    return;
+  }
+
+  await recordOrderEvent(supabase, {
+    order_id: quote.order_id,
+    event_type: 'quote_expired',
+    actor_type: 'system',
+    new_value: quote.total,
+    metadata: { quote_id: quote.id }
+  });
+}
@@ -0,0 +1,76 @@
+// Refundable balance of an order, worked out from its payments ledger.
+// All amounts are in cents so allocations add up exactly.
+
+export interface LedgerEntry {
+  type: string;
+  amount: number;
+  status: string;
+  stripe_payment_intent_id: string | null;
+  created_at: string;
+}
+
+export interface RefundableCharge {
+  payment_intent_id: string;
+  captured: number; // cents
+  refunded: number; // cents, including pending refunds and lost disputes
+  refundable: number; // cents
+  created_at: string;
+}
+
+export interface RefundAllocation {
+  payment_intent_id: string;
+  amount: number; // cents
+}
+
+export const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+// Failed and canceled refunds gave nothing back, so they do not use up the charge
+const holdsRefund = (entry: LedgerEntry) => entry.status !== 'failed' && entry.status !== 'canceled';
+
+export function getRefundableCharges(entries: LedgerEntry[]): RefundableCharge[] {
+  return entries
+    .filter((entry) => entry.type === 'charge' && entry.status === 'succeeded' && entry.stripe_payment_intent_id)
+    .map((charge) => {
+      const paymentIntentId = charge.stripe_payment_intent_id!;
+      const captured = toCents(charge.amount);
+      const refunded = entries
+        .filter((entry) => entry.type === 'refund' && entry.stripe_payment_intent_id === paymentIntentId && holdsRefund(entry))
+        .reduce((sum, entry) => sum + toCents(entry.amount), 0);
+
+      return {
+        payment_intent_id: paymentIntentId,
+        captured,
+        refunded,
+        refundable: Math.max(0, captured - refunded),
+        created_at: charge.created_at
+      };
+    });
+}
+
+export function getRefundableAmount(charges: RefundableCharge[]): number {
+  return charges.reduce((sum, charge) => sum + charge.refundable, 0);
+}
+
+// Newest payments are refunded first: a partial refund usually gives back part of the latest payment (a
+// balance or an additional amount), and recent charges are the least likely to be refused as too old to refund.
+// Returns null when the charges cannot cover the amount.
+export function allocateRefund(charges: RefundableCharge[], amount: number): RefundAllocation[] | null {
+  if (amount <= 0 || amount > getRefundableAmount(charges)) {
+    return null;
+  }
+
+  const allocations: RefundAllocation[] = [];
+  let remaining = amount;
+  const newestFirst = [...charges].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  for (const charge of newestFirst) {
+    if (remaining === 0) break;
+    const share = Math.min(charge.refundable, remaining);
+    if (share > 0) {
+      allocations.push({ payment_intent_id: charge.payment_intent_id, amount: share });
+      remaining -= share;
+    }
+  }
+
+  return allocations;
+}
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { getBusinessDetails } from './invoices.ts';
+import { getCarriers } from './carriers.ts';
+import { CushionMaterial, describeMaterial } from './materials.ts';
+import {
+  PackingSlipDocument,
+  renderPackingSlipsPdf,
+  renderShippingLabelsPdf,
+  ShipmentDetails,
+  ShippingLabelDocument
+} from './shippingDocumentsPdf.ts';
+
+// Builds packing slips and shipping labels for a batch of orders from their order, cushion and shipment
+// records. Nothing is stored; staff download and print them as needed.
+
+export type ShippingDocumentType = 'packing_slips' | 'labels';
+
+interface ShippingSource {
+  order: Record<string, any>;
+  cushions: { name: string; quantity: number; mirror: boolean; material: CushionMaterial | null }[];
+  shipment: Record<string, any> | null; // The latest one
+}
+
+// Loads the orders in the order they were asked for
+async function loadShippingSources(supabase: SupabaseClient, orderIds: number[]): Promise<ShippingSource[]> {
+  const [ordersResult, cushionsResult, shipmentsResult] = await Promise.all([
+    supabase.from('orders').select('*').in('id', orderIds),
+    supabase.from('cushions').select('order_id, name, quantity, mirror, material').in('order_id', orderIds).order('name'),
+    supabase.from('shipments').select('*').in('order_id', orderIds).order('created_at', { ascending: false })
+  ]);
+
+  const failed = [ordersResult, cushionsResult, shipmentsResult].find((result) => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to load shipping data: ${failed.error.message}`);
+  }
+
+  return orderIds.map((orderId) => {
+    const order = (ordersResult.data || []).find((row) => row.id === orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return {
+      order,
+      cushions: (cushionsResult.data || []).filter((cushion) => cushion.order_id === orderId),
+      shipment: (shipmentsResult.data || []).find((shipment) => shipment.order_id === orderId) ?? null
+    };
+  });
+}
+
+const getShipTo = (order: Record<string, any>): string[] =>
+  [
+    order.name,
+    order.contact_name ? `Attn: ${order.contact_name}` : null,
+    order.address,
+    order.address2,
+    [order.city, [order.state, order.zipcode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    order.country
+  ].filter(Boolean);
+
+function getShipmentDetails(shipment: Record<string, any> | null): ShipmentDetails | null {
+  if (!shipment) {
+    return null;
+  }
+  const carriers = getCarriers();
+  return {
+    carrier: Object.hasOwn(carriers, shipment.carrier) ? carriers[shipment.carrier].name : shipment.carrier,
+    trackingNumber: shipment.tracking_number,
+    shipDate: shipment.ship_date,
+    packageCount: shipment.package_count,
+    weightLbs: shipment.weight_lbs === null ? null : Number(shipment.weight_lbs)
+  };
+}
+
+function buildPackingSlip({ order, cushions, shipment }: ShippingSource): PackingSlipDocument {
+  return {
+    orderId: order.id,
+    poNumber: order.projectname,
+    shipTo: [...getShipTo(order), order.phonenumber || order.company_phone].filter(Boolean),
+    boat: [
+      [order.boat_year, order.boat_make, order.boat_model].filter(Boolean).join(' '),
+      order.boat_length ? `Length: ${order.boat_length} ft` : null,
+      order.boat_HIN ? `HIN: ${order.boat_HIN}` : null
+    ].filter(Boolean),
+    colors: order.color || [],
+    cushions: cushions.map((cushion) => ({
+      name: cushion.name,
+      quantity: cushion.quantity,
+      mirror: cushion.mirror,
+      material: describeMaterial(cushion.material) || null
+    })),
+    shipment: getShipmentDetails(shipment)
+  };
+}
+
+function buildShippingLabel({ order, shipment }: ShippingSource): ShippingLabelDocument {
+  return {
+    orderId: order.id,
+    poNumber: order.projectname,
+    shipTo: getShipTo(order),
+    phone: order.phonenumber || order.company_phone || null,
+    shipment: getShipmentDetails(shipment)
+  };
+}
+
+export async function renderShippingDocuments(
+  supabase: SupabaseClient,
+  type: ShippingDocumentType,
+  orderIds: number[]
+): Promise<Uint8Array> {
+  const sources = await loadShippingSources(supabase, orderIds);
+  const business = getBusinessDetails();
+
+  return type === 'labels'
+    ? await renderShippingLabelsPdf(business, sources.map(buildShippingLabel))
+    : await renderPackingSlipsPdf(business, sources.map(buildPackingSlip));
+}
+
+export const getShippingDocumentsFileName = (type: ShippingDocumentType, orderIds: number[]) =>
+  `${type === 'labels' ? 'shipping-labels' : 'packing-slips'}-${orderIds.length === 1 ? orderIds[0] : `${orderIds.length}-orders`}.pdf`;
@@ -0,0 +1,330 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'npm:pdf-lib@1.17.1';
+import { BusinessDetails, toWinAnsi } from './invoicePdf.ts';
+
+// Renders packing slips (US Letter, one or more pages per order) and 4x6 shipping labels (one page per
+// package). Several orders go into one PDF so a batch prints in one go. Only layout lives here;
+// shippingDocuments.ts gathers the order data.
+
+export interface PackingSlipCushion {
+  name: string;
+  quantity: number;
+  mirror: boolean;
+  material: string | null; // Described on one line under the name
+}
+
+export interface PackingSlipDocument {
+  orderId: number;
+  poNumber: string | null;
+  shipTo: string[];
+  boat: string[];
+  colors: string[];
+  cushions: PackingSlipCushion[];
+  shipment: ShipmentDetails | null;
+}
+
+export interface ShipmentDetails {
+  carrier: string; // Display name
+  trackingNumber: string;
+  shipDate: string;
+  packageCount: number;
+  weightLbs: number | null;
+}
+
+export interface ShippingLabelDocument {
+  orderId: number;
+  poNumber: string | null;
+  shipTo: string[]; // Name first
+  phone: string | null;
+  shipment: ShipmentDetails | null;
+}
+
+const LETTER: [number, number] = [612, 792];
+const LABEL: [number, number] = [288, 432]; // 4x6 inches
+const LETTER_MARGIN = 50;
+const LABEL_MARGIN = 14;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+const formatDate = (value: string) =>
+  new Date(value.length === 10 ? `${value}T00:00:00Z` : value)
+    .toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: ReturnType<typeof rgb>;
+  align?: 'left' | 'right';
+  maxWidth?: number;
+}
+
+// Draws top to bottom on pages of one size, tracking the baseline of the next line in y
+class PageWriter {
+  private page!: PDFPage;
+  y = 0;
+
+  constructor(
+    private pdf: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont,
+    private size: [number, number],
+    readonly margin: number
+  ) {}
+
+  get right() {
+    return this.size[0] - this.margin;
+  }
+
+  addPage() {
+    this.page = this.pdf.addPage(this.size);
+    this.y = this.size[1] - this.margin;
+  }
+
+  // Start a new page when the next block would run into the bottom margin
+  ensureSpace(height: number) {
+    if (this.y - height < this.margin) {
+      this.addPage();
+    }
+  }
+
+  text(value: string, x: number, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.font;
+    let content = toWinAnsi(value);
+    // Cut text that would run into the next column
+    if (options.maxWidth && font.widthOfTextAtSize(content, size) > options.maxWidth) {
+      while (content.length > 0 && font.widthOfTextAtSize(`${content}...`, size) > options.maxWidth) {
+        content = content.slice(0, -1);
+      }
+      content = `${content.trimEnd()}...`;
+    }
+    const width = font.widthOfTextAtSize(content, size);
+    this.page.drawText(content, {
+      x: options.align === 'right' ? x - width : x,
+      y: this.y,
+      size,
+      font,
+      color: options.color ?? TEXT_COLOR
+    });
+  }
+
+  rule(thickness = 0.5, color = RULE_COLOR) {
+    this.page.drawLine({
+      start: { x: this.margin, y: this.y },
+      end: { x: this.right, y: this.y },
+      thickness,
+      color
+    });
+  }
+
+  // Empty box for ticking off by hand, sitting on the current baseline
+  checkbox(x: number, size = 9) {
+    this.page.drawRectangle({ x, y: this.y - 1, width: size, height: size, borderColor: TEXT_COLOR, borderWidth: 0.75 });
+  }
+
+  newline(lineHeight: number, lines = 1) {
+    this.y -= lineHeight * lines;
+  }
+}
+
+async function createWriter(pdf: PDFDocument, size: [number, number], margin: number): Promise<PageWriter> {
+  return new PageWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold),
+    size,
+    margin
+  );
+}
+
+function writePackingSlip(writer: PageWriter, business: BusinessDetails, slip: PackingSlipDocument) {
+  const lineHeight = 14;
+  const left = writer.margin;
+  const right = writer.right;
+  writer.addPage();
+
+  // Business details on the left, order and shipment on the right
+  writer.text(business.name, left, { size: 18, bold: true });
+  writer.text('PACKING SLIP', right, { size: 18, bold: true, align: 'right' });
+  writer.newline(lineHeight, 1.6);
+
+  const businessLines = [...business.addressLines, business.phone, business.email]
+    .filter((line): line is string => Boolean(line));
+  const orderLines = [
+    `Order: #${slip.orderId}`,
+    ...(slip.poNumber ? [`PO: ${slip.poNumber}`] : []),
+    ...(slip.shipment
+      ? [
+          `Shipped: ${formatDate(slip.shipment.shipDate)}`,
+          `${slip.shipment.carrier}: ${slip.shipment.trackingNumber}`,
+          `Packages: ${slip.shipment.packageCount}`
+        ]
+      : [])
+  ];
+  for (let i = 0; i < Math.max(businessLines.length, orderLines.length); i++) {
+    if (businessLines[i]) writer.text(businessLines[i], left, { color: MUTED_COLOR, maxWidth: 260 });
+    if (orderLines[i]) writer.text(orderLines[i], right, { align: 'right', maxWidth: 240 });
+    writer.newline(lineHeight);
+  }
+  writer.newline(lineHeight);
+
+  // Ship to and boat side by side
+  const column = left + 280;
+  writer.text('Ship To', left, { bold: true });
+  if (slip.boat.length > 0) writer.text('Boat', column, { bold: true });
+  writer.newline(lineHeight);
+  for (let i = 0; i < Math.max(slip.shipTo.length, slip.boat.length); i++) {
+    if (slip.shipTo[i]) writer.text(slip.shipTo[i], left, { maxWidth: 260 });
+    if (slip.boat[i]) writer.text(slip.boat[i], column, { maxWidth: right - column });
+    writer.newline(lineHeight);
+  }
+  writer.newline(lineHeight);
+
+  if (slip.colors.length > 0) {
+    writer.text('Colors: ', left, { bold: true });
+    writer.text(slip.colors.join(', '), left + 45, { maxWidth: right - left - 45 });
+    writer.newline(lineHeight, 2);
+  }
+
+  // Contents, with a box per line to tick off while packing
+  const qtyX = right - 130;
+  const mirrorX = right - 60;
+  const packedX = right - 9;
+  const tableHeader = () => {
+    writer.text('Cushion', left, { bold: true });
+    writer.text('Qty', qtyX, { bold: true, align: 'right' });
+    writer.text('Mirrored', mirrorX, { bold: true, align: 'right' });
+    writer.text('Packed', right, { bold: true, align: 'right' });
+    writer.newline(lineHeight, 0.6);
+    writer.rule();
+    writer.newline(lineHeight, 1.4);
+  };
+  tableHeader();
+
+  for (const cushion of slip.cushions) {
+    const rowHeight = lineHeight * (cushion.material ? 2.4 : 1.4);
+    if (writer.y - rowHeight < writer.margin) {
+      writer.addPage();
+      writer.text(`Order #${slip.orderId} (continued)`, left, { bold: true });
+      writer.newline(lineHeight, 2);
+      tableHeader();
+    }
+    writer.text(cushion.name, left, { maxWidth: qtyX - left - 40 });
+    writer.text(String(cushion.quantity), qtyX, { align: 'right' });
+    writer.text(cushion.mirror ? 'Yes' : 'No', mirrorX, { align: 'right' });
+    writer.checkbox(packedX);
+    if (cushion.material) {
+      writer.newline(lineHeight);
+      writer.text(cushion.material, left + 10, { size: 8.5, color: MUTED_COLOR, maxWidth: qtyX - left - 50 });
+    }
+    writer.newline(lineHeight, 1.4);
+  }
+  if (slip.cushions.length === 0) {
+    writer.text('No cushions on this order', left, { color: MUTED_COLOR });
+    writer.newline(lineHeight);
+  }
+
+  writer.rule();
+  writer.newline(lineHeight, 1.2);
+  const pieces = slip.cushions.reduce((sum, cushion) => sum + cushion.quantity, 0);
+  writer.text('Total pieces', qtyX - 40, { bold: true, align: 'right' });
+  writer.text(String(pieces), qtyX, { bold: true, align: 'right' });
+  writer.newline(lineHeight, 3);
+
+  writer.ensureSpace(lineHeight * 3);
+  writer.text('Packed by: ______________________', left);
+  writer.text('Checked by: ______________________', right, { align: 'right' });
+  writer.newline(lineHeight, 2);
+  writer.text('Please check the contents against this list and let us know in the order chat if anything is missing.', left, {
+    color: MUTED_COLOR,
+    size: 9,
+    maxWidth: right - left
+  });
+}
+
+function writeShippingLabel(writer: PageWriter, business: BusinessDetails, label: ShippingLabelDocument, packageNumber: number) {
+  const left = writer.margin;
+  const right = writer.right;
+  const width = right - left;
+  writer.addPage();
+
+  // From, small at the top
+  writer.text('FROM', left, { size: 7, bold: true, color: MUTED_COLOR });
+  writer.newline(10);
+  for (const line of [business.name, ...business.addressLines, business.phone].filter((line): line is string => Boolean(line))) {
+    writer.text(line, left, { size: 8, maxWidth: width });
+    writer.newline(10);
+  }
+  writer.newline(4);
+  writer.rule(1.5, TEXT_COLOR);
+  writer.newline(16);
+
+  // Ship to, as large as fits
+  writer.text('SHIP TO', left, { size: 8, bold: true, color: MUTED_COLOR });
+  writer.newline(18);
+  label.shipTo.forEach((line, index) => {
+    writer.text(line, left, { size: index === 0 ? 16 : 13, bold: index === 0, maxWidth: width });
+    writer.newline(index === 0 ? 19 : 16);
+  });
+  if (label.phone) {
+    writer.text(label.phone, left, { size: 10 });
+    writer.newline(14);
+  }
+  writer.newline(6);
+  writer.rule(1.5, TEXT_COLOR);
+  writer.newline(18);
+
+  // Order reference and package count
+  const packageCount = label.shipment?.packageCount ?? 1;
+  writer.text(`Order #${label.orderId}`, left, { size: 12, bold: true });
+  writer.text(`Package ${packageNumber} of ${packageCount}`, right, { size: 12, bold: true, align: 'right' });
+  writer.newline(16);
+  if (label.poNumber) {
+    writer.text(`PO: ${label.poNumber}`, left, { size: 10, maxWidth: width });
+    writer.newline(14);
+  }
+  if (label.shipment?.weightLbs) {
+    writer.text(`Total weight: ${label.shipment.weightLbs} lbs`, left, { size: 10 });
+    writer.newline(14);
+  }
+
+  // Carrier and tracking number at the bottom
+  if (label.shipment) {
+    writer.y = writer.margin + 34;
+    writer.rule(1.5, TEXT_COLOR);
+    writer.newline(16);
+    writer.text(label.shipment.carrier.toUpperCase(), left, { size: 10, bold: true });
+    writer.text(formatDate(label.shipment.shipDate), right, { size: 10, align: 'right' });
+    writer.newline(16);
+    writer.text(label.shipment.trackingNumber, left, { size: 12, bold: true, maxWidth: width });
+  }
+}
+
+export async function renderPackingSlipsPdf(business: BusinessDetails, slips: PackingSlipDocument[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(slips.length === 1 ? `Packing slip for order #${slips[0].orderId}` : `Packing slips for ${slips.length} orders`);
+  pdf.setAuthor(business.name);
+
+  const writer = await createWriter(pdf, LETTER, LETTER_MARGIN);
+  for (const slip of slips) {
+    writePackingSlip(writer, business, slip);
+  }
+
+  return await pdf.save();
+}
+
+export async function renderShippingLabelsPdf(business: BusinessDetails, labels: ShippingLabelDocument[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(labels.length === 1 ? `Shipping labels for order #${labels[0].orderId}` : `Shipping labels for ${labels.length} orders`);
+  pdf.setAuthor(business.name);
+
+  const writer = await createWriter(pdf, LABEL, LABEL_MARGIN);
+  for (const label of labels) {
+    for (let packageNumber = 1; packageNumber <= (label.shipment?.packageCount ?? 1); packageNumber++) {
+      writeShippingLabel(writer, business, label, packageNumber);
+    }
+  }
+
+  return await pdf.save();
+}
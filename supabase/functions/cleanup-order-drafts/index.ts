@@ -0,0 +1,214 @@
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// Scheduled sweep of the scans bucket. Uploads for a new order go to <user_id>/<draft_id>/ before the
+// order exists; this removes the files of drafts that were discarded or never finalized and the files a
+// finalized order ended up not referencing (replaced videos, retried uploads).
+//
+// Run it hourly with pg_cron and pg_net, keeping the project URL and service role key in Vault:
+//
+//   select cron.schedule('cleanup-order-drafts', '0 * * * *', $$
+//     select net.http_post(
+//       url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/cleanup-order-drafts',
+//       headers := jsonb_build_object('Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'))
+//     )
+//   $$);
+//
+// The body may set abandon_after_days to override how long an untouched draft is kept.
+
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  supabaseServiceKey
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const SCANS_BUCKET = 'scans';
+const DEFAULT_ABANDON_AFTER_DAYS = 30; // Measuring a boat can take customers several sessions
+const FINALIZED_GRACE_MINUTES = 60; // Leave just-finalized drafts alone while the client wraps up
+const BATCH_SIZE = 100;
+
+interface DraftRow {
+  id: string;
+  user_id: string;
+  status: 'open' | 'finalized' | 'abandoned';
+}
+
+// Every scans path the user's orders and open drafts point at; a draft can reuse files uploaded for
+// another draft or an earlier order
+async function getReferencedPaths(client: SupabaseClient, userId: string, sweptDraftId: string): Promise<Set<string>> {
+  const { data: orders, error: ordersError } = await client
+    .from('orders')
+    .select('id, color_images')
+    .eq('user_id', userId);
+
+  if (ordersError) {
+    throw new Error(`Failed to fetch orders of user ${userId}: ${ordersError.message}`);
+  }
+
+  const paths = new Set<string>();
+  for (const order of orders || []) {
+    Object.values(order.color_images || {}).forEach((path) => paths.add(String(path)));
+  }
+
+  const orderIds = (orders || []).map((order) => order.id);
+  if (orderIds.length > 0) {
+    const { data: cushions, error: cushionsError } = await client
+      .from('cushions')
+      .select('videos')
+      .in('order_id', orderIds);
+
+    if (cushionsError) {
+      throw new Error(`Failed to fetch cushions of user ${userId}: ${cushionsError.message}`);
+    }
+
+    for (const cushion of cushions || []) {
+      (cushion.videos || []).forEach((path: string) => paths.add(path));
+    }
+  }
+
+  // Files saved in drafts the user is still working on
+  const { data: openDrafts, error: draftsError } = await client
+    .from('order_drafts')
+    .select('form_data')
+    .eq('user_id', userId)
+    .eq('status', 'open')
+    .neq('id', sweptDraftId);
+
+  if (draftsError) {
+    throw new Error(`Failed to fetch drafts of user ${userId}: ${draftsError.message}`);
+  }
+
+  for (const draft of openDrafts || []) {
+    for (const cushion of draft.form_data?.cushions || []) {
+      // Drafts saved before colors were assigned per cushion may still hold color photos
+      [...(cushion.videos || []), ...(cushion.colorPhotos || [])]
+        .filter((file: { uploadedFileName?: string }) => file.uploadedFileName)
+        .forEach((file: { uploadedFileName: string }) => paths.add(file.uploadedFileName));
+    }
+  }
+
+  return paths;
+}
+
+// Removes the unreferenced files in a draft's folder and returns how many were removed
+async function sweepDraft(client: SupabaseClient, draft: DraftRow): Promise<number> {
+  const folder = `${draft.user_id}/${draft.id}`;
+  const { data: objects, error: listError } = await client.storage
+    .from(SCANS_BUCKET)
+    .list(folder, { limit: 1000 });
+
+  if (listError) {
+    throw new Error(`Failed to list ${folder}: ${listError.message}`);
+  }
+
+  let removed = 0;
+  if (objects && objects.length > 0) {
+    const referenced = await getReferencedPaths(client, draft.user_id, draft.id);
+    const orphaned = objects
+      .map((object) => `${folder}/${object.name}`)
+      .filter((path) => !referenced.has(path));
+
+    if (orphaned.length > 0) {
+      const { error: removeError } = await client.storage.from(SCANS_BUCKET).remove(orphaned);
+      if (removeError) {
+        throw new Error(`Failed to remove files in ${folder}: ${removeError.message}`);
+      }
+      removed = orphaned.length;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await client
+    .from('order_drafts')
+    .update({
+      status: draft.status === 'open' ? 'abandoned' : draft.status,
+      storage_cleaned_at: now,
+      updated_at: now
+    })
+    .eq('id', draft.id)
+    .eq('status', draft.status); // A draft finalized since it was fetched keeps its status
+
+  if (updateError) {
+    throw new Error(`Failed to update draft ${draft.id}: ${updateError.message}`);
+  }
+
+  return removed;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only the scheduler, calling with the service role key, may run the cleanup
+    const authHeader = req.headers.get('authorization');
+    if (!supabaseServiceKey || authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const abandonAfterDays = Number(body?.abandon_after_days ?? DEFAULT_ABANDON_AFTER_DAYS);
+    const abandonBefore = new Date(Date.now() - abandonAfterDays * 24 * 60 * 60 * 1000).toISOString();
+    const finalizedBefore = new Date(Date.now() - FINALIZED_GRACE_MINUTES * 60 * 1000).toISOString();
+
+    const { data: drafts, error: draftsError } = await supabase
+      .from('order_drafts')
+      .select('id, user_id, status')
+      .is('storage_cleaned_at', null)
+      .or(
+        `status.eq.abandoned,and(status.eq.open,updated_at.lt.${abandonBefore}),and(status.eq.finalized,finalized_at.lt.${finalizedBefore})`
+      )
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (draftsError) {
+      throw new Error(`Failed to fetch drafts: ${draftsError.message}`);
+    }
+
+    let removedFiles = 0;
+    const failures: { draft_id: string; error: string }[] = [];
+
+    // One draft failing should not hold up the rest; it is picked up again on the next run
+    for (const draft of (drafts || []) as DraftRow[]) {
+      try {
+        removedFiles += await sweepDraft(supabase, draft);
+      } catch (error) {
+        console.error(`Error cleaning up draft ${draft.id}:`, error);
+        failures.push({ draft_id: draft.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: failures.length === 0,
+        data: {
+          drafts_swept: (drafts || []).length - failures.length,
+          files_removed: removedFiles,
+          failures
+        }
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,10 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { validateAddress } from '../_shared/addressValidation.ts';
+import { createGoogleAddressProvider } from '../_shared/googleAddressValidation.ts';
+import { CUSHION_SHAPES, CushionMaterial, getMaterialColors, parseMaterial } from '../_shared/materials.ts';
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+const googleAddressProvider = createGoogleAddressProvider();
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -45,7 +50,6 @@ Deno.serve(async (req) => {
     const {
       projectname,
       quantity,
-      color,
       name,
       contact_name,
       address,
@@ -63,9 +67,11 @@ Deno.serve(async (req) => {
       boat_year,
       boat_length,
       boat_HIN,
+      boat_id,
       cushions_count,
       color_images,
-      cushions
+      cushions,
+      draft_id
     } = requestBody;
 
     // Helper function to convert empty strings to null
@@ -74,84 +80,160 @@ Deno.serve(async (req) => {
       return value;
     };
 
-    // Validate required fields
-    if (!name || !address || !city || !zipcode || !state || !phonenumber) {
+    // Validate and normalize the shipping address; the order stores the normalized copy
+    const addressCheck = await validateAddress(
+      {
+        name: name ?? '',
+        address: address ?? '',
+        address2: address2 ?? '',
+        city: city ?? '',
+        state: state ?? '',
+        zipcode: zipcode ?? '',
+        country: country || 'United States',
+        phonenumber: phonenumber ?? '',
+        companyPhone: company_phone ?? '',
+        email: email ?? ''
+      },
+      googleAddressProvider ? [googleAddressProvider] : []
+    );
+
+    if (!addressCheck.valid) {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: 'Missing required fields: name, address, city, zipcode, state, phonenumber' 
+          error: `Invalid shipping address: ${addressCheck.issues.map((issue) => issue.message).join('; ')}`,
+          issues: addressCheck.issues
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const shipping = addressCheck.address;
+
+    const cushionList: any[] = Array.isArray(cushions) ? cushions : [];
+    const materials: CushionMaterial[] = [];
+    for (const cushion of cushionList) {
+      if (cushion.shape && !CUSHION_SHAPES.includes(cushion.shape)) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Unknown shape for ${cushion.name}: ${cushion.shape}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const { material, error: materialError } = parseMaterial(cushion.material);
+      if (materialError) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Invalid material for ${cushion.name}: ${materialError}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!material?.color) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Choose a color for cushion ${cushion.name}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      materials.push(material);
+    }
+
+    // Colors are assigned per cushion; the order lists every color its cushions use
+    const colorNames: string[] = Array.from(new Set(materials.flatMap(getMaterialColors)));
+
+    // New orders may only use colors that are still offered; discontinued ones stay on old orders only
+    if (colorNames.length > 0) {
+      const { data: activeColors, error: colorsError } = await supabase
+        .from('colors')
+        .select('name, fabric_line')
+        .in('name', colorNames)
+        .eq('is_active', true);
+
+      if (colorsError) {
+        throw new Error(`Failed to check colors: ${colorsError.message}`);
+      }
+
+      const unavailable = colorNames.filter((name) => !(activeColors || []).some((row) => row.name === name));
+      if (unavailable.length > 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: `These colors are no longer available: ${unavailable.join(', ')}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const mismatch = materials.find((material) =>
+        material.fabric_line &&
+        activeColors?.find((row) => row.name === material.color)?.fabric_line !== material.fabric_line
+      );
+      if (mismatch) {
+        return new Response(
+          JSON.stringify({ success: false, error: `${mismatch.color} is not part of the ${mismatch.fabric_line} fabric line` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Files must come from the user's own folder in the scans bucket
+    const filePaths = [
+      ...cushionList.flatMap((cushion) => cushion.videos || []),
+      ...Object.values(color_images || {})
+    ];
+    const foreignPath = filePaths.find((path) => typeof path !== 'string' || !path.startsWith(`${user.id}/`));
+    if (foreignPath !== undefined) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Invalid file reference: ${foreignPath}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Create the order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        user_id: user.id,
+    // Create the order and its cushions in one transaction and close the draft the files were uploaded to
+    const { data: order, error: orderError } = await supabase.rpc('finalize_order_draft', {
+      p_user_id: user.id,
+      p_draft_id: toNull(draft_id),
+      p_order: {
         projectname: toNull(projectname),
         quantity: quantity || 0,
-        color: color || [],
-        name,
+        color: colorNames,
+        name: shipping.name.trim(),
         contact_name: toNull(contact_name),
-        address,
-        address2: toNull(address2),
-        city,
-        country: toNull(country),
-        zipcode,
-        state,
-        company_phone: toNull(company_phone),
-        phonenumber,
-        email: toNull(email),
+        address: shipping.address.trim(),
+        address2: toNull(shipping.address2?.trim()),
+        city: shipping.city.trim(),
+        country: shipping.country,
+        zipcode: shipping.zipcode,
+        state: shipping.state,
+        company_phone: toNull(shipping.companyPhone),
+        phonenumber: shipping.phonenumber,
+        email: toNull(shipping.email),
         ship_by_date: toNull(ship_by_date),
         boat_make: toNull(boat_make),
         boat_model: toNull(boat_model),
         boat_year: toNull(boat_year),
         boat_length: toNull(boat_length),
         boat_HIN: toNull(boat_HIN),
-        status: 'UNPAID',
-        payment_intent_id: [],
+        boat_id: toNull(boat_id),
         cushions_count: cushions_count || 0,
-        color_images: color_images || {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+        color_images: color_images || {}
+      },
+      p_cushions: cushionList.map((cushion, index) => ({
+        name: cushion.name,
+        quantity: cushion.quantity,
+        mirror: cushion.mirror || false,
+        videos: cushion.videos || [],
+        shape: cushion.shape || 'rectangle',
+        material: materials[index]
+      }))
+    });
 
     if (orderError) {
       console.error('Error creating order:', orderError);
+      // P0002: the draft or boat does not exist or is not the user's; P0001: the draft was already cleaned up
+      const status = orderError.code === 'P0002' ? 404 : orderError.code === 'P0001' ? 409 : 500;
       return new Response(
         JSON.stringify({ 
           success: false, 
           error: `Failed to create order: ${orderError.message}` 
         }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Create cushions if provided
-    if (cushions && Array.isArray(cushions) && cushions.length > 0) {
-      const cushionRecords = cushions.map((cushion: any) => ({
-        order_id: order.id,
-        name: cushion.name,
-        quantity: cushion.quantity,
-        mirror: cushion.mirror || false,
-        videos: cushion.videos || []
-      }));
-
-      const { error: cushionError } = await supabase
-        .from('cushions')
-        .insert(cushionRecords);
-
-      if (cushionError) {
-        console.error('Error creating cushions:', cushionError);
-        // Don't fail the entire request if cushions fail to insert
-        // The order was created successfully
-      }
-    }
-
     return new Response(
       JSON.stringify({
         success: true,
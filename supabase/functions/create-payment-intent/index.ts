@@ -1,5 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import Stripe from 'https://esm.sh/stripe@13.10.0?target=deno';
+import { getDepositAmount, isQuoteExpired, markQuoteExpired } from '../_shared/quote.ts';
+import { PAYABLE_ORDER_STATUSES } from '../_shared/orderStatus.ts';
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') ?? '', {
   apiVersion: '2023-10-16'
@@ -20,7 +22,12 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { order_id, success_url, cancel_url } = await req.json();
+    const { order_id, sample_request_id, success_url, cancel_url, payment_option = 'full' } = await req.json();
+
+    // The fee for mailed fabric samples is paid through the same checkout, without an order behind it
+    if (sample_request_id) {
+      return await createSampleRequestCheckout(req, sample_request_id, success_url, cancel_url);
+    }
     
     // Validate required fields
     if (!order_id) {
@@ -32,6 +39,15 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (payment_option !== 'full' && payment_option !== 'deposit') {
+      return new Response(JSON.stringify({
+        error: 'payment_option must be "full" or "deposit"'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
     // Fetch order with full details
     const { data: order, error: orderError } = await supabase
       .from('orders')
@@ -40,6 +56,7 @@ Deno.serve(async (req) => {
         status, 
         user_id, 
         outstanding_amount,
+        amount_paid,
         projectname,
         quantity,
         name,
@@ -58,10 +75,10 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Validate order status
-    if (order.status !== 'UNPAID') {
+    // Validate order status; a remaining balance can still be paid while the order is being prepared
+    if (!PAYABLE_ORDER_STATUSES.includes(order.status)) {
       return new Response(JSON.stringify({
-        error: `Order is not in UNPAID status. Current status: ${order.status}`
+        error: `Order cannot be paid in its current status: ${order.status}`
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -79,22 +96,82 @@ Deno.serve(async (req) => {
       });
     }
 
+    // The customer must have accepted the current quote before they can be charged
+    const { data: quote } = await supabase
+      .from('quotes')
+      .select('*, line_items:quote_line_items(*)')
+      .eq('order_id', order_id)
+      .neq('status', 'DRAFT')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!quote || quote.status !== 'ACCEPTED') {
+      let error = 'Order has no quote to pay';
+      if (quote && isQuoteExpired(quote)) {
+        await markQuoteExpired(supabase, quote);
+        error = 'The quote for this order has expired';
+      } else if (quote) {
+        error = quote.status === 'SENT'
+          ? 'The quote for this order must be accepted before payment'
+          : `The quote for this order is ${quote.status}`;
+      }
+
+      return new Response(JSON.stringify({
+        error
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // A deposit is only offered as the first payment toward an order
+    const amountPaid = Number(order.amount_paid || 0);
+    const isDeposit = payment_option === 'deposit';
+    if (isDeposit && (amountPaid > 0 || Number(quote.deposit_percent) <= 0)) {
+      return new Response(JSON.stringify({
+        error: 'A deposit is not available for this order'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const chargeAmount = isDeposit ? Math.min(getDepositAmount(quote), outstandingAmount) : outstandingAmount;
+    const paymentType = isDeposit ? 'deposit' : amountPaid > 0 ? 'balance' : 'full';
+
+    // Itemize only when the quote accounts for the whole amount due; otherwise charge a single line
+    const isQuoted = !isDeposit && Number(quote.total) === outstandingAmount;
+    const lineItems = isQuoted
+      ? buildQuoteLineItems(quote)
+      : [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: isDeposit
+                  ? `Order #${order.id} - ${Number(quote.deposit_percent)}% deposit`
+                  : paymentType === 'balance' ? `Order #${order.id} - balance` : `Order #${order.id}`,
+                description: `Custom boat cushion order - ${order.cushions_count || order.quantity} cushions`,
+              },
+              unit_amount: Math.round(chargeAmount * 100), // Convert to cents
+            },
+            quantity: 1,
+          },
+        ];
+
+    // Stripe line items cannot be negative, so a quote discount becomes a coupon
+    let discounts;
+    if (isQuoted && Number(quote.discount_amount) > 0) {
+      const coupon = await getQuoteCoupon(quote, order.id);
+      discounts = [{ coupon: coupon.id }];
+    }
+
     // Create Stripe Checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: `Order #${order.id}`,
-              description: `Custom boat cushion order - ${order.cushions_count || order.quantity} cushions`,
-            },
-            unit_amount: Math.round(outstandingAmount * 100), // Convert to cents
-          },
-          quantity: 1,
-        },
-      ],
+      line_items: lineItems,
+      discounts,
       mode: 'payment',
       success_url: success_url || `${req.headers.get('origin')}/orders/${order_id}?success=true`,
       cancel_url: cancel_url || `${req.headers.get('origin')}/orders/${order_id}?canceled=true`,
@@ -102,8 +179,10 @@ Deno.serve(async (req) => {
         order_id: order_id.toString(),
         user_id: order.user_id,
         outstanding_amount: outstandingAmount.toString(),
+        payment_type: paymentType,
         project_name: order.projectname || '',
-        customer_name: order.name
+        customer_name: order.name,
+        quote_id: quote.id.toString()
       },
       customer_creation: 'always',
       billing_address_collection: 'required',
@@ -115,10 +194,11 @@ Deno.serve(async (req) => {
           order_id: order_id.toString(),
           user_id: order.user_id,
           outstanding_amount: outstandingAmount.toString(),
+          payment_type: paymentType,
           project_name: order.projectname || '',
           customer_name: order.name
         },
-        description: `Payment for Order #${order.id}`
+        description: isDeposit ? `Deposit for Order #${order.id}` : `Payment for Order #${order.id}`
       }
     });
 
@@ -126,7 +206,8 @@ Deno.serve(async (req) => {
       session_id: session.id,
       url: session.url,
       order_id: order_id,
-      amount: outstandingAmount
+      amount: chargeAmount,
+      payment_type: paymentType
     }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -142,3 +223,150 @@ Deno.serve(async (req) => {
     });
   }
 });
+
+// Checkout for a sample request's fee. The webhook moves the request from UNPAID to REQUESTED once paid.
+async function createSampleRequestCheckout(req, sampleRequestId, successUrl, cancelUrl) {
+  const { data: sampleRequest, error: sampleRequestError } = await supabase
+    .from('sample_requests')
+    .select('id, user_id, status, colors, name, fee, amount_paid')
+    .eq('id', sampleRequestId)
+    .single();
+
+  if (sampleRequestError || !sampleRequest) {
+    return new Response(JSON.stringify({
+      error: 'Sample request not found'
+    }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const amountDue = Number(sampleRequest.fee || 0) - Number(sampleRequest.amount_paid || 0);
+  if (sampleRequest.status !== 'UNPAID' || amountDue <= 0) {
+    return new Response(JSON.stringify({
+      error: 'Sample request has nothing to pay'
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const metadata = {
+    sample_request_id: sampleRequest.id.toString(),
+    user_id: sampleRequest.user_id,
+    payment_type: 'samples',
+    customer_name: sampleRequest.name
+  };
+
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: 'usd',
+          product_data: {
+            name: `Fabric samples #${sampleRequest.id}`,
+            description: sampleRequest.colors.join(', '),
+          },
+          unit_amount: Math.round(amountDue * 100), // Convert to cents
+        },
+        quantity: 1,
+      },
+    ],
+    mode: 'payment',
+    success_url: successUrl || `${req.headers.get('origin')}/orders?samples=paid`,
+    cancel_url: cancelUrl || `${req.headers.get('origin')}/orders?samples=canceled`,
+    metadata,
+    customer_creation: 'always',
+    payment_intent_data: {
+      metadata,
+      description: `Fabric samples #${sampleRequest.id}`
+    }
+  });
+
+  return new Response(JSON.stringify({
+    session_id: session.id,
+    url: session.url,
+    sample_request_id: sampleRequest.id,
+    amount: amountDue,
+    payment_type: 'samples'
+  }), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Convert quote lines (plus shipping and tax) into Stripe Checkout line items
+function buildQuoteLineItems(quote) {
+  const toCents = (value) => Math.round(Number(value) * 100);
+  const lines = [...(quote.line_items || [])].sort((a, b) => a.sort_order - b.sort_order);
+
+  const items = lines.map((line) => {
+    const surcharges = [];
+    if (Number(line.mirror_surcharge) > 0) surcharges.push(`mirror +$${Number(line.mirror_surcharge).toFixed(2)}`);
+    if (Number(line.fabric_surcharge) > 0) surcharges.push(`fabric +$${Number(line.fabric_surcharge).toFixed(2)}`);
+
+    return {
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: line.description,
+          description: `Base $${Number(line.base_price).toFixed(2)}${surcharges.length > 0 ? `, ${surcharges.join(', ')}` : ''} per cushion`,
+        },
+        unit_amount: toCents(line.base_price) + toCents(line.mirror_surcharge) + toCents(line.fabric_surcharge),
+      },
+      quantity: line.quantity,
+    };
+  });
+
+  if (Number(quote.shipping_amount) > 0) {
+    items.push({
+      price_data: {
+        currency: 'usd',
+        product_data: { name: 'Shipping' },
+        unit_amount: toCents(quote.shipping_amount),
+      },
+      quantity: 1,
+    });
+  }
+
+  if (Number(quote.tax_amount) > 0) {
+    items.push({
+      price_data: {
+        currency: 'usd',
+        product_data: { name: 'Sales tax' },
+        unit_amount: toCents(quote.tax_amount),
+      },
+      quantity: 1,
+    });
+  }
+
+  return items;
+}
+
+// One coupon per quote discount, shared by every checkout for the quote, so retried and abandoned
+// checkouts do not each leave a coupon behind in Stripe
+async function getQuoteCoupon(quote, orderId) {
+  const amountOff = Math.round(Number(quote.discount_amount) * 100);
+  const couponId = `quote-${quote.id}-${amountOff}`;
+
+  try {
+    return await stripe.coupons.retrieve(couponId);
+  } catch (error) {
+    if (error?.code !== 'resource_missing') throw error;
+  }
+
+  try {
+    return await stripe.coupons.create({
+      id: couponId,
+      amount_off: amountOff,
+      currency: 'usd',
+      duration: 'once',
+      name: `Order #${orderId} discount`
+    });
+  } catch (error) {
+    // Another checkout for the same quote created it first
+    if (error?.code !== 'resource_already_exists') throw error;
+    return await stripe.coupons.retrieve(couponId);
+  }
+}
@@ -0,0 +1,103 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  getShippingDocumentsFileName,
+  renderShippingDocuments,
+  ShippingDocumentType
+} from '../_shared/shippingDocuments.ts';
+
+// Packing slips or 4x6 shipping labels for one or more orders, returned as a single PDF to print
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const DOCUMENT_TYPES: ShippingDocumentType[] = ['packing_slips', 'labels'];
+const MAX_ORDERS = 50;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only admins print shipping documents
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can print shipping documents' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { order_ids, type } = await req.json();
+
+    const orderIds: number[] = Array.isArray(order_ids) ? [...new Set(order_ids.map(Number))] : [];
+    if (orderIds.length === 0 || orderIds.some((id) => !Number.isInteger(id) || id <= 0) || !DOCUMENT_TYPES.includes(type)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing order_ids or invalid type' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (orderIds.length > MAX_ORDERS) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Print at most ${MAX_ORDERS} orders at a time` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pdf = await renderShippingDocuments(supabase, type, orderIds);
+
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        // functions.invoke only hands back a Blob for octet-stream; application/pdf would be read as text
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${getShippingDocumentsFileName(type, orderIds)}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
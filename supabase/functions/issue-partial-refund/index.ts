@@ -1,5 +1,8 @@
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import Stripe from 'npm:stripe@13.10.0';
+import { recordOrderEvent } from '../_shared/orderEvents.ts';
+import { recordPayment, toPaymentStatus } from '../_shared/payments.ts';
+import { allocateRefund, getRefundableAmount, getRefundableCharges, toCents } from '../_shared/refunds.ts';
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') ?? '', {
   apiVersion: '2023-10-16'
@@ -13,6 +16,10 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS'
 };
 
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Internal server error';
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -20,94 +27,192 @@ Deno.serve(async (req) => {
   }
 
   try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only admins may issue refunds
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can issue refunds' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const { order_id, refund_amount } = await req.json();
-    
-    if (!order_id || !refund_amount) {
-      return new Response(JSON.stringify({
-        error: 'Missing order_id or refund_amount'
-      }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+
+    const refundCents = toCents(refund_amount);
+    if (!order_id || typeof refund_amount !== 'number' || !Number.isFinite(refund_amount) || refundCents <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing order_id or refund_amount is not a positive amount' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Fetch order and payment_intent_id
     const { data: order, error: orderError } = await supabase
       .from('orders')
-      .select('id, payment_intent_id, user_id')
+      .select('id, user_id')
       .eq('id', order_id)
       .single();
 
-    if (orderError || !order || !order.payment_intent_id) {
-      return new Response(JSON.stringify({
-        error: 'Order or payment intent not found'
-      }), {
-        status: 404,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Use the oldest payment intent if payment_intent_id is an array
-    const paymentIntentId = Array.isArray(order.payment_intent_id) 
-      ? order.payment_intent_id[0] 
-      : order.payment_intent_id;
-
-    // Issue refund via Stripe (do NOT update outstanding_amount)
-    const refund = await stripe.refunds.create({
-      payment_intent: paymentIntentId,
-      amount: Math.round(Math.abs(refund_amount) * 100),
-      reason: 'requested_by_customer'
-    });
-
-    // Get the user who initiated the request from the JWT, if available
-    let sender_id = order.user_id;
-    try {
-      const authHeader = req.headers.get('authorization');
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        const jwt = authHeader.replace('Bearer ', '');
-        // Decode JWT to get sub (user id)
-        const payload = JSON.parse(atob(jwt.split('.')[1]));
-        if (payload.sub) sender_id = payload.sub;
+    // What can still be refunded is what was captured less what has been refunded, per PaymentIntent
+    const { data: ledger, error: ledgerError } = await supabase
+      .from('payments')
+      .select('type, amount, status, stripe_payment_intent_id, created_at')
+      .eq('order_id', order.id);
+
+    if (ledgerError) {
+      throw new Error(`Failed to load payments for order ${order.id}: ${ledgerError.message}`);
+    }
+
+    const charges = getRefundableCharges(ledger || []);
+    const refundableCents = getRefundableAmount(charges);
+    const allocations = allocateRefund(charges, refundCents);
+
+    if (!allocations) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: refundableCents > 0
+            ? `Refund of ${formatCents(refundCents)} exceeds the refundable balance of ${formatCents(refundableCents)}`
+            : 'This order has no captured payments left to refund',
+          code: 'REFUND_EXCEEDS_REFUNDABLE',
+          requested_amount: refundCents / 100,
+          refundable_amount: refundableCents / 100
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Issue one Stripe refund per PaymentIntent (do NOT update outstanding_amount). The idempotency key is
+    // tied to the ledger state, so a retried request returns the refund Stripe already made instead of a new one.
+    const issued: { refund: Stripe.Refund; payment_intent_id: string }[] = [];
+    let stripeError: unknown = null;
+    for (const allocation of allocations) {
+      const charge = charges.find((candidate) => candidate.payment_intent_id === allocation.payment_intent_id)!;
+      try {
+        const refund = await stripe.refunds.create({
+          payment_intent: allocation.payment_intent_id,
+          amount: allocation.amount,
+          reason: 'requested_by_customer',
+          metadata: {
+            order_id: order.id.toString(),
+            requested_by: user.id
+          }
+        }, {
+          idempotencyKey: `refund-${order.id}-${allocation.payment_intent_id}-${charge.refunded}-${allocation.amount}`
+        });
+        issued.push({ refund, payment_intent_id: allocation.payment_intent_id });
+      } catch (error) {
+        stripeError = error;
+        break;
       }
-    } catch (e) {
-      // Fallback to order.user_id if anything fails
     }
 
-    // Add the refund id to the payment_intent_id array if not already present
-    let updatedPaymentIntents = Array.isArray(order.payment_intent_id) 
-      ? [...order.payment_intent_id] 
-      : [order.payment_intent_id];
-    
-    if (!updatedPaymentIntents.includes(refund.id)) {
-      updatedPaymentIntents.push(refund.id);
-      await supabase
-        .from('orders')
-        .update({ payment_intent_id: updatedPaymentIntents })
-        .eq('id', order.id);
+    // Record the refunds in the ledger; the charge.refunded webhook later refreshes their status
+    for (const { refund, payment_intent_id } of issued) {
+      try {
+        await recordPayment(supabase, {
+          order_id: order.id,
+          type: 'refund',
+          amount: refund.amount / 100,
+          currency: refund.currency,
+          stripe_object_id: refund.id,
+          stripe_payment_intent_id: payment_intent_id,
+          status: toPaymentStatus(refund.status),
+          created_by: user.id
+        });
+      } catch (ledgerWriteError) {
+        // The refund already went through at Stripe; the webhook will add it to the ledger without
+        // announcing it again, as the requested_by metadata marks it as issued here
+        console.error('Error recording refund in ledger:', ledgerWriteError);
+      }
     }
 
-    // Send a message in the chat
-    await supabase
-      .from('messages')
-      .insert({
+    const issuedCents = issued.reduce((sum, { refund }) => sum + refund.amount, 0);
+
+    if (issued.length > 0) {
+      await recordOrderEvent(supabase, {
         order_id: order.id,
-        sender_id: sender_id,
-        message_text: `A partial refund of $${Math.abs(refund_amount).toFixed(2)} has been issued for this order.`
+        event_type: 'refund_issued',
+        actor_id: user.id,
+        actor_type: 'admin',
+        new_value: issuedCents / 100,
+        metadata: {
+          refund_ids: issued.map(({ refund }) => refund.id),
+          payment_intent_ids: issued.map(({ payment_intent_id }) => payment_intent_id)
+        }
       });
 
-    return new Response(JSON.stringify({
-      success: true,
-      refund_id: refund.id
-    }), {
-      status: 200,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
+      // Send a message in the chat
+      await supabase
+        .from('messages')
+        .insert({
+          order_id: order.id,
+          sender_id: user.id,
+          message_text: `A partial refund of ${formatCents(issuedCents)} has been issued for this order.`
+        });
+    }
+
+    if (stripeError) {
+      // Part of the refund may already be with Stripe; report exactly what was and was not refunded
+      console.error('Error issuing refund:', stripeError);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: issued.length > 0
+            ? `Only ${formatCents(issuedCents)} of ${formatCents(refundCents)} was refunded: ${errorMessage(stripeError)}`
+            : `Stripe rejected the refund: ${errorMessage(stripeError)}`,
+          code: issued.length > 0 ? 'REFUND_INCOMPLETE' : 'REFUND_FAILED',
+          refunded_amount: issuedCents / 100,
+          refund_ids: issued.map(({ refund }) => refund.id)
+        }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        refund_ids: issued.map(({ refund }) => refund.id),
+        refunded_amount: issuedCents / 100,
+        refundable_amount: (refundableCents - issuedCents) / 100
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   } catch (error) {
-    return new Response(JSON.stringify({
-      error: error.message
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-    });
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage(error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
 });
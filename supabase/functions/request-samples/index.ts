@@ -0,0 +1,182 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { validateAddress } from '../_shared/addressValidation.ts';
+import { createGoogleAddressProvider } from '../_shared/googleAddressValidation.ts';
+
+// Creates a sample request: fabric swatches mailed to the customer before they order. When
+// SAMPLE_REQUEST_FEE is set the request waits in UNPAID until the fee is paid through
+// create-payment-intent; otherwise it goes straight to the admins as REQUESTED.
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const googleAddressProvider = createGoogleAddressProvider();
+
+// Keep in sync with SAMPLE_COLOR_LIMIT in src/lib/sampleRequests.ts
+const SAMPLE_COLOR_LIMIT = 8;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Keep in sync with getSampleRequestFee in src/lib/sampleRequests.ts, which shows NEXT_PUBLIC_SAMPLE_REQUEST_FEE
+const getSampleRequestFee = (): number => {
+  const fee = Number(Deno.env.get('SAMPLE_REQUEST_FEE') || 0);
+  return Number.isFinite(fee) && fee > 0 ? Math.round(fee * 100) / 100 : 0;
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const {
+      colors,
+      name,
+      contact_name,
+      address,
+      address2,
+      city,
+      state,
+      zipcode,
+      country,
+      phonenumber,
+      email
+    } = await req.json();
+
+    const colorNames: string[] = Array.from(new Set(
+      (Array.isArray(colors) ? colors : [])
+        .filter((color): color is string => typeof color === 'string' && color.trim() !== '')
+        .map((color) => color.trim())
+    ));
+
+    if (colorNames.length === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Choose at least one color to sample' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (colorNames.length > SAMPLE_COLOR_LIMIT) {
+      return new Response(
+        JSON.stringify({ success: false, error: `A sample request can include at most ${SAMPLE_COLOR_LIMIT} colors` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Samples are only cut from colors that are still offered
+    const { data: activeColors, error: colorsError } = await supabase
+      .from('colors')
+      .select('name')
+      .in('name', colorNames)
+      .eq('is_active', true);
+
+    if (colorsError) {
+      throw new Error(`Failed to check colors: ${colorsError.message}`);
+    }
+
+    const unavailable = colorNames.filter((colorName) => !(activeColors || []).some((row) => row.name === colorName));
+    if (unavailable.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: `These colors are no longer available: ${unavailable.join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate and normalize the address like create-order does; the request stores the normalized copy
+    const addressCheck = await validateAddress(
+      {
+        name: name ?? '',
+        address: address ?? '',
+        address2: address2 ?? '',
+        city: city ?? '',
+        state: state ?? '',
+        zipcode: zipcode ?? '',
+        country: country || 'United States',
+        phonenumber: phonenumber ?? '',
+        email: email ?? ''
+      },
+      googleAddressProvider ? [googleAddressProvider] : []
+    );
+
+    if (!addressCheck.valid) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Invalid shipping address: ${addressCheck.issues.map((issue) => issue.message).join('; ')}`,
+          issues: addressCheck.issues
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const shipping = addressCheck.address;
+    const fee = getSampleRequestFee();
+
+    const { data: sampleRequest, error: insertError } = await supabase
+      .from('sample_requests')
+      .insert({
+        user_id: user.id,
+        status: fee > 0 ? 'UNPAID' : 'REQUESTED',
+        colors: colorNames,
+        name: shipping.name.trim(),
+        contact_name: typeof contact_name === 'string' ? contact_name.trim() || null : null,
+        address: shipping.address.trim(),
+        address2: shipping.address2?.trim() || null,
+        city: shipping.city.trim(),
+        state: shipping.state,
+        zipcode: shipping.zipcode,
+        country: shipping.country,
+        phonenumber: shipping.phonenumber || null,
+        email: shipping.email?.trim() || user.email || null,
+        fee
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating sample request:', insertError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to create sample request: ${insertError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, data: { sample_request: sampleRequest } }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,128 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { recordOrderEvent } from '../_shared/orderEvents.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only admins may resolve flagged orders
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can resolve flagged orders' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { order_id, note } = await req.json();
+
+    if (!order_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing order_id' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, needs_attention, attention_reason')
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!order.needs_attention) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order is not flagged for attention' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The dispute columns stay as they are; they record what Stripe reported, not whether it was handled
+    const { data: updatedOrder, error: updateError } = await supabase
+      .from('orders')
+      .update({
+        needs_attention: false,
+        attention_reason: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', order.id)
+      .select()
+      .single();
+
+    if (updateError || !updatedOrder) {
+      console.error('Error resolving order attention:', updateError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to update order' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await recordOrderEvent(supabase, {
+      order_id: order.id,
+      event_type: 'attention_resolved',
+      actor_id: user.id,
+      actor_type: 'admin',
+      old_value: order.attention_reason,
+      metadata: typeof note === 'string' && note.trim() ? { note: note.trim() } : {}
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, data: { order: updatedOrder } }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
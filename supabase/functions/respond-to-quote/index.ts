@@ -0,0 +1,162 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { recordOrderEvent } from '../_shared/orderEvents.ts';
+import { isQuoteExpired, markQuoteExpired } from '../_shared/quote.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { quote_id, action, reason } = await req.json();
+
+    if (!quote_id || (action !== 'accept' && action !== 'reject')) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing quote_id or invalid action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .select('*, orders!inner(id, user_id)')
+      .eq('id', quote_id)
+      .neq('status', 'DRAFT')
+      .single();
+
+    // Respond with 404 rather than 403 so quote ids of other customers are not revealed
+    if (quoteError || !quote || quote.orders.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Quote not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only the most recent sent quote for an order can be answered
+    const { data: latestQuote } = await supabase
+      .from('quotes')
+      .select('id')
+      .eq('order_id', quote.order_id)
+      .neq('status', 'DRAFT')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (latestQuote?.id !== quote.id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'This quote has been replaced by a newer one' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (isQuoteExpired(quote)) {
+      await markQuoteExpired(supabase, quote);
+      return new Response(
+        JSON.stringify({ success: false, error: 'This quote has expired. Please ask us for an updated quote.' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (quote.status !== 'SENT') {
+      return new Response(
+        JSON.stringify({ success: false, error: `Quote has already been ${quote.status.toLowerCase()}` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const rejectionReason = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+    const updates = action === 'accept'
+      ? { status: 'ACCEPTED', accepted_at: now, accepted_by: user.id, updated_at: now }
+      : {
+          status: 'REJECTED',
+          rejected_at: now,
+          rejected_by: user.id,
+          rejection_reason: rejectionReason,
+          updated_at: now
+        };
+
+    // Guard against a concurrent response between the read above and this write
+    const { data: updatedQuote, error: updateError } = await supabase
+      .from('quotes')
+      .update(updates)
+      .eq('id', quote.id)
+      .eq('status', 'SENT')
+      .select('*, line_items:quote_line_items(*)')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error responding to quote:', updateError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to ${action} quote: ${updateError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // No row means another response got there first
+    if (!updatedQuote) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Quote has already been answered' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    await recordOrderEvent(supabase, {
+      order_id: quote.order_id,
+      event_type: action === 'accept' ? 'quote_accepted' : 'quote_rejected',
+      actor_id: user.id,
+      actor_type: 'customer',
+      new_value: quote.total,
+      metadata: {
+        quote_id: quote.id,
+        ...(action === 'reject' && rejectionReason ? { reason: rejectionReason } : {})
+      }
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, data: { quote: updatedQuote } }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
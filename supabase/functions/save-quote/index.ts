@@ -0,0 +1,289 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { canTransitionOrderStatus, getStatusAfterQuote } from '../_shared/orderStatus.ts';
+import { OrderEventInput, recordOrderEvents } from '../_shared/orderEvents.ts';
+import {
+  calculateQuoteTotals,
+  DEFAULT_QUOTE_VALIDITY_DAYS,
+  getLineTotal,
+  QuoteLineItemInput,
+  roundCurrency,
+  validateQuoteInput
+} from '../_shared/quote.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only admins may price an order
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can create quotes' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const {
+      order_id,
+      line_items,
+      shipping_amount = 0,
+      tax_amount = 0,
+      discount_amount = 0,
+      deposit_percent = 0,
+      notes,
+      send = false,
+      expires_at
+    } = await req.json();
+
+    if (!order_id) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing required field: order_id' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validationError = validateQuoteInput(line_items, shipping_amount, tax_amount, discount_amount, deposit_percent);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ success: false, error: validationError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Sent quotes are valid for 30 days unless the admin picks another expiry date
+    const expiresAt = expires_at
+      ? new Date(expires_at)
+      : new Date(Date.now() + DEFAULT_QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+    if (Number.isNaN(expiresAt.getTime()) || (send && expiresAt <= new Date())) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Quote expiry date must be in the future' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Never trust client totals: recompute from the line items
+    const items = line_items as QuoteLineItemInput[];
+    const { subtotal, total } = calculateQuoteTotals(items, shipping_amount, tax_amount, discount_amount);
+
+    if (total <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Quote total must be greater than zero' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The quote total becomes the order total; anything already paid counts toward it
+    const amountPaid = Number(order.amount_paid || 0);
+    const outstandingAmount = roundCurrency(Math.max(0, total - amountPaid));
+    const quotedStatus = getStatusAfterQuote(order.status, amountPaid, outstandingAmount);
+
+    // Sending a quote moves the order to the status its new balance calls for
+    if (send && order.status !== quotedStatus && !canTransitionOrderStatus(order.status, quotedStatus)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Cannot quote an order in ${order.status} status` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // An order has at most one draft: saving again replaces it (line items cascade)
+    const { error: deleteDraftError } = await supabase
+      .from('quotes')
+      .delete()
+      .eq('order_id', order.id)
+      .eq('status', 'DRAFT');
+
+    if (deleteDraftError) {
+      console.error('Error replacing draft quote:', deleteDraftError);
+    }
+
+    const { data: quote, error: quoteError } = await supabase
+      .from('quotes')
+      .insert({
+        order_id: order.id,
+        created_by: user.id,
+        status: send ? 'SENT' : 'DRAFT',
+        sent_at: send ? new Date().toISOString() : null,
+        expires_at: expiresAt.toISOString(),
+        subtotal,
+        shipping_amount,
+        tax_amount,
+        discount_amount,
+        total,
+        deposit_percent,
+        notes: notes || null
+      })
+      .select()
+      .single();
+
+    if (quoteError || !quote) {
+      console.error('Error creating quote:', quoteError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to create quote: ${quoteError?.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: lineItems, error: lineItemsError } = await supabase
+      .from('quote_line_items')
+      .insert(items.map((item, index) => ({
+        quote_id: quote.id,
+        cushion_id: item.cushion_id || null,
+        description: item.description.trim(),
+        quantity: item.quantity,
+        base_price: item.base_price,
+        mirror_surcharge: item.mirror_surcharge,
+        fabric_surcharge: item.fabric_surcharge,
+        line_total: getLineTotal(item),
+        sort_order: index
+      })))
+      .select();
+
+    if (lineItemsError) {
+      console.error('Error creating quote line items:', lineItemsError);
+      // A quote without its lines would be misleading, so remove it
+      await supabase.from('quotes').delete().eq('id', quote.id);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to create quote: ${lineItemsError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Drafts stay internal until they are sent
+    if (!send) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            quote: { ...quote, line_items: lineItems || [] },
+            order
+          }
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: updatedOrder, error: updateError } = await supabase
+      .from('orders')
+      .update({
+        total_amount: total,
+        outstanding_amount: outstandingAmount,
+        status: quotedStatus,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', order.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Error updating order with quote total:', updateError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to update order: ${updateError.message}` }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const events: OrderEventInput[] = [{
+      order_id: order.id,
+      event_type: 'quote_sent',
+      actor_id: user.id,
+      actor_type: 'admin',
+      new_value: total,
+      metadata: { quote_id: quote.id }
+    }];
+    if (order.outstanding_amount !== outstandingAmount) {
+      events.push({
+        order_id: order.id,
+        event_type: 'outstanding_amount_changed',
+        actor_id: user.id,
+        actor_type: 'admin',
+        old_value: order.outstanding_amount,
+        new_value: outstandingAmount,
+        metadata: { quote_id: quote.id }
+      });
+    }
+    if (order.status !== quotedStatus) {
+      events.push({
+        order_id: order.id,
+        event_type: 'status_changed',
+        actor_id: user.id,
+        actor_type: 'admin',
+        old_value: order.status,
+        new_value: quotedStatus,
+        metadata: { quote_id: quote.id }
+      });
+    }
+    await recordOrderEvents(supabase, events);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          quote: { ...quote, line_items: lineItems || [] },
+          order: updatedOrder
+        }
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type Stripe from 'npm:stripe@13.10.0';
+import type { StripeEventOutcome } from './handlers.ts';
+
+// Log of every Stripe event received, keyed by Stripe's event id.
+// Stripe delivers events at least once, so this is what keeps a redelivered event from being applied twice.
+
+export type StripeEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// 'duplicate': already handled, acknowledge it; 'in_progress': another delivery is being handled right now
+export type StripeEventClaim = 'claimed' | 'duplicate' | 'in_progress';
+
+// A delivery that has been 'processing' this long is assumed to have crashed and may be taken over
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+export async function claimStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<StripeEventClaim> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('stripe_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode,
+      payload: event,
+      status: 'processing',
+      attempts: 1,
+      stripe_created_at: new Date(event.created * 1000).toISOString(),
+      received_at: now,
+      updated_at: now
+    });
+
+  if (!error) {
+    return 'claimed';
+  }
+
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to log Stripe event ${event.id}: ${error.message}`);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('stripe_events')
+    .select('status, attempts, updated_at')
+    .eq('id', event.id)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to read Stripe event ${event.id}: ${fetchError?.message}`);
+  }
+
+  if (existing.status === 'processed' || existing.status === 'ignored') {
+    return 'duplicate';
+  }
+
+  if (existing.status === 'processing' && Date.now() - new Date(existing.updated_at).getTime() < STALE_PROCESSING_MS) {
+    return 'in_progress';
+  }
+
+  return await retakeStripeEvent(supabase, event.id, existing.attempts, existing.updated_at);
+}
+
+// Take a failed or abandoned event back into processing; the updated_at check stops two deliveries doing it at once
+async function retakeStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  attempts: number,
+  previousUpdatedAt: string
+): Promise<StripeEventClaim> {
+  const { data: claimed, error } = await supabase
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      attempts: attempts + 1,
+      error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', eventId)
+    .eq('updated_at', previousUpdatedAt)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to claim Stripe event ${eventId}: ${error.message}`);
+  }
+
+  return claimed && claimed.length > 0 ? 'claimed' : 'in_progress';
+}
+
+export async function finishStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  outcome: StripeEventOutcome | 'failed',
+  errorMessage?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      status: outcome,
+      error: errorMessage ?? null,
+      processed_at: outcome === 'failed' ? null : now,
+      updated_at: now
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error(`Error marking Stripe event ${eventId} as ${outcome}:`, error);
+  }
+}
+
+// Stored events for the replay script: the given ids, or every event that failed
+export async function loadStripeEvents(
+  supabase: SupabaseClient,
+  filter: { ids: string[] } | { status: StripeEventStatus }
+): Promise<{ id: string; attempts: number; updated_at: string; payload: Stripe.Event }[]> {
+  let query = supabase
+    .from('stripe_events')
+    .select('id, attempts, updated_at, payload');
+
+  query = 'ids' in filter ? query.in('id', filter.ids) : query.eq('status', filter.status);
+
+  const { data, error } = await query.order('stripe_created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load Stripe events: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Reclaim a stored event for a manual replay, whatever state it was left in
+export async function claimStoredStripeEvent(
+  supabase: SupabaseClient,
+  event: { id: string; attempts: number; updated_at: string }
+): Promise<boolean> {
+  return await retakeStripeEvent(supabase, event.id, event.attempts, event.updated_at) === 'claimed';
+}
@@ -0,0 +1,488 @@
+import { assertEquals, assertRejects, assertStringIncludes } from 'jsr:@std/assert@1';
+import type Stripe from 'npm:stripe@13.10.0';
+import { processStripeEvent, WebhookDeps } from './handlers.ts';
+import { claimStripeEvent, finishStripeEvent } from './eventLog.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+// Run with: deno test --allow-read supabase/functions/stripe-webhook/
+
+const loadFixture = async (name: string): Promise<Stripe.Event> =>
+  JSON.parse(await Deno.readTextFile(new URL(`./testing/fixtures/${name}.json`, import.meta.url)));
+
+const PAYMENT_INTENT_ID = 'pi_3PfixturePayment0001';
+
+const unpaidOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 42,
+  user_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  status: 'UNPAID',
+  outstanding_amount: 250,
+  total_amount: 250,
+  amount_paid: 0,
+  payment_intent_id: [],
+  paid_at: null,
+  ...overrides
+});
+
+const refund = (id: string, amount: number, status = 'succeeded', metadata: Record<string, string> = {}) => ({
+  id,
+  object: 'refund',
+  amount,
+  currency: 'usd',
+  charge: 'ch_3PfixtureCharge0001',
+  payment_intent: PAYMENT_INTENT_ID,
+  status,
+  metadata
+});
+
+const createDeps = (db: FakeSupabase, refunds: ReturnType<typeof refund>[] = []): WebhookDeps => ({
+  supabase: db.asClient(),
+  stripe: {
+    refunds: {
+      list: () => Promise.resolve({ data: refunds })
+    }
+  } as unknown as WebhookDeps['stripe']
+});
+
+Deno.test('checkout.session.completed settles the order and posts one chat message', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const event = await loadFixture('checkout.session.completed');
+
+  const outcome = await processStripeEvent(createDeps(db), event);
+
+  assertEquals(outcome, 'processed');
+  const [order] = db.rows('orders');
+  assertEquals(order.status, 'PAID');
+  assertEquals(order.outstanding_amount, 0);
+  assertEquals(order.amount_paid, 250);
+  assertEquals(order.payment_intent_id, [PAYMENT_INTENT_ID]);
+
+  const payments = db.rows('payments');
+  assertEquals(payments.length, 1);
+  assertEquals(payments[0].type, 'charge');
+  assertEquals(payments[0].amount, 250);
+  assertEquals(payments[0].stripe_object_id, PAYMENT_INTENT_ID);
+
+  assertEquals(db.rows('messages').length, 1);
+  assertEquals(
+    db.rows('order_events').map((orderEvent) => orderEvent.event_type),
+    ['payment_received', 'status_changed', 'outstanding_amount_changed']
+  );
+});
+
+Deno.test('a deposit leaves the order partially paid with the balance outstanding', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder({ outstanding_amount: 500, total_amount: 500 })] });
+  const event = await loadFixture('checkout.session.completed');
+
+  await processStripeEvent(createDeps(db), event);
+
+  const [order] = db.rows('orders');
+  assertEquals(order.status, 'PARTIALLY_PAID');
+  assertEquals(order.outstanding_amount, 250);
+  assertEquals(order.amount_paid, 250);
+  assertEquals(order.paid_at, null);
+  assertStringIncludes(String(db.rows('messages')[0].message_text), 'remaining balance of $250.00');
+});
+
+Deno.test('payment_intent.succeeded for a checkout payment is not applied a second time', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  const outcome = await processStripeEvent(deps, await loadFixture('payment_intent.succeeded'));
+
+  assertEquals(outcome, 'ignored');
+  assertEquals(db.rows('orders')[0].amount_paid, 250);
+  assertEquals(db.rows('payments').length, 1);
+  assertEquals(db.rows('messages').length, 1);
+});
+
+Deno.test('replaying a checkout event does not charge the order twice', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+  const event = await loadFixture('checkout.session.completed');
+
+  await processStripeEvent(deps, event);
+  const outcome = await processStripeEvent(deps, event);
+
+  assertEquals(outcome, 'ignored');
+  assertEquals(db.rows('orders')[0].amount_paid, 250);
+  assertEquals(db.rows('messages').length, 1);
+  assertEquals(db.rows('order_events').filter((orderEvent) => orderEvent.event_type === 'payment_received').length, 1);
+});
+
+Deno.test('a checkout that failed after writing the ledger is completed on retry', async () => {
+  const db = new FakeSupabase({
+    orders: [unpaidOrder()],
+    payments: [{
+      id: 1,
+      order_id: 42,
+      type: 'charge',
+      amount: 250,
+      currency: 'usd',
+      stripe_object_id: PAYMENT_INTENT_ID,
+      stripe_payment_intent_id: PAYMENT_INTENT_ID,
+      status: 'succeeded'
+    }]
+  });
+
+  const outcome = await processStripeEvent(createDeps(db), await loadFixture('checkout.session.completed'));
+
+  assertEquals(outcome, 'processed');
+  assertEquals(db.rows('orders')[0].status, 'PAID');
+  assertEquals(db.rows('payments').length, 1);
+});
+
+Deno.test('an applied payment issues its invoice once, and a failing invoice does not fail the payment', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const invoiced: [number, string][] = [];
+  const deps: WebhookDeps = {
+    ...createDeps(db),
+    issueInvoice: (orderId, paymentIntentId) => {
+      invoiced.push([orderId, paymentIntentId]);
+      return Promise.reject(new Error('storage unavailable'));
+    }
+  };
+  const event = await loadFixture('checkout.session.completed');
+
+  assertEquals(await processStripeEvent(deps, event), 'processed');
+  assertEquals(await processStripeEvent(deps, event), 'ignored');
+
+  assertEquals(invoiced, [[42, PAYMENT_INTENT_ID]]);
+  assertEquals(db.rows('orders')[0].status, 'PAID');
+});
+
+Deno.test('charge.refunded records new refunds once', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db, [refund('re_3PfixtureRefund0001', 5000)]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  const refundEvent = await loadFixture('charge.refunded');
+  const firstOutcome = await processStripeEvent(deps, refundEvent);
+  const secondOutcome = await processStripeEvent(deps, refundEvent);
+
+  assertEquals(firstOutcome, 'processed');
+  assertEquals(secondOutcome, 'ignored');
+
+  const refunds = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(refunds.length, 1);
+  assertEquals(refunds[0].amount, 50);
+  assertEquals(refunds[0].stripe_object_id, 're_3PfixtureRefund0001');
+
+  const refundMessages = db.rows('messages').filter((message) => String(message.message_text).includes('refund'));
+  assertEquals(refundMessages.length, 1);
+});
+
+Deno.test('charge.refunded does not repeat the message for refunds issued from the app', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db, [refund('re_3PfixtureRefund0001', 5000)]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  // issue-partial-refund has already written the refund to the ledger
+  db.rows('payments').push({
+    id: 2,
+    order_id: 42,
+    type: 'refund',
+    amount: 50,
+    currency: 'usd',
+    stripe_object_id: 're_3PfixtureRefund0001',
+    stripe_payment_intent_id: PAYMENT_INTENT_ID,
+    status: 'succeeded'
+  });
+
+  const outcome = await processStripeEvent(deps, await loadFixture('charge.refunded'));
+
+  assertEquals(outcome, 'ignored');
+  assertEquals(db.rows('messages').length, 1);
+});
+
+Deno.test('charge.refunded records an app-issued refund missing from the ledger without a second message', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  // issue-partial-refund issued this refund and posted its message, but failed to write the ledger
+  const appRefund = refund('re_3PfixtureRefund0001', 5000, 'succeeded', {
+    order_id: '42',
+    requested_by: '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+  });
+  const deps = createDeps(db, [appRefund]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  const outcome = await processStripeEvent(deps, await loadFixture('charge.refunded'));
+
+  assertEquals(outcome, 'processed');
+  const refunds = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(refunds.map((payment) => payment.stripe_object_id), ['re_3PfixtureRefund0001']);
+  assertEquals(db.rows('messages').length, 1);
+});
+
+Deno.test('charge.refunded replaces a backfilled charge refund with the individual refunds', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  // A $50 dashboard refund from before the ledger, and a new $30 one
+  const deps = createDeps(db, [refund('re_3PfixtureRefund0001', 5000), refund('re_3PfixtureRefund0002', 3000)]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  db.rows('payments').push({
+    id: 2,
+    order_id: 42,
+    type: 'refund',
+    amount: 50,
+    currency: 'usd',
+    stripe_object_id: 'ch_3PfixtureCharge0001',
+    stripe_payment_intent_id: PAYMENT_INTENT_ID,
+    status: 'succeeded',
+    metadata: { backfilled: true, source: 'charge' }
+  });
+
+  const outcome = await processStripeEvent(deps, await loadFixture('charge.refunded'));
+
+  assertEquals(outcome, 'processed');
+  const refunds = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(refunds.map((payment) => payment.stripe_object_id).sort(), ['re_3PfixtureRefund0001', 're_3PfixtureRefund0002']);
+  assertEquals(refunds.reduce((sum, payment) => sum + Number(payment.amount), 0), 80);
+  assertStringIncludes(String(db.rows('messages').at(-1)?.message_text), 'refund of $30.00');
+});
+
+Deno.test('a failed refund write fails the event and keeps the backfilled charge refund', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db, [refund('re_3PfixtureRefund0001', 5000)]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  db.rows('payments').push({
+    id: 2,
+    order_id: 42,
+    type: 'refund',
+    amount: 50,
+    currency: 'usd',
+    stripe_object_id: 'ch_3PfixtureCharge0001',
+    stripe_payment_intent_id: PAYMENT_INTENT_ID,
+    status: 'succeeded',
+    metadata: { backfilled: true, source: 'charge' }
+  });
+  db.failNext('payments', 'upsert');
+
+  const refundEvent = await loadFixture('charge.refunded');
+  await assertRejects(() => processStripeEvent(deps, refundEvent), Error, 'Failed to record refunds');
+
+  const refunds = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(refunds.map((payment) => payment.stripe_object_id), ['ch_3PfixtureCharge0001']);
+  assertEquals(db.rows('messages').length, 1);
+});
+
+Deno.test('payment_intent.payment_failed explains the failure on the order once', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+  const event = await loadFixture('payment_intent.payment_failed');
+
+  const firstOutcome = await processStripeEvent(deps, event);
+  const secondOutcome = await processStripeEvent(deps, event);
+
+  assertEquals(firstOutcome, 'processed');
+  assertEquals(secondOutcome, 'ignored');
+
+  const [order] = db.rows('orders');
+  assertEquals(order.status, 'UNPAID');
+  assertEquals(order.last_payment_error, 'Your card has insufficient funds');
+
+  const messages = db.rows('messages');
+  assertEquals(messages.length, 1);
+  assertStringIncludes(String(messages[0].message_text), 'failed: Your card has insufficient funds.');
+  assertEquals(db.rows('order_events').map((orderEvent) => orderEvent.event_type), ['payment_failed']);
+});
+
+Deno.test('a successful payment clears the last payment error', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('payment_intent.payment_failed'));
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+
+  assertEquals(db.rows('orders')[0].last_payment_error, null);
+});
+
+Deno.test('checkout.session.expired posts a message while the balance is still due', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+  const event = await loadFixture('checkout.session.expired');
+
+  assertEquals(await processStripeEvent(deps, event), 'processed');
+  assertEquals(await processStripeEvent(deps, event), 'ignored');
+
+  assertEquals(db.rows('messages').length, 1);
+  assertStringIncludes(String(db.rows('messages')[0].message_text), 'checkout session expired');
+  assertEquals(db.rows('order_events').map((orderEvent) => orderEvent.event_type), ['checkout_expired']);
+});
+
+Deno.test('checkout.session.expired is ignored once the order was paid through another session', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  const outcome = await processStripeEvent(deps, await loadFixture('checkout.session.expired'));
+
+  assertEquals(outcome, 'ignored');
+  assertEquals(db.rows('messages').length, 1);
+});
+
+// The order fixtures, re-pointed at a sample request's fee
+const loadSampleFixture = async (name: string, sampleRequestId = 7): Promise<Stripe.Event> => {
+  const event = await loadFixture(name);
+  const session = event.data.object as Stripe.Checkout.Session;
+  session.amount_total = 500;
+  session.metadata = { sample_request_id: String(sampleRequestId), payment_type: 'samples' };
+  return event;
+};
+
+const unpaidSampleRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  user_id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  status: 'UNPAID',
+  colors: ['Navy', 'Sand'],
+  fee: 5,
+  amount_paid: 0,
+  payment_intent_id: null,
+  paid_at: null,
+  ...overrides
+});
+
+Deno.test('a paid sample request moves to REQUESTED once, without touching orders', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()], sample_requests: [unpaidSampleRequest()] });
+  const deps = createDeps(db);
+  const event = await loadSampleFixture('checkout.session.completed');
+
+  assertEquals(await processStripeEvent(deps, event), 'processed');
+  assertEquals(await processStripeEvent(deps, event), 'ignored');
+
+  const [sampleRequest] = db.rows('sample_requests');
+  assertEquals(sampleRequest.status, 'REQUESTED');
+  assertEquals(sampleRequest.amount_paid, 5);
+  assertEquals(sampleRequest.payment_intent_id, PAYMENT_INTENT_ID);
+  assertEquals(db.rows('orders')[0].amount_paid, 0);
+  assertEquals(db.rows('payments').length, 0);
+  assertEquals(db.rows('messages').length, 0);
+});
+
+Deno.test('a sample request cancelled during checkout records the fee but stays cancelled', async () => {
+  const db = new FakeSupabase({ sample_requests: [unpaidSampleRequest({ status: 'CANCELLED' })] });
+
+  await processStripeEvent(createDeps(db), await loadSampleFixture('checkout.session.completed'));
+
+  const [sampleRequest] = db.rows('sample_requests');
+  assertEquals(sampleRequest.status, 'CANCELLED');
+  assertEquals(sampleRequest.payment_intent_id, PAYMENT_INTENT_ID);
+});
+
+Deno.test('an expired sample checkout is ignored', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()], sample_requests: [unpaidSampleRequest()] });
+
+  const outcome = await processStripeEvent(createDeps(db), await loadSampleFixture('checkout.session.expired'));
+
+  assertEquals(outcome, 'ignored');
+  assertEquals(db.rows('sample_requests')[0].status, 'UNPAID');
+  assertEquals(db.rows('messages').length, 0);
+});
+
+Deno.test('charge.dispute.created flags the order for admin attention', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  const event = await loadFixture('charge.dispute.created');
+  const firstOutcome = await processStripeEvent(deps, event);
+  const secondOutcome = await processStripeEvent(deps, event);
+
+  assertEquals(firstOutcome, 'processed');
+  assertEquals(secondOutcome, 'ignored');
+
+  const [order] = db.rows('orders');
+  assertEquals(order.needs_attention, true);
+  assertEquals(order.attention_reason, 'dispute');
+  assertEquals(order.dispute_id, 'dp_1PfixtureDispute0001');
+  assertEquals(order.dispute_status, 'needs_response');
+  assertEquals(db.rows('messages').length, 2);
+  assertStringIncludes(String(db.rows('messages')[1].message_text), 'product not received');
+});
+
+Deno.test('a lost dispute records the returned funds in the ledger and keeps the order flagged', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  await processStripeEvent(deps, await loadFixture('charge.dispute.created'));
+  const event = await loadFixture('charge.dispute.closed');
+  const firstOutcome = await processStripeEvent(deps, event);
+  const secondOutcome = await processStripeEvent(deps, event);
+
+  assertEquals(firstOutcome, 'processed');
+  assertEquals(secondOutcome, 'ignored');
+
+  const [order] = db.rows('orders');
+  assertEquals(order.needs_attention, true);
+  assertEquals(order.attention_reason, 'dispute_lost');
+  assertEquals(order.dispute_status, 'lost');
+
+  const reversals = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(reversals.length, 1);
+  assertEquals(reversals[0].amount, 250);
+  assertEquals(reversals[0].stripe_object_id, 'dp_1PfixtureDispute0001');
+});
+
+Deno.test('a won dispute clears the attention flag', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  await processStripeEvent(deps, await loadFixture('charge.dispute.created'));
+  const event = await loadFixture('charge.dispute.closed');
+  (event.data.object as Stripe.Dispute).status = 'won';
+  await processStripeEvent(deps, event);
+
+  const [order] = db.rows('orders');
+  assertEquals(order.needs_attention, false);
+  assertEquals(order.attention_reason, null);
+  assertEquals(order.dispute_status, 'won');
+  assertEquals(db.rows('payments').filter((payment) => payment.type === 'refund').length, 0);
+});
+
+Deno.test('charge.refund.updated to failed updates the ledger and flags the order', async () => {
+  const db = new FakeSupabase({ orders: [unpaidOrder()] });
+  const deps = createDeps(db, [refund('re_3PfixtureRefund0001', 5000)]);
+
+  await processStripeEvent(deps, await loadFixture('checkout.session.completed'));
+  await processStripeEvent(deps, await loadFixture('charge.refunded'));
+  const event = await loadFixture('charge.refund.updated');
+  const firstOutcome = await processStripeEvent(deps, event);
+  const secondOutcome = await processStripeEvent(deps, event);
+
+  assertEquals(firstOutcome, 'processed');
+  assertEquals(secondOutcome, 'ignored');
+
+  const [refundRow] = db.rows('payments').filter((payment) => payment.type === 'refund');
+  assertEquals(refundRow.status, 'failed');
+
+  const [order] = db.rows('orders');
+  assertEquals(order.needs_attention, true);
+  assertEquals(order.attention_reason, 'refund_failed');
+  assertStringIncludes(String(db.rows('messages').at(-1)?.message_text), 'expired or canceled card');
+});
+
+Deno.test('a redelivered event id is reported as a duplicate once processed', async () => {
+  const db = new FakeSupabase();
+  const event = await loadFixture('checkout.session.completed');
+
+  assertEquals(await claimStripeEvent(db.asClient(), event), 'claimed');
+  assertEquals(await claimStripeEvent(db.asClient(), event), 'in_progress');
+
+  await finishStripeEvent(db.asClient(), event.id, 'processed');
+  assertEquals(await claimStripeEvent(db.asClient(), event), 'duplicate');
+  assertEquals(db.rows('stripe_events').length, 1);
+});
+
+Deno.test('a failed event is claimed again on redelivery', async () => {
+  const db = new FakeSupabase();
+  const event = await loadFixture('checkout.session.completed');
+
+  await claimStripeEvent(db.asClient(), event);
+  await finishStripeEvent(db.asClient(), event.id, 'failed', 'database unavailable');
+
+  assertEquals(await claimStripeEvent(db.asClient(), event), 'claimed');
+  assertEquals(db.rows('stripe_events')[0].attempts, 2);
+  assertEquals(db.rows('stripe_events')[0].error, null);
+});
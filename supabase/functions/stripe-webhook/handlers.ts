@@ -0,0 +1,789 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type Stripe from 'npm:stripe@13.10.0';
+import { OrderEventInput, recordOrderEvent, recordOrderEvents } from '../_shared/orderEvents.ts';
+import { getStatusAfterPayment, OrderStatus } from '../_shared/orderStatus.ts';
+import { roundCurrency } from '../_shared/quote.ts';
+import { PaymentInput, recordPayment, toPaymentStatus, upsertRefunds } from '../_shared/payments.ts';
+
+// Stripe event handlers. Clients are passed in so the same code serves the webhook,
+// the replay script and the tests (which use a stubbed Supabase client).
+
+export interface WebhookDeps {
+  supabase: SupabaseClient;
+  stripe: Pick<Stripe, 'refunds'>;
+  // Issues the invoice for an applied payment and attaches it to the order chat
+  issueInvoice?: (orderId: number, paymentIntentId: string) => Promise<void>;
+}
+
+// 'ignored' means the event needed no change (unhandled type, not one of our orders, or already applied)
+export type StripeEventOutcome = 'processed' | 'ignored';
+
+interface OrderRow {
+  id: number;
+  user_id: string;
+  status: OrderStatus;
+  outstanding_amount: number | null;
+  amount_paid: number | null;
+  payment_intent_id: string[] | null;
+  paid_at: string | null;
+  needs_attention: boolean | null;
+  attention_reason: string | null;
+  dispute_id: string | null;
+  dispute_status: string | null;
+}
+
+export async function processStripeEvent(deps: WebhookDeps, event: Stripe.Event): Promise<StripeEventOutcome> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return await handleCheckoutSessionCompleted(deps, event.data.object as Stripe.Checkout.Session);
+    case 'payment_intent.succeeded':
+      // Every payment goes through Checkout, which also sends checkout.session.completed for it.
+      // That event is the single canonical one, so the PaymentIntent event is only logged.
+      console.log('Payment intent succeeded; applied from its checkout session:', (event.data.object as Stripe.PaymentIntent).id);
+      return 'ignored';
+    case 'checkout.session.expired':
+      return await handleCheckoutSessionExpired(deps, event.data.object as Stripe.Checkout.Session);
+    case 'payment_intent.payment_failed':
+      return await handlePaymentFailed(deps, event.data.object as Stripe.PaymentIntent);
+    case 'charge.refunded':
+      return await handleRefund(deps, event.data.object as Stripe.Charge);
+    case 'charge.refund.updated':
+      return await handleRefundUpdated(deps, event.data.object as Stripe.Refund);
+    case 'charge.dispute.created':
+      return await handleDisputeCreated(deps, event.data.object as Stripe.Dispute);
+    case 'charge.dispute.closed':
+      return await handleDisputeClosed(deps, event.data.object as Stripe.Dispute);
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+      return 'ignored';
+  }
+}
+
+// Apply a payment to the order's running totals: the balance goes down and the status follows it
+export function buildPaymentUpdate(order: OrderRow, paidAmount: number) {
+  const outstandingAmount = roundCurrency(Math.max(0, Number(order.outstanding_amount || 0) - paidAmount));
+  return {
+    amount_paid: roundCurrency(Number(order.amount_paid || 0) + paidAmount),
+    outstanding_amount: outstandingAmount,
+    status: getStatusAfterPayment(order.status, outstandingAmount)
+  };
+}
+
+// Audit events for a payment and the status/balance changes it caused
+function buildPaymentEvents(
+  order: OrderRow,
+  paidAmount: number,
+  paymentUpdate: ReturnType<typeof buildPaymentUpdate>,
+  metadata: Record<string, unknown>
+): OrderEventInput[] {
+  const events: OrderEventInput[] = [{
+    order_id: order.id,
+    event_type: 'payment_received',
+    actor_type: 'system',
+    new_value: paidAmount,
+    metadata
+  }];
+
+  if (order.status !== paymentUpdate.status) {
+    events.push({
+      order_id: order.id,
+      event_type: 'status_changed',
+      actor_type: 'system',
+      old_value: order.status,
+      new_value: paymentUpdate.status,
+      metadata
+    });
+  }
+
+  if (order.outstanding_amount !== paymentUpdate.outstanding_amount) {
+    events.push({
+      order_id: order.id,
+      event_type: 'outstanding_amount_changed',
+      actor_type: 'system',
+      old_value: order.outstanding_amount,
+      new_value: paymentUpdate.outstanding_amount,
+      metadata
+    });
+  }
+
+  return events;
+}
+
+async function fetchOrder(supabase: SupabaseClient, orderId: number | string): Promise<OrderRow | null> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch order ${orderId}: ${error.message}`);
+  }
+
+  return order;
+}
+
+// The ledger row of a charge tells which order a PaymentIntent paid for
+async function fetchOrderForPaymentIntent(supabase: SupabaseClient, paymentIntentId: string): Promise<OrderRow | null> {
+  const { data: chargePayment, error: ledgerError } = await supabase
+    .from('payments')
+    .select('order_id')
+    .eq('stripe_object_id', paymentIntentId)
+    .maybeSingle();
+
+  if (ledgerError) {
+    throw new Error(`Failed to look up payment ${paymentIntentId}: ${ledgerError.message}`);
+  }
+
+  return chargePayment ? await fetchOrder(supabase, chargePayment.order_id) : null;
+}
+
+async function updateOrder(supabase: SupabaseClient, orderId: number, values: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('orders')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  if (error) {
+    throw new Error(`Failed to update order ${orderId}: ${error.message}`);
+  }
+}
+
+// Notifications that have no ledger row of their own are marked as sent by the order event
+// recorded with them, keyed by the Stripe object they are about
+async function hasRecordedEvent(
+  supabase: SupabaseClient,
+  orderId: number,
+  eventType: OrderEventInput['event_type'],
+  stripeObjectId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('id')
+    .eq('order_id', orderId)
+    .eq('event_type', eventType)
+    .contains('metadata', { stripe_object_id: stripeObjectId })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up ${eventType} events for order ${orderId}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+async function postOrderMessage(supabase: SupabaseClient, order: OrderRow, messageText: string): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      order_id: order.id,
+      sender_id: order.user_id,
+      message_text: messageText
+    });
+
+  if (error) {
+    console.error(`Error adding message to the chat of order ${order.id}:`, error);
+  }
+}
+
+const getPaymentIntentId = (paymentIntent: string | Stripe.PaymentIntent | null): string | undefined =>
+  typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+
+async function handleCheckoutSessionCompleted(
+  { supabase, issueInvoice }: WebhookDeps,
+  session: Stripe.Checkout.Session
+): Promise<StripeEventOutcome> {
+  console.log('Processing checkout session completed for session:', session.id);
+
+  if (session.metadata?.sample_request_id) {
+    return await handleSampleRequestPaid(supabase, session);
+  }
+
+  const orderId = session.metadata?.order_id;
+  if (!orderId) {
+    console.error('No order_id found in session metadata');
+    return 'ignored';
+  }
+
+  if (session.payment_status !== 'paid') {
+    console.log(`Checkout session ${session.id} is not paid yet (${session.payment_status})`);
+    return 'ignored';
+  }
+
+  const paymentIntentId = getPaymentIntentId(session.payment_intent);
+  if (!paymentIntentId) {
+    console.error('No payment intent found in session');
+    return 'ignored';
+  }
+
+  const order = await fetchOrder(supabase, orderId);
+  if (!order) {
+    console.error('Order not found for checkout session:', orderId);
+    return 'ignored';
+  }
+
+  // payment_intent_id lists the payments already applied to the order's totals
+  if ((order.payment_intent_id || []).includes(paymentIntentId)) {
+    console.log(`Payment ${paymentIntentId} was already applied to order ${order.id}`);
+    return 'ignored';
+  }
+
+  // Calculate payment amount in dollars
+  const paidAmount = (session.amount_total ?? 0) / 100;
+
+  // The ledger row may already exist if an earlier attempt failed after writing it
+  await recordPayment(supabase, {
+    order_id: order.id,
+    type: 'charge',
+    amount: paidAmount,
+    currency: session.currency ?? 'usd',
+    stripe_object_id: paymentIntentId,
+    stripe_payment_intent_id: paymentIntentId,
+    status: 'succeeded',
+    metadata: {
+      checkout_session_id: session.id,
+      payment_type: session.metadata?.payment_type
+    }
+  });
+
+  const paymentUpdate = buildPaymentUpdate(order, paidAmount);
+  const now = new Date().toISOString();
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      payment_intent_id: [...(order.payment_intent_id || []), paymentIntentId],
+      ...paymentUpdate,
+      paid_at: paymentUpdate.outstanding_amount === 0 ? now : order.paid_at,
+      last_payment_error: null,
+      last_payment_error_at: null,
+      updated_at: now
+    })
+    .eq('id', order.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update order ${order.id}: ${updateError.message}`);
+  }
+
+  await recordOrderEvents(supabase, buildPaymentEvents(order, paidAmount, paymentUpdate, {
+    payment_intent_id: paymentIntentId,
+    checkout_session_id: session.id
+  }));
+
+  // Add success message to chat
+  const messageText = paymentUpdate.outstanding_amount > 0
+    ? `Payment of $${paidAmount.toFixed(2)} received successfully. The remaining balance of $${paymentUpdate.outstanding_amount.toFixed(2)} is due before shipping.`
+    : `Payment of $${paidAmount.toFixed(2)} received successfully. Order is now being processed.`;
+  await postOrderMessage(supabase, order, messageText);
+
+  // The payment is applied either way; a missing invoice can still be downloaded from the order page
+  if (issueInvoice) {
+    try {
+      await issueInvoice(order.id, paymentIntentId);
+    } catch (error) {
+      console.error(`Error issuing invoice for payment ${paymentIntentId}:`, error);
+    }
+  }
+
+  console.log(`Successfully processed payment for order ${order.id}:
+      Amount: $${paidAmount}
+      Status: ${paymentUpdate.status}
+      Outstanding Amount: ${paymentUpdate.outstanding_amount}`);
+
+  return 'processed';
+}
+
+// The fee for a sample request: recorded on the request, which then goes to the admins as REQUESTED.
+// Sample fees have no order, so they stay out of the payments ledger and the order chat.
+async function handleSampleRequestPaid(
+  supabase: SupabaseClient,
+  session: Stripe.Checkout.Session
+): Promise<StripeEventOutcome> {
+  const sampleRequestId = session.metadata!.sample_request_id;
+
+  if (session.payment_status !== 'paid') {
+    console.log(`Checkout session ${session.id} is not paid yet (${session.payment_status})`);
+    return 'ignored';
+  }
+
+  const paymentIntentId = getPaymentIntentId(session.payment_intent);
+  if (!paymentIntentId) {
+    console.error('No payment intent found in session');
+    return 'ignored';
+  }
+
+  const { data: sampleRequest, error } = await supabase
+    .from('sample_requests')
+    .select('id, status, payment_intent_id')
+    .eq('id', sampleRequestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch sample request ${sampleRequestId}: ${error.message}`);
+  }
+  if (!sampleRequest) {
+    console.error('Sample request not found for checkout session:', sampleRequestId);
+    return 'ignored';
+  }
+  if (sampleRequest.payment_intent_id === paymentIntentId) {
+    console.log(`Payment ${paymentIntentId} was already applied to sample request ${sampleRequest.id}`);
+    return 'ignored';
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('sample_requests')
+    .update({
+      // A request cancelled while the customer was paying keeps its status, so an admin can refund it
+      status: sampleRequest.status === 'UNPAID' ? 'REQUESTED' : sampleRequest.status,
+      amount_paid: (session.amount_total ?? 0) / 100,
+      payment_intent_id: paymentIntentId,
+      paid_at: now,
+      updated_at: now
+    })
+    .eq('id', sampleRequest.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update sample request ${sampleRequest.id}: ${updateError.message}`);
+  }
+
+  console.log(`Sample request ${sampleRequest.id} paid with ${paymentIntentId}`);
+  return 'processed';
+}
+
+async function handleRefund({ supabase, stripe }: WebhookDeps, charge: Stripe.Charge): Promise<StripeEventOutcome> {
+  console.log('Processing refund for charge:', charge.id);
+
+  // Get the payment intent from the charge
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  if (!paymentIntentId) {
+    console.error('No payment intent found in charge');
+    return 'ignored';
+  }
+
+  const order = await fetchOrderForPaymentIntent(supabase, paymentIntentId);
+  if (!order) {
+    console.error('No order found with payment intent:', paymentIntentId);
+    return 'ignored';
+  }
+
+  const { data: knownRefunds, error: refundsError } = await supabase
+    .from('payments')
+    .select('stripe_object_id, status, amount')
+    .eq('type', 'refund')
+    .eq('stripe_payment_intent_id', paymentIntentId);
+
+  if (refundsError) {
+    throw new Error(`Failed to fetch refunds for ${paymentIntentId}: ${refundsError.message}`);
+  }
+
+  // A charge can carry several refunds (app-issued or from the Stripe dashboard); only new or
+  // changed ones are written, so redelivered and replayed events do not repeat the chat message
+  const knownStatuses = new Map((knownRefunds || []).map((refund) => [refund.stripe_object_id, refund.status]));
+  // The payments backfill recorded refunds made before the ledger existed as one row per charge (ch_...).
+  // The refunds listed below include them one by one, so those rows are replaced rather than added to.
+  const backfilledRefunds = (knownRefunds || []).filter((refund) => refund.stripe_object_id.startsWith('ch_'));
+  const backfilledAmount = roundCurrency(backfilledRefunds.reduce((sum, refund) => sum + Number(refund.amount), 0));
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  const changedRefunds: PaymentInput[] = refunds.data
+    .map((refund) => ({
+      order_id: order.id,
+      type: 'refund' as const,
+      amount: refund.amount / 100,
+      currency: refund.currency,
+      stripe_object_id: refund.id,
+      stripe_payment_intent_id: paymentIntentId,
+      status: toPaymentStatus(refund.status)
+    }))
+    .filter((refund) => knownStatuses.get(refund.stripe_object_id) !== refund.status);
+
+  if (changedRefunds.length === 0 && backfilledRefunds.length === 0) {
+    console.log(`Refunds for charge ${charge.id} are already recorded`);
+    return 'ignored';
+  }
+
+  await upsertRefunds(supabase, changedRefunds);
+  if (backfilledRefunds.length > 0) {
+    await removeBackfilledRefunds(
+      supabase,
+      backfilledRefunds.map((refund) => refund.stripe_object_id),
+      refunds.data.map((refund) => refund.id)
+    );
+  }
+
+  // Refunds the backfilled rows already accounted for were announced when they were made, and
+  // issue-partial-refund (which tags its refunds with requested_by) announces its own even when its
+  // ledger write failed
+  const appIssuedIds = new Set(refunds.data.filter((refund) => refund.metadata?.requested_by).map((refund) => refund.id));
+  const newRefunds = changedRefunds.filter((refund) =>
+    !knownStatuses.has(refund.stripe_object_id) && !appIssuedIds.has(refund.stripe_object_id!)
+  );
+  const refundAmount = roundCurrency(newRefunds.reduce((sum, refund) => sum + refund.amount, 0) - backfilledAmount);
+  if (newRefunds.length === 0 || refundAmount <= 0) {
+    // Only statuses changed, or the new rows are app-issued or backfilled refunds; they already have
+    // their own message
+    return 'processed';
+  }
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'refund_processed',
+    actor_type: 'system',
+    new_value: refundAmount,
+    metadata: {
+      charge_id: charge.id,
+      payment_intent_id: paymentIntentId,
+      refund_ids: newRefunds.map((refund) => refund.stripe_object_id)
+    }
+  });
+
+  // Send a message in the chat about the refund
+  await postOrderMessage(supabase, order, `A refund of $${refundAmount.toFixed(2)} has been processed for this order.`);
+
+  console.log(`Successfully processed refund for order ${order.id}:
+      Refund Amount: $${refundAmount}
+      Charge ID: ${charge.id}`);
+
+  return 'processed';
+}
+
+// Deletes the backfilled per-charge refund rows once the individual refunds are all in the ledger, so a
+// failed write leaves the old rows in place for the next event to replace
+async function removeBackfilledRefunds(
+  supabase: SupabaseClient,
+  backfilledIds: string[],
+  refundIds: string[]
+): Promise<void> {
+  const { data: recorded, error: recordedError } = await supabase
+    .from('payments')
+    .select('stripe_object_id')
+    .in('stripe_object_id', refundIds);
+
+  if (recordedError) {
+    throw new Error(`Failed to check recorded refunds: ${recordedError.message}`);
+  }
+  if ((recorded || []).length < refundIds.length) {
+    console.error('Refunds were not all recorded; keeping the backfilled rows:', backfilledIds);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('payments')
+    .delete()
+    .in('stripe_object_id', backfilledIds);
+
+  if (error) {
+    throw new Error(`Failed to remove backfilled refunds: ${error.message}`);
+  }
+}
+
+async function handleCheckoutSessionExpired(
+  { supabase }: WebhookDeps,
+  session: Stripe.Checkout.Session
+): Promise<StripeEventOutcome> {
+  console.log('Processing expired checkout session:', session.id);
+
+  // An unpaid sample request simply stays UNPAID; the customer can pay it from the orders list
+  if (session.metadata?.sample_request_id) {
+    console.log(`Checkout session ${session.id} for sample request ${session.metadata.sample_request_id} expired`);
+    return 'ignored';
+  }
+
+  const orderId = session.metadata?.order_id;
+  if (!orderId) {
+    console.error('No order_id found in session metadata');
+    return 'ignored';
+  }
+
+  const order = await fetchOrder(supabase, orderId);
+  if (!order) {
+    console.error('Order not found for checkout session:', orderId);
+    return 'ignored';
+  }
+
+  // Customers often abandon a checkout and pay through a newer one; once the balance this session
+  // was opened for has changed, its expiry is no longer news
+  const outstandingAmount = Number(order.outstanding_amount || 0);
+  if (outstandingAmount <= 0 || outstandingAmount !== Number(session.metadata?.outstanding_amount)) {
+    console.log(`Checkout session ${session.id} expired after order ${order.id} was paid through another session`);
+    return 'ignored';
+  }
+
+  if (await hasRecordedEvent(supabase, order.id, 'checkout_expired', session.id)) {
+    console.log(`Expiry of checkout session ${session.id} was already recorded`);
+    return 'ignored';
+  }
+
+  const expiryMessage = 'The checkout session expired before the payment was completed';
+  await updateOrder(supabase, order.id, {
+    last_payment_error: expiryMessage,
+    last_payment_error_at: new Date().toISOString()
+  });
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'checkout_expired',
+    actor_type: 'system',
+    new_value: (session.amount_total ?? 0) / 100,
+    metadata: {
+      stripe_object_id: session.id,
+      payment_type: session.metadata?.payment_type
+    }
+  });
+
+  await postOrderMessage(
+    supabase,
+    order,
+    `${expiryMessage}. No payment was taken; use the Pay button on the order to start a new one.`
+  );
+
+  return 'processed';
+}
+
+async function handlePaymentFailed(
+  { supabase }: WebhookDeps,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<StripeEventOutcome> {
+  console.log('Processing failed payment intent:', paymentIntent.id);
+
+  const orderId = paymentIntent.metadata?.order_id;
+  if (!orderId) {
+    console.error('No order_id found in payment intent metadata');
+    return 'ignored';
+  }
+
+  const order = await fetchOrder(supabase, orderId);
+  if (!order) {
+    console.error('Order not found for payment intent:', orderId);
+    return 'ignored';
+  }
+
+  // Every attempt within one checkout creates its own charge, so the charge identifies the failure
+  const failedChargeId = typeof paymentIntent.latest_charge === 'string'
+    ? paymentIntent.latest_charge
+    : paymentIntent.latest_charge?.id ?? paymentIntent.id;
+  if (await hasRecordedEvent(supabase, order.id, 'payment_failed', failedChargeId)) {
+    console.log(`Payment failure ${failedChargeId} was already recorded`);
+    return 'ignored';
+  }
+
+  const amount = paymentIntent.amount / 100;
+  const reason = (paymentIntent.last_payment_error?.message ?? 'The payment was declined').replace(/\.$/, '');
+
+  await updateOrder(supabase, order.id, {
+    last_payment_error: reason,
+    last_payment_error_at: new Date().toISOString()
+  });
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'payment_failed',
+    actor_type: 'system',
+    new_value: amount,
+    metadata: {
+      stripe_object_id: failedChargeId,
+      payment_intent_id: paymentIntent.id,
+      code: paymentIntent.last_payment_error?.decline_code ?? paymentIntent.last_payment_error?.code,
+      reason
+    }
+  });
+
+  await postOrderMessage(
+    supabase,
+    order,
+    `A payment of $${amount.toFixed(2)} for this order failed: ${reason}. No money was taken; you can try again from the order page.`
+  );
+
+  return 'processed';
+}
+
+async function handleRefundUpdated({ supabase }: WebhookDeps, refund: Stripe.Refund): Promise<StripeEventOutcome> {
+  console.log('Processing refund update:', refund.id);
+
+  const { data: knownRefund, error: ledgerError } = await supabase
+    .from('payments')
+    .select('order_id, status, stripe_payment_intent_id')
+    .eq('stripe_object_id', refund.id)
+    .maybeSingle();
+
+  if (ledgerError) {
+    throw new Error(`Failed to look up refund ${refund.id}: ${ledgerError.message}`);
+  }
+
+  // Refunds that are not in the ledger yet are recorded with their current status by charge.refunded
+  if (!knownRefund) {
+    console.log(`Refund ${refund.id} is not in the ledger yet`);
+    return 'ignored';
+  }
+
+  const status = toPaymentStatus(refund.status);
+  if (knownRefund.status === status) {
+    console.log(`Refund ${refund.id} is already ${status}`);
+    return 'ignored';
+  }
+
+  const order = await fetchOrder(supabase, knownRefund.order_id);
+  if (!order) {
+    console.error('Order not found for refund:', refund.id);
+    return 'ignored';
+  }
+
+  const amount = refund.amount / 100;
+  await upsertRefunds(supabase, [{
+    order_id: order.id,
+    type: 'refund',
+    amount,
+    currency: refund.currency,
+    stripe_object_id: refund.id,
+    stripe_payment_intent_id: knownRefund.stripe_payment_intent_id,
+    status
+  }]);
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'refund_updated',
+    actor_type: 'system',
+    old_value: knownRefund.status,
+    new_value: status,
+    metadata: {
+      stripe_object_id: refund.id,
+      amount,
+      failure_reason: refund.failure_reason
+    }
+  });
+
+  // The customer was told the money is on its way; a refund that fell through needs an admin
+  if (status === 'failed' || status === 'canceled') {
+    await updateOrder(supabase, order.id, {
+      needs_attention: true,
+      attention_reason: 'refund_failed'
+    });
+
+    await postOrderMessage(
+      supabase,
+      order,
+      `The refund of $${amount.toFixed(2)} for this order could not be completed (${(refund.failure_reason ?? status).replace(/_/g, ' ')}). Our team has been notified and will follow up.`
+    );
+  }
+
+  return 'processed';
+}
+
+async function handleDisputeCreated({ supabase }: WebhookDeps, dispute: Stripe.Dispute): Promise<StripeEventOutcome> {
+  console.log('Processing dispute opened:', dispute.id);
+
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const order = paymentIntentId ? await fetchOrderForPaymentIntent(supabase, paymentIntentId) : null;
+  if (!order) {
+    console.error('No order found for disputed payment intent:', paymentIntentId);
+    return 'ignored';
+  }
+
+  if (order.dispute_id === dispute.id) {
+    console.log(`Dispute ${dispute.id} was already recorded on order ${order.id}`);
+    return 'ignored';
+  }
+
+  const amount = dispute.amount / 100;
+  await updateOrder(supabase, order.id, {
+    needs_attention: true,
+    attention_reason: 'dispute',
+    dispute_id: dispute.id,
+    dispute_status: dispute.status,
+    disputed_at: new Date(dispute.created * 1000).toISOString()
+  });
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'dispute_opened',
+    actor_type: 'system',
+    new_value: amount,
+    metadata: {
+      stripe_object_id: dispute.id,
+      payment_intent_id: paymentIntentId,
+      reason: dispute.reason,
+      evidence_due_by: dispute.evidence_details?.due_by
+        ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+        : null
+    }
+  });
+
+  await postOrderMessage(
+    supabase,
+    order,
+    `The payment of $${amount.toFixed(2)} for this order has been disputed with the card issuer (${dispute.reason.replace(/_/g, ' ')}). Our team has been notified and will follow up.`
+  );
+
+  return 'processed';
+}
+
+async function handleDisputeClosed({ supabase }: WebhookDeps, dispute: Stripe.Dispute): Promise<StripeEventOutcome> {
+  console.log('Processing dispute closed:', dispute.id);
+
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  const order = paymentIntentId ? await fetchOrderForPaymentIntent(supabase, paymentIntentId) : null;
+  if (!order) {
+    console.error('No order found for disputed payment intent:', paymentIntentId);
+    return 'ignored';
+  }
+
+  if (order.dispute_id === dispute.id && order.dispute_status === dispute.status) {
+    console.log(`Closing of dispute ${dispute.id} was already recorded on order ${order.id}`);
+    return 'ignored';
+  }
+
+  const amount = dispute.amount / 100;
+  const lost = dispute.status === 'lost';
+
+  // A lost dispute takes the money back like a refund does; the dispute id keeps it to one ledger row
+  if (lost) {
+    await recordPayment(supabase, {
+      order_id: order.id,
+      type: 'refund',
+      amount,
+      currency: dispute.currency,
+      stripe_object_id: dispute.id,
+      stripe_payment_intent_id: paymentIntentId,
+      status: 'succeeded',
+      metadata: {
+        dispute_reason: dispute.reason
+      }
+    });
+  }
+
+  // A lost dispute still has to be settled with the customer; a won one needs nothing further
+  const attention = lost
+    ? { needs_attention: true, attention_reason: 'dispute_lost' }
+    : order.attention_reason === 'dispute'
+      ? { needs_attention: false, attention_reason: null }
+      : {};
+
+  await updateOrder(supabase, order.id, {
+    ...attention,
+    dispute_id: dispute.id,
+    dispute_status: dispute.status
+  });
+
+  await recordOrderEvent(supabase, {
+    order_id: order.id,
+    event_type: 'dispute_closed',
+    actor_type: 'system',
+    old_value: order.dispute_id === dispute.id ? order.dispute_status : null,
+    new_value: dispute.status,
+    metadata: {
+      stripe_object_id: dispute.id,
+      payment_intent_id: paymentIntentId,
+      amount
+    }
+  });
+
+  await postOrderMessage(
+    supabase,
+    order,
+    lost
+      ? `The dispute on the $${amount.toFixed(2)} payment for this order was closed and the funds were returned to the card holder.`
+      : `The dispute on the $${amount.toFixed(2)} payment for this order was closed and the payment stands.`
+  );
+
+  return 'processed';
+}
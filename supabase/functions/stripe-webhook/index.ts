@@ -1,5 +1,8 @@
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import Stripe from 'npm:stripe@13.10.0';
+import { processStripeEvent } from './handlers.ts';
+import { issuePaymentInvoice } from '../_shared/invoices.ts';
+import { claimStripeEvent, finishStripeEvent } from './eventLog.ts';
 
 // Initialize environment variables
 const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
@@ -20,6 +23,8 @@ const stripe = new Stripe(stripeSecretKey, {
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const issueInvoice = (orderId: number, paymentIntentId: string) => issuePaymentInvoice(supabase, orderId, paymentIntentId);
+
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -59,21 +64,37 @@ Deno.serve(async (req) => {
       });
     }
 
-    console.log('Processing webhook event:', event.type);
+    console.log('Processing webhook event:', event.type, event.id);
 
-    // Handle different event types
-    switch (event.type) {
-      case 'checkout.session.completed':
-        await handleCheckoutSessionCompleted(event.data.object);
-        break;
-      case 'payment_intent.succeeded':
-        await handlePaymentIntentSucceeded(event.data.object);
-        break;
-      case 'charge.refunded':
-        await handleRefund(event.data.object);
-        break;
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+    // Stripe redelivers events it is unsure about; each event id is handled once
+    const claim = await claimStripeEvent(supabase, event);
+    if (claim === 'duplicate') {
+      console.log(`Event ${event.id} was already handled`);
+      return new Response(JSON.stringify({
+        received: true,
+        duplicate: true
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (claim === 'in_progress') {
+      // Answer with an error so Stripe retries once the other delivery has finished
+      return new Response(JSON.stringify({
+        error: 'Event is already being processed'
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const outcome = await processStripeEvent({ supabase, stripe, issueInvoice }, event);
+      await finishStripeEvent(supabase, event.id, outcome);
+    } catch (processingError) {
+      // Leave the event as failed so Stripe's retry (or the replay script) picks it up again
+      await finishStripeEvent(supabase, event.id, 'failed', processingError.message);
+      throw processingError;
     }
 
     return new Response(JSON.stringify({
@@ -93,229 +114,3 @@ Deno.serve(async (req) => {
     });
   }
 });
-
-async function handleCheckoutSessionCompleted(session) {
-  console.log('Processing checkout session completed for session:', session.id);
-  
-  const orderId = session.metadata?.order_id;
-  if (!orderId) {
-    console.error('No order_id found in session metadata');
-    return;
-  }
-
-  try {
-    // Fetch order with service role to bypass RLS
-    const { data: order, error: fetchError } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('id', orderId)
-      .single();
-
-    if (fetchError || !order) {
-      console.error('Error fetching order:', fetchError);
-      return;
-    }
-
-    // Get payment intent from session
-    const paymentIntentId = session.payment_intent;
-    if (!paymentIntentId) {
-      console.error('No payment intent found in session');
-      return;
-    }
-
-    // Calculate payment amount in dollars
-    const paidAmount = session.amount_total / 100;
-
-    // Update payment intent IDs array
-    let updatedPaymentIntents = order.payment_intent_id || [];
-    if (!updatedPaymentIntents.includes(paymentIntentId)) {
-      updatedPaymentIntents = [...updatedPaymentIntents, paymentIntentId];
-    }
-
-    // Update order - set status to PAID and outstanding_amount to 0
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({
-        payment_intent_id: updatedPaymentIntents,
-        outstanding_amount: 0, // Set to 0 as requested
-        status: 'PAID', // Set status to PAID as requested
-        paid_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId);
-
-    if (updateError) {
-      console.error('Error updating order:', updateError);
-      return;
-    }
-
-    // Add success message to chat
-    try {
-      await supabase
-        .from('messages')
-        .insert({
-          order_id: orderId,
-          sender_id: order.user_id,
-          message_text: `Payment of $${paidAmount.toFixed(2)} received successfully. Order is now being processed.`
-        });
-    } catch (messageError) {
-      console.error('Error adding payment message to chat:', messageError);
-    }
-
-    console.log(`Successfully processed payment for order ${orderId}:
-      Amount: $${paidAmount}
-      Status: PAID
-      Outstanding Amount: 0`);
-
-  } catch (error) {
-    console.error('Error processing checkout session completion:', error);
-  }
-}
-
-async function handlePaymentIntentSucceeded(paymentIntent) {
-  console.log('Processing payment intent succeeded for payment intent:', paymentIntent.id);
-  
-  const orderId = paymentIntent.metadata?.order_id;
-  if (!orderId) {
-    console.error('No order_id found in payment intent metadata');
-    return;
-  }
-
-  try {
-    // Fetch order with service role to bypass RLS
-    const { data: order, error: fetchError } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('id', orderId)
-      .single();
-
-    if (fetchError || !order) {
-      console.error('Error fetching order:', fetchError);
-      return;
-    }
-
-    // Get payment intent from payment intent
-    const paymentIntentId = paymentIntent.id;
-    if (!paymentIntentId) {
-      console.error('No payment intent found in payment intent');
-      return;
-    }
-
-    // Calculate payment amount in dollars
-    const paidAmount = paymentIntent.amount / 100;
-
-    // Update payment intent IDs array
-    let updatedPaymentIntents = order.payment_intent_id || [];
-    if (!updatedPaymentIntents.includes(paymentIntentId)) {
-      updatedPaymentIntents = [...updatedPaymentIntents, paymentIntentId];
-    }
-
-    // Update order - set status to PAID and outstanding_amount to 0
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({
-        payment_intent_id: updatedPaymentIntents,
-        outstanding_amount: 0, // Set to 0 as requested
-        status: 'PAID', // Set status to PAID as requested
-        paid_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId);
-
-    if (updateError) {
-      console.error('Error updating order:', updateError);
-      return;
-    }
-
-    // Add success message to chat
-    try {
-      await supabase
-        .from('messages')
-        .insert({
-          order_id: orderId,
-          sender_id: order.user_id,
-          message_text: `Payment of $${paidAmount.toFixed(2)} received successfully. Order is now being processed.`
-        });
-    } catch (messageError) {
-      console.error('Error adding payment message to chat:', messageError);
-    }
-
-    console.log(`Successfully processed payment for order ${orderId}:
-      Amount: $${paidAmount}
-      Status: PAID
-      Outstanding Amount: 0`);
-
-  } catch (error) {
-    console.error('Error processing payment intent completion:', error);
-  }
-}
-
-async function handleRefund(charge) {
-  console.log('Processing refund for charge:', charge.id);
-  
-  try {
-    // Get the payment intent from the charge
-    const paymentIntentId = charge.payment_intent;
-    if (!paymentIntentId) {
-      console.error('No payment intent found in charge');
-      return;
-    }
-
-    // Find the order that contains this payment intent
-    const { data: orders, error: fetchError } = await supabase
-      .from('orders')
-      .select('*')
-      .contains('payment_intent_id', [paymentIntentId]);
-
-    if (fetchError || !orders || orders.length === 0) {
-      console.error('No order found with payment intent:', paymentIntentId);
-      return;
-    }
-
-    const order = orders[0];
-    const refundAmount = charge.amount_refunded / 100;
-
-    // Update the payment_intent_id array to include the refund ID
-    let updatedPaymentIntents = Array.isArray(order.payment_intent_id) 
-      ? [...order.payment_intent_id] 
-      : [order.payment_intent_id];
-    
-    if (!updatedPaymentIntents.includes(charge.id)) {
-      updatedPaymentIntents.push(charge.id);
-      
-      // Update the order with the new refund ID
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({ 
-          payment_intent_id: updatedPaymentIntents,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', order.id);
-
-      if (updateError) {
-        console.error('Error updating order with refund ID:', updateError);
-        return;
-      }
-    }
-
-    // Send a message in the chat about the refund
-    try {
-      await supabase
-        .from('messages')
-        .insert({
-          order_id: order.id,
-          sender_id: order.user_id,
-          message_text: `A refund of $${refundAmount.toFixed(2)} has been processed for this order. Refund ID: ${charge.id}`
-        });
-    } catch (messageError) {
-      console.error('Error sending refund message to chat:', messageError);
-    }
-
-    console.log(`Successfully processed refund for order ${order.id}:
-      Refund Amount: $${refundAmount}
-      Refund ID: ${charge.id}`);
-
-  } catch (error) {
-    console.error('Error processing refund:', error);
-  }
-}
@@ -0,0 +1,67 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import Stripe from 'npm:stripe@13.10.0';
+import { processStripeEvent } from './handlers.ts';
+import { issuePaymentInvoice } from '../_shared/invoices.ts';
+import { claimStoredStripeEvent, finishStripeEvent, loadStripeEvents } from './eventLog.ts';
+
+// Re-process Stripe events stored in the stripe_events table.
+//
+//   deno run --allow-env --allow-net supabase/functions/stripe-webhook/replay.ts evt_123 evt_456
+//   deno run --allow-env --allow-net supabase/functions/stripe-webhook/replay.ts --failed
+//
+// Needs SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and STRIPE_SECRET_KEY. Handlers skip payments and
+// refunds that are already applied, so replaying an event that did go through changes nothing.
+
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!stripeSecretKey || !supabaseUrl || !supabaseServiceKey) {
+  console.error('Set SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and STRIPE_SECRET_KEY');
+  Deno.exit(1);
+}
+
+const args = Deno.args;
+if (args.length === 0) {
+  console.error('Usage: replay.ts <event id>... | --failed');
+  Deno.exit(1);
+}
+
+const stripe = new Stripe(stripeSecretKey, {
+  apiVersion: '2023-10-16'
+});
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const issueInvoice = (orderId: number, paymentIntentId: string) => issuePaymentInvoice(supabase, orderId, paymentIntentId);
+
+const events = await loadStripeEvents(
+  supabase,
+  args.includes('--failed') ? { status: 'failed' } : { ids: args }
+);
+
+if (events.length === 0) {
+  console.log('No matching events found');
+  Deno.exit(0);
+}
+
+let failures = 0;
+for (const storedEvent of events) {
+  if (!await claimStoredStripeEvent(supabase, storedEvent)) {
+    console.log(`${storedEvent.id}: skipped, it is being processed by another delivery`);
+    continue;
+  }
+
+  try {
+    const outcome = await processStripeEvent({ supabase, stripe, issueInvoice }, storedEvent.payload);
+    await finishStripeEvent(supabase, storedEvent.id, outcome);
+    console.log(`${storedEvent.id} (${storedEvent.payload.type}): ${outcome}`);
+  } catch (error) {
+    failures += 1;
+    const message = error instanceof Error ? error.message : String(error);
+    await finishStripeEvent(supabase, storedEvent.id, 'failed', message);
+    console.error(`${storedEvent.id} (${storedEvent.payload.type}): failed - ${message}`);
+  }
+}
+
+Deno.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,215 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+// In-memory stand-in for the parts of the Supabase query builder the webhook uses.
+// Filters compare values as strings, like PostgREST does with query parameters.
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+}
+
+// Columns with a UNIQUE constraint in the migrations, per table
+const UNIQUE_COLUMNS: Record<string, string> = {
+  payments: 'stripe_object_id',
+  stripe_events: 'id'
+};
+
+export class FakeSupabase {
+  tables: Record<string, Row[]>;
+  // Operations that fail once with a database error, keyed as "table.operation"
+  failures = new Set<string>();
+  private nextId = 1000;
+
+  constructor(tables: Record<string, Row[]> = {}) {
+    this.tables = structuredClone(tables);
+  }
+
+  rows(table: string): Row[] {
+    this.tables[table] ??= [];
+    return this.tables[table];
+  }
+
+  failNext(table: string, operation: 'insert' | 'update' | 'upsert' | 'delete'): void {
+    this.failures.add(`${table}.${operation}`);
+  }
+
+  generateId(): number {
+    this.nextId += 1;
+    return this.nextId;
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private values: Row[] = [];
+  private conflictColumn?: string;
+  private filters: ((row: Row) => boolean)[] = [];
+  private returning = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns?: string): this {
+    if (this.operation !== 'select') {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string }): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumn = options?.onConflict ?? 'id';
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => String(row[column]) === String(value));
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => String(row[column]) !== String(value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.map(String).includes(String(row[column])));
+    return this;
+  }
+
+  // JSON containment, only as deep as the flat metadata objects the handlers match on
+  contains(column: string, value: Row): this {
+    this.filters.push((row) => {
+      const stored = (row[column] ?? {}) as Row;
+      return Object.entries(value).every(([key, expected]) => stored[key] === expected);
+    });
+    return this;
+  }
+
+  order(_column: string, _options?: unknown): this {
+    return this;
+  }
+
+  limit(_count: number): this {
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private execute(): QueryResult {
+    if (this.db.failures.delete(`${this.table}.${this.operation}`)) {
+      return { data: null, error: { message: `${this.operation} on ${this.table} failed` } };
+    }
+
+    switch (this.operation) {
+      case 'insert':
+        return this.executeInsert();
+      case 'update': {
+        const rows = this.matching();
+        rows.forEach((row) => Object.assign(row, structuredClone(this.values[0])));
+        return this.result(rows, this.returning);
+      }
+      case 'delete': {
+        const rows = this.matching();
+        this.db.tables[this.table] = this.db.rows(this.table).filter((row) => !rows.includes(row));
+        return this.result(rows, this.returning);
+      }
+      case 'upsert': {
+        const column = this.conflictColumn!;
+        const rows = this.values.map((value) => {
+          const existing = this.db.rows(this.table).find((row) => row[column] === value[column]);
+          if (existing) {
+            return Object.assign(existing, structuredClone(value));
+          }
+          const row = { id: this.db.generateId(), ...structuredClone(value) };
+          this.db.rows(this.table).push(row);
+          return row;
+        });
+        return this.result(rows, this.returning);
+      }
+      default:
+        return this.result(this.matching(), true);
+    }
+  }
+
+  private executeInsert(): QueryResult {
+    const uniqueColumn = UNIQUE_COLUMNS[this.table];
+    const table = this.db.rows(this.table);
+
+    for (const value of this.values) {
+      const key = uniqueColumn ? value[uniqueColumn] : undefined;
+      if (key !== undefined && key !== null && table.some((row) => row[uniqueColumn] === key)) {
+        return {
+          data: null,
+          error: { code: '23505', message: `duplicate key value violates unique constraint on ${this.table}.${uniqueColumn}` }
+        };
+      }
+    }
+
+    const rows = this.values.map((value) => ({ id: this.db.generateId(), ...structuredClone(value) }));
+    table.push(...rows);
+    return this.result(rows, this.returning);
+  }
+
+  private result(rows: Row[], returnRows: boolean): QueryResult {
+    if (!returnRows) {
+      return { data: null, error: null };
+    }
+
+    const data = structuredClone(rows);
+    if (this.cardinality === 'many') {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected a single row, found ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
@@ -0,0 +1,66 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { getCarriers } from '../_shared/carriers.ts';
+import { syncShipments } from './sync.ts';
+
+// Scheduled tracking status sync. Polls the carrier of every shipment that is not delivered yet, records
+// status changes in the order history and moves an order to DELIVERED once all of its shipments are.
+//
+// Run it hourly with pg_cron and pg_net, keeping the project URL and service role key in Vault:
+//
+//   select cron.schedule('sync-shipments', '30 * * * *', $$
+//     select net.http_post(
+//       url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/sync-shipments',
+//       headers := jsonb_build_object('Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'))
+//     )
+//   $$);
+//
+// Only carriers with a tracking integration are polled. Set ENABLE_FAKE_CARRIER=true to try it locally
+// with the fake carrier, which delivers three days after the ship date.
+
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  supabaseServiceKey
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only the scheduler, calling with the service role key, may run the sync
+    const authHeader = req.headers.get('authorization');
+    if (!supabaseServiceKey || authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await syncShipments({ supabase, carriers: getCarriers(), now: new Date() });
+
+    return new Response(
+      JSON.stringify({ success: result.failures.length === 0, data: result }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
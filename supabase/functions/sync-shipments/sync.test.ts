@@ -0,0 +1,131 @@
+import { assertEquals, assertStringIncludes } from 'jsr:@std/assert@1';
+import { fakeCarrier, getCarriers } from '../_shared/carriers.ts';
+import { FakeSupabase } from '../stripe-webhook/testing/fakeSupabase.ts';
+import { SyncDeps, syncShipments } from './sync.ts';
+
+// Run with: deno test --allow-read --allow-env supabase/functions/sync-shipments/
+
+const USER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const shippingOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 42,
+  user_id: USER_ID,
+  status: 'SHIPPING',
+  ...overrides
+});
+
+const shipment = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  order_id: 42,
+  carrier: 'fake',
+  tracking_number: 'FAKE0001',
+  ship_date: '2025-09-01',
+  package_count: 1,
+  tracking_status: 'label_created',
+  tracking_status_detail: null,
+  last_checked_at: null,
+  delivered_at: null,
+  ...overrides
+});
+
+const createDeps = (db: FakeSupabase, now: string): SyncDeps => ({
+  supabase: db.asClient(),
+  carriers: { ...getCarriers(), fake: fakeCarrier },
+  now: new Date(now)
+});
+
+Deno.test('a shipment in transit is updated and recorded in the order history', async () => {
+  const db = new FakeSupabase({ orders: [shippingOrder()], shipments: [shipment()] });
+
+  const result = await syncShipments(createDeps(db, '2025-09-02T12:00:00Z'));
+
+  assertEquals(result, { shipments_checked: 1, status_changes: 1, orders_delivered: 0, failures: [] });
+  const [row] = db.rows('shipments');
+  assertEquals(row.tracking_status, 'in_transit');
+  assertEquals(row.last_checked_at, '2025-09-02T12:00:00.000Z');
+
+  const events = db.rows('order_events');
+  assertEquals(events.length, 1);
+  assertEquals(events[0].event_type, 'shipment_status_changed');
+  assertEquals(events[0].old_value, 'label_created');
+  assertEquals(events[0].new_value, 'in_transit');
+  assertEquals(db.rows('orders')[0].status, 'SHIPPING');
+});
+
+Deno.test('the order moves to DELIVERED once its shipment is delivered', async () => {
+  const db = new FakeSupabase({ orders: [shippingOrder()], shipments: [shipment({ tracking_status: 'out_for_delivery' })] });
+
+  const result = await syncShipments(createDeps(db, '2025-09-05T12:00:00Z'));
+
+  assertEquals(result.orders_delivered, 1);
+  const [row] = db.rows('shipments');
+  assertEquals(row.tracking_status, 'delivered');
+  assertEquals(row.delivered_at, '2025-09-04T00:00:00.000Z');
+  assertEquals(db.rows('orders')[0].status, 'DELIVERED');
+
+  const statusEvents = db.rows('order_events').filter((event) => event.event_type === 'status_changed');
+  assertEquals(statusEvents.length, 1);
+  assertEquals(statusEvents[0].actor_type, 'system');
+  assertEquals(statusEvents[0].new_value, 'DELIVERED');
+
+  const messages = db.rows('messages');
+  assertEquals(messages.length, 1);
+  assertEquals(messages[0].sender_id, USER_ID);
+  assertStringIncludes(String(messages[0].message_text), 'delivered');
+});
+
+Deno.test('the order waits for all of its shipments', async () => {
+  const db = new FakeSupabase({
+    orders: [shippingOrder()],
+    shipments: [
+      shipment(),
+      shipment({ id: 8, tracking_number: 'FAKE0002', ship_date: '2025-09-04' })
+    ]
+  });
+
+  const result = await syncShipments(createDeps(db, '2025-09-05T12:00:00Z'));
+
+  assertEquals(result.orders_delivered, 0);
+  assertEquals(db.rows('shipments').map((row) => row.tracking_status), ['delivered', 'in_transit']);
+  assertEquals(db.rows('orders')[0].status, 'SHIPPING');
+  assertEquals(db.rows('messages').length, 0);
+});
+
+Deno.test('an order staff already moved on is left alone', async () => {
+  const db = new FakeSupabase({ orders: [shippingOrder({ status: 'RETURNED' })], shipments: [shipment()] });
+
+  const result = await syncShipments(createDeps(db, '2025-09-05T12:00:00Z'));
+
+  assertEquals(result.orders_delivered, 0);
+  assertEquals(db.rows('shipments')[0].tracking_status, 'delivered');
+  assertEquals(db.rows('orders')[0].status, 'RETURNED');
+});
+
+Deno.test('a delivery exception is recorded without delivering the order', async () => {
+  const db = new FakeSupabase({
+    orders: [shippingOrder()],
+    shipments: [shipment({ tracking_number: 'FAKE-EXCEPTION-1', tracking_status: 'in_transit' })]
+  });
+
+  await syncShipments(createDeps(db, '2025-09-05T12:00:00Z'));
+
+  const [row] = db.rows('shipments');
+  assertEquals(row.tracking_status, 'exception');
+  assertEquals(row.tracking_status_detail, 'Delivery attempted, address not found');
+  assertEquals(db.rows('orders')[0].status, 'SHIPPING');
+});
+
+Deno.test('carriers without a tracking integration and delivered shipments are not polled', async () => {
+  const db = new FakeSupabase({
+    orders: [shippingOrder()],
+    shipments: [
+      shipment({ carrier: 'ups', tracking_number: '1Z999AA10123456784' }),
+      shipment({ id: 8, tracking_status: 'delivered' })
+    ]
+  });
+
+  const result = await syncShipments(createDeps(db, '2025-09-05T12:00:00Z'));
+
+  assertEquals(result.shipments_checked, 0);
+  assertEquals(db.rows('shipments').map((row) => row.last_checked_at), [null, null]);
+});
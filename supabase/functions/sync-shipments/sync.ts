@@ -0,0 +1,181 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { CarrierAdapter, TrackingStatus } from '../_shared/carriers.ts';
+import { recordOrderEvent } from '../_shared/orderEvents.ts';
+
+// Tracking status sync. Clients are passed in so the same code serves the scheduled function and the
+// tests (which use a stubbed Supabase client and the fake carrier).
+
+export interface SyncDeps {
+  supabase: SupabaseClient;
+  carriers: Record<string, CarrierAdapter>;
+  now: Date;
+}
+
+export interface SyncResult {
+  shipments_checked: number;
+  status_changes: number;
+  orders_delivered: number;
+  failures: { shipment_id: number; error: string }[];
+}
+
+interface ShipmentRow {
+  id: number;
+  order_id: number;
+  carrier: string;
+  tracking_number: string;
+  ship_date: string;
+  tracking_status: TrackingStatus;
+}
+
+const BATCH_SIZE = 100;
+
+// Moves a SHIPPING order to DELIVERED once every one of its shipments is delivered; returns whether it did
+async function completeDeliveredOrder({ supabase }: SyncDeps, orderId: number): Promise<boolean> {
+  const { data: shipments, error: shipmentsError } = await supabase
+    .from('shipments')
+    .select('tracking_status')
+    .eq('order_id', orderId);
+
+  if (shipmentsError) {
+    throw new Error(`Failed to fetch shipments of order ${orderId}: ${shipmentsError.message}`);
+  }
+  if (!(shipments || []).every((shipment) => shipment.tracking_status === 'delivered')) {
+    return false;
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, user_id, status')
+    .eq('id', orderId)
+    .single();
+
+  if (orderError || !order) {
+    throw new Error(`Failed to fetch order ${orderId}: ${orderError?.message ?? 'not found'}`);
+  }
+  // Staff may have moved the order on already, e.g. to RETURNED
+  if (order.status !== 'SHIPPING') {
+    return false;
+  }
+
+  const { data: updatedOrder, error: updateError } = await supabase
+    .from('orders')
+    .update({ status: 'DELIVERED', updated_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', 'SHIPPING')
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to mark order ${orderId} delivered: ${updateError.message}`);
+  }
+  if (!updatedOrder) {
+    return false;
+  }
+
+  await recordOrderEvent(supabase, {
+    order_id: orderId,
+    event_type: 'status_changed',
+    actor_type: 'system',
+    old_value: 'SHIPPING',
+    new_value: 'DELIVERED',
+    metadata: { reason: 'shipments_delivered' }
+  });
+
+  const { error: messageError } = await supabase
+    .from('messages')
+    .insert({
+      order_id: orderId,
+      sender_id: order.user_id,
+      message_text: 'Your order has been delivered. Thank you for your business!'
+    });
+
+  if (messageError) {
+    console.error(`Error adding message to the chat of order ${orderId}:`, messageError);
+  }
+
+  return true;
+}
+
+// Polls the carrier for one shipment and stores what changed; returns the shipment's new status
+async function syncShipment(deps: SyncDeps, shipment: ShipmentRow): Promise<TrackingStatus> {
+  const { supabase, carriers, now } = deps;
+  const update = await carriers[shipment.carrier].getTrackingStatus!(shipment, now);
+
+  const { error: updateError } = await supabase
+    .from('shipments')
+    .update({
+      tracking_status: update.status,
+      tracking_status_detail: update.detail,
+      delivered_at: update.delivered_at,
+      last_checked_at: now.toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', shipment.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update shipment ${shipment.id}: ${updateError.message}`);
+  }
+
+  if (update.status === shipment.tracking_status) {
+    return update.status;
+  }
+
+  await recordOrderEvent(supabase, {
+    order_id: shipment.order_id,
+    event_type: 'shipment_status_changed',
+    actor_type: 'system',
+    old_value: shipment.tracking_status,
+    new_value: update.status,
+    metadata: {
+      shipment_id: shipment.id,
+      carrier: shipment.carrier,
+      tracking_number: shipment.tracking_number,
+      detail: update.detail
+    }
+  });
+
+  return update.status;
+}
+
+export async function syncShipments(deps: SyncDeps): Promise<SyncResult> {
+  const trackable = Object.values(deps.carriers)
+    .filter((carrier) => carrier.getTrackingStatus)
+    .map((carrier) => carrier.code);
+
+  const result: SyncResult = { shipments_checked: 0, status_changes: 0, orders_delivered: 0, failures: [] };
+  if (trackable.length === 0) {
+    return result;
+  }
+
+  // Least recently checked first, so a backlog larger than one batch is worked through over several runs
+  const { data: shipments, error: shipmentsError } = await deps.supabase
+    .from('shipments')
+    .select('id, order_id, carrier, tracking_number, ship_date, tracking_status')
+    .in('carrier', trackable)
+    .neq('tracking_status', 'delivered')
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+
+  if (shipmentsError) {
+    throw new Error(`Failed to fetch shipments: ${shipmentsError.message}`);
+  }
+
+  // One shipment failing should not hold up the rest; it is picked up again on the next run
+  for (const shipment of (shipments || []) as ShipmentRow[]) {
+    try {
+      const status = await syncShipment(deps, shipment);
+      result.shipments_checked += 1;
+      if (status !== shipment.tracking_status) {
+        result.status_changes += 1;
+      }
+      if (status === 'delivered' && await completeDeliveredOrder(deps, shipment.order_id)) {
+        result.orders_delivered += 1;
+      }
+    } catch (error) {
+      console.error(`Error syncing shipment ${shipment.id}:`, error);
+      result.failures.push({ shipment_id: shipment.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
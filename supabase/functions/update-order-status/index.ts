@@ -0,0 +1,271 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  canTransitionOrderStatus,
+  getAllowedNextStatuses,
+  isOrderStatus,
+  requiresSettledBalance
+} from '../_shared/orderStatus.ts';
+import { recordOrderEvent } from '../_shared/orderEvents.ts';
+import { CarrierAdapter, getCarriers } from '../_shared/carriers.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const carriers = getCarriers();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface ShipmentInput {
+  carrier: string;
+  tracking_number: string;
+  ship_date: string;
+  package_count: number;
+  weight_lbs: number | null;
+}
+
+// Moving an order to SHIPPING records how it was shipped; returns an error message for bad input
+function parseShipment(value: any): ShipmentInput | string {
+  if (!value || typeof value !== 'object') {
+    return 'Shipment details are required to move an order to SHIPPING';
+  }
+  // Own keys only: a prototype name such as "constructor" would pass a plain lookup
+  if (typeof value.carrier !== 'string' || !Object.hasOwn(carriers, value.carrier)) {
+    return `Unknown carrier: ${value.carrier}`;
+  }
+  const trackingNumber = String(value.tracking_number ?? '').trim();
+  if (!trackingNumber) {
+    return 'Tracking number is required';
+  }
+  const shipDate = String(value.ship_date ?? new Date().toISOString().slice(0, 10));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(shipDate) || Number.isNaN(Date.parse(shipDate))) {
+    return 'Ship date must be a date like 2025-09-01';
+  }
+  const packageCount = Number(value.package_count ?? 1);
+  if (!Number.isInteger(packageCount) || packageCount < 1) {
+    return 'Package count must be a whole number of at least 1';
+  }
+  const weight = value.weight_lbs === null || value.weight_lbs === undefined || value.weight_lbs === ''
+    ? null
+    : Number(value.weight_lbs);
+  if (weight !== null && (!Number.isFinite(weight) || weight <= 0)) {
+    return 'Weight must be a positive number of pounds';
+  }
+
+  return {
+    carrier: value.carrier,
+    tracking_number: trackingNumber,
+    ship_date: shipDate,
+    package_count: packageCount,
+    weight_lbs: weight
+  };
+}
+
+function getShipmentMessage(carrier: CarrierAdapter, shipment: ShipmentInput): string {
+  const packages = `${shipment.package_count} package${shipment.package_count === 1 ? '' : 's'}`;
+  const url = carrier.trackingUrl(shipment.tracking_number);
+  return `Your order has shipped with ${carrier.name} (${packages}). Tracking number: ${shipment.tracking_number}` +
+    (url ? `\nTrack it here: ${url}` : '');
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get user from authorization header
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only admins may change order status
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only admins can change order status' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { order_id, status, shipment: shipmentBody } = await req.json();
+
+    if (!order_id || !isOrderStatus(status)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing order_id or invalid status' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const shipment = status === 'SHIPPING' ? parseShipment(shipmentBody) : null;
+    if (typeof shipment === 'string') {
+      return new Response(
+        JSON.stringify({ success: false, error: shipment }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, status, outstanding_amount')
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (order.status === status) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Order is already ${status}` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!canTransitionOrderStatus(order.status, status)) {
+      const allowed = getAllowedNextStatuses(order.status);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Cannot change order status from ${order.status} to ${status}. ` +
+            (allowed.length > 0 ? `Allowed next statuses: ${allowed.join(', ')}.` : `${order.status} is a final status.`),
+          allowed_statuses: allowed
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The balance has to be collected before the order ships
+    const outstandingAmount = Number(order.outstanding_amount || 0);
+    if (requiresSettledBalance(status) && outstandingAmount > 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Cannot move order to ${status} while $${outstandingAmount.toFixed(2)} is still outstanding`
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Guard against a concurrent change between the read above and this write
+    const { data: updatedOrder, error: updateError } = await supabase
+      .from('orders')
+      .update({
+        status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', order.id)
+      .eq('status', order.status)
+      .select()
+      .single();
+
+    if (updateError || !updatedOrder) {
+      console.error('Error updating order status:', updateError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Order was modified by someone else. Reload and try again.' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let createdShipment = null;
+    if (shipment) {
+      const { data, error: shipmentError } = await supabase
+        .from('shipments')
+        .insert({
+          order_id: order.id,
+          ...shipment,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (shipmentError || !data) {
+        // An order in SHIPPING without its shipment could never be tracked, so put the status back
+        console.error('Error creating shipment:', shipmentError);
+        await supabase
+          .from('orders')
+          .update({ status: order.status, updated_at: new Date().toISOString() })
+          .eq('id', order.id)
+          .eq('status', status);
+        return new Response(
+          JSON.stringify({ success: false, error: `Failed to record the shipment: ${shipmentError?.message ?? 'unknown error'}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      createdShipment = data;
+    }
+
+    // Record what changed in the audit trail
+    await recordOrderEvent(supabase, {
+      order_id: order.id,
+      event_type: 'status_changed',
+      actor_id: user.id,
+      actor_type: 'admin',
+      old_value: order.status,
+      new_value: status
+    });
+
+    if (shipment && createdShipment) {
+      await recordOrderEvent(supabase, {
+        order_id: order.id,
+        event_type: 'shipment_created',
+        actor_id: user.id,
+        actor_type: 'admin',
+        new_value: shipment.tracking_number,
+        metadata: { shipment_id: createdShipment.id, carrier: shipment.carrier, package_count: shipment.package_count }
+      });
+
+      // Send the tracking details in the chat
+      await supabase
+        .from('messages')
+        .insert({
+          order_id: order.id,
+          sender_id: user.id,
+          message_text: getShipmentMessage(carriers[shipment.carrier], shipment)
+        });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, data: { order: updatedOrder, shipment: createdShipment } }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,51 @@
+-- Create order_events table as an append-only audit trail of order mutations
+CREATE TABLE IF NOT EXISTS order_events (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'status_changed',
+    'outstanding_amount_changed',
+    'payment_received',
+    'refund_issued',
+    'refund_processed'
+  )),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('customer', 'admin', 'system')),
+  old_value JSONB,
+  new_value JSONB,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for timeline lookups
+CREATE INDEX IF NOT EXISTS idx_order_events_order_created ON order_events(order_id, created_at);
+
+-- Add RLS policies
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Customers can view the history of their own orders
+CREATE POLICY "Users can view events for their own orders"
+  ON order_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_events.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view the history of every order
+CREATE POLICY "Admins can view all order events"
+  ON order_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: events are only written by edge functions
+-- using the service role, so clients cannot forge or rewrite history.
@@ -0,0 +1,102 @@
+-- Create quotes table: an itemized price for an order, built by an admin
+CREATE TABLE IF NOT EXISTS quotes (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  shipping_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (shipping_amount >= 0),
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  total NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (total >= 0),
+  notes TEXT,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create quote_line_items table: one row per cushion (or extra charge) on a quote
+CREATE TABLE IF NOT EXISTS quote_line_items (
+  id BIGSERIAL PRIMARY KEY,
+  quote_id BIGINT NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  cushion_id UUID REFERENCES cushions(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  base_price NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (base_price >= 0),
+  mirror_surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (mirror_surcharge >= 0),
+  fabric_surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (fabric_surcharge >= 0),
+  line_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_quotes_order_created ON quotes(order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_quote ON quote_line_items(quote_id, sort_order);
+
+-- Add RLS policies
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quote_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Customers can view quotes for their own orders
+CREATE POLICY "Users can view quotes for their own orders"
+  ON quotes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = quotes.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view all quotes
+CREATE POLICY "Admins can view all quotes"
+  ON quotes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- Policy: Customers can view line items of quotes for their own orders
+CREATE POLICY "Users can view line items for their own quotes"
+  ON quote_line_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes
+      JOIN orders ON orders.id = quotes.order_id
+      WHERE quotes.id = quote_line_items.quote_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view all line items
+CREATE POLICY "Admins can view all quote line items"
+  ON quote_line_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- Quotes are written only by the save-quote and respond-to-quote edge functions (service role),
+-- which recompute totals server-side.
+
+-- Allow quote events in the order audit trail
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check CHECK (event_type IN (
+  'status_changed',
+  'outstanding_amount_changed',
+  'payment_received',
+  'refund_issued',
+  'refund_processed',
+  'quote_created',
+  'quote_accepted'
+));
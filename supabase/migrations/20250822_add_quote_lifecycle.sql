@@ -0,0 +1,62 @@
+-- Add an explicit lifecycle to quotes: DRAFT -> SENT -> ACCEPTED / REJECTED / EXPIRED
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'DRAFT'
+    CHECK (status IN ('DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED')),
+  ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS rejected_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Existing quotes were sent to the customer as soon as they were created
+UPDATE quotes
+SET
+  status = CASE WHEN accepted_at IS NOT NULL THEN 'ACCEPTED' ELSE 'SENT' END,
+  sent_at = created_at,
+  expires_at = created_at + INTERVAL '30 days'
+WHERE sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_order_status ON quotes(order_id, status);
+
+-- Drafts are internal: customers only see quotes that have been sent to them
+DROP POLICY IF EXISTS "Users can view quotes for their own orders" ON quotes;
+CREATE POLICY "Users can view quotes for their own orders"
+  ON quotes
+  FOR SELECT
+  USING (
+    status <> 'DRAFT'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = quotes.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view line items for their own quotes" ON quote_line_items;
+CREATE POLICY "Users can view line items for their own quotes"
+  ON quote_line_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes
+      JOIN orders ON orders.id = quotes.order_id
+      WHERE quotes.id = quote_line_items.quote_id
+        AND quotes.status <> 'DRAFT'
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Allow quote lifecycle events in the order audit trail
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check CHECK (event_type IN (
+  'status_changed',
+  'outstanding_amount_changed',
+  'payment_received',
+  'refund_issued',
+  'refund_processed',
+  'quote_created',
+  'quote_sent',
+  'quote_accepted',
+  'quote_rejected',
+  'quote_expired'
+));
@@ -0,0 +1,39 @@
+-- Deposit and balance payments: an order can be paid in several installments
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS deposit_percent NUMERIC(5, 2) NOT NULL DEFAULT 0
+    CHECK (deposit_percent >= 0 AND deposit_percent < 100);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS total_amount NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Backfill from the latest sent quote; orders with a recorded payment paid whatever is no longer outstanding
+UPDATE orders
+SET
+  total_amount = latest.total,
+  amount_paid = CASE
+    WHEN COALESCE(array_length(orders.payment_intent_id, 1), 0) > 0
+      THEN GREATEST(latest.total - COALESCE(orders.outstanding_amount, 0), 0)
+    ELSE 0
+  END
+FROM (
+  SELECT DISTINCT ON (order_id) order_id, total
+  FROM quotes
+  WHERE status <> 'DRAFT'
+  ORDER BY order_id, created_at DESC
+) AS latest
+WHERE latest.order_id = orders.id
+  AND orders.total_amount IS NULL;
+
+-- A paid deposit leaves the order PARTIALLY_PAID until the balance is settled
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (status IN (
+  'UNPAID',
+  'PARTIALLY_PAID',
+  'PAID',
+  'PREPARING',
+  'SHIPPING',
+  'DELIVERED',
+  'CANCELLED',
+  'RETURNED'
+));
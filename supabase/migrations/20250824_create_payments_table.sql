@@ -0,0 +1,156 @@
+-- Create payments table as the ledger of money moved for each order.
+-- Replaces orders.payment_intent_id, which mixed PaymentIntent, refund and charge ids without amounts.
+CREATE TABLE IF NOT EXISTS payments (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('charge', 'refund', 'adjustment')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0), -- the type gives the direction
+  currency TEXT NOT NULL DEFAULT 'usd',
+  stripe_object_id TEXT UNIQUE, -- pi_..., re_... (or ch_... for backfilled charge refunds)
+  stripe_payment_intent_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled', 'requires_action')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_created ON payments(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_intent ON payments(stripe_payment_intent_id);
+
+-- Backfill charges from the PaymentIntent ids on each order. Amounts come from the payment_received
+-- audit events; an order with a single payment and no event falls back to its paid total.
+INSERT INTO payments (order_id, type, amount, currency, stripe_object_id, stripe_payment_intent_id, status, metadata, created_at)
+SELECT
+  o.id,
+  'charge',
+  COALESCE(
+    (
+      SELECT (e.new_value #>> '{}')::NUMERIC
+      FROM order_events e
+      WHERE e.order_id = o.id
+        AND e.event_type = 'payment_received'
+        AND e.metadata->>'payment_intent_id' = ids.id
+      ORDER BY e.created_at
+      LIMIT 1
+    ),
+    CASE
+      WHEN (SELECT COUNT(*) FROM unnest(o.payment_intent_id) AS x(id) WHERE x.id LIKE 'pi\_%') = 1
+        THEN COALESCE(NULLIF(o.amount_paid, 0), o.total_amount, 0)
+      ELSE 0
+    END
+  ),
+  'usd',
+  ids.id,
+  ids.id,
+  'succeeded',
+  jsonb_build_object('backfilled', true),
+  COALESCE(o.paid_at, o.updated_at, o.created_at)
+FROM orders o
+CROSS JOIN LATERAL unnest(o.payment_intent_id) AS ids(id)
+WHERE ids.id LIKE 'pi\_%'
+ON CONFLICT (stripe_object_id) DO NOTHING;
+
+-- Backfill refunds issued from the app (re_... ids) from their refund_issued audit events
+INSERT INTO payments (order_id, type, amount, currency, stripe_object_id, stripe_payment_intent_id, status, created_by, metadata, created_at)
+SELECT
+  o.id,
+  'refund',
+  COALESCE((e.new_value #>> '{}')::NUMERIC, 0),
+  'usd',
+  ids.id,
+  e.metadata->>'payment_intent_id',
+  'succeeded',
+  e.actor_id,
+  jsonb_build_object('backfilled', true),
+  COALESCE(e.created_at, o.updated_at)
+FROM orders o
+CROSS JOIN LATERAL unnest(o.payment_intent_id) AS ids(id)
+LEFT JOIN order_events e
+  ON e.order_id = o.id
+  AND e.event_type = 'refund_issued'
+  AND e.metadata->>'refund_id' = ids.id
+WHERE ids.id LIKE 're\_%'
+ON CONFLICT (stripe_object_id) DO NOTHING;
+
+-- Charge ids were pushed by the charge.refunded webhook and report the cumulative refunded amount.
+-- Only the part not already covered by app-issued refunds (e.g. refunds made in the Stripe dashboard) is added.
+-- The webhook replaces these rows with one row per refund (re_...) on the next charge.refunded for the charge.
+INSERT INTO payments (order_id, type, amount, currency, stripe_object_id, stripe_payment_intent_id, status, metadata, created_at)
+SELECT
+  refunded.order_id,
+  'refund',
+  refunded.amount - COALESCE((
+    SELECT SUM(p.amount)
+    FROM payments p
+    WHERE p.order_id = refunded.order_id
+      AND p.type = 'refund'
+      AND p.stripe_payment_intent_id = refunded.payment_intent_id
+  ), 0),
+  'usd',
+  refunded.charge_id,
+  refunded.payment_intent_id,
+  'succeeded',
+  jsonb_build_object('backfilled', true, 'source', 'charge'),
+  refunded.created_at
+FROM (
+  SELECT DISTINCT ON (o.id, ids.id)
+    o.id AS order_id,
+    ids.id AS charge_id,
+    e.metadata->>'payment_intent_id' AS payment_intent_id,
+    (e.new_value #>> '{}')::NUMERIC AS amount,
+    e.created_at
+  FROM orders o
+  CROSS JOIN LATERAL unnest(o.payment_intent_id) AS ids(id)
+  JOIN order_events e
+    ON e.order_id = o.id
+    AND e.event_type = 'refund_processed'
+    AND e.metadata->>'charge_id' = ids.id
+  WHERE ids.id LIKE 'ch\_%'
+  ORDER BY o.id, ids.id, e.created_at DESC
+) AS refunded
+WHERE refunded.amount > COALESCE((
+  SELECT SUM(p.amount)
+  FROM payments p
+  WHERE p.order_id = refunded.order_id
+    AND p.type = 'refund'
+    AND p.stripe_payment_intent_id = refunded.payment_intent_id
+), 0)
+ON CONFLICT (stripe_object_id) DO NOTHING;
+
+-- From now on payment_intent_id only holds PaymentIntent ids
+UPDATE orders
+SET payment_intent_id = ARRAY(
+  SELECT x.id FROM unnest(orders.payment_intent_id) AS x(id) WHERE x.id LIKE 'pi\_%'
+)
+WHERE EXISTS (
+  SELECT 1 FROM unnest(orders.payment_intent_id) AS x(id) WHERE x.id NOT LIKE 'pi\_%'
+);
+
+-- Add RLS policies
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Customers can view the payments of their own orders
+CREATE POLICY "Users can view payments for their own orders"
+  ON payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view the payments of every order
+CREATE POLICY "Admins can view all payments"
+  ON payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: the ledger is only written by edge functions using the service role.
@@ -0,0 +1,35 @@
+-- Create stripe_events table: every webhook event Stripe delivered, keyed by its event id.
+-- Used to skip redeliveries and to replay events after a failure.
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  stripe_created_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for finding failed events to replay
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, stripe_created_at);
+
+-- Add RLS policies
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can inspect the event log
+CREATE POLICY "Admins can view stripe events"
+  ON stripe_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: only the stripe-webhook function writes here using the service role.
@@ -0,0 +1,33 @@
+-- Payment problems reported by Stripe: failed and expired payments, disputes and refunds that did not go through.
+-- Orders with a problem an admin has to act on are flagged with needs_attention until an admin resolves them.
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS needs_attention BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS attention_reason TEXT,
+  ADD COLUMN IF NOT EXISTS last_payment_error TEXT,
+  ADD COLUMN IF NOT EXISTS last_payment_error_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS dispute_id TEXT,
+  ADD COLUMN IF NOT EXISTS dispute_status TEXT,
+  ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create index for the flagged orders at the top of the admin orders list
+CREATE INDEX IF NOT EXISTS idx_orders_needs_attention ON orders(needs_attention) WHERE needs_attention;
+
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check CHECK (event_type IN (
+  'status_changed',
+  'outstanding_amount_changed',
+  'payment_received',
+  'payment_failed',
+  'checkout_expired',
+  'refund_issued',
+  'refund_processed',
+  'refund_updated',
+  'dispute_opened',
+  'dispute_closed',
+  'attention_resolved',
+  'quote_created',
+  'quote_sent',
+  'quote_accepted',
+  'quote_rejected',
+  'quote_expired'
+));
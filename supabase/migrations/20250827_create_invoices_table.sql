@@ -0,0 +1,50 @@
+-- Create invoices table: every invoice PDF issued for an order, numbered from one sequence.
+-- An invoice is a snapshot; a later payment or refund issues a new one instead of changing an old one.
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL UNIQUE DEFAULT ('INV-' || lpad(nextval('invoice_number_seq')::text, 6, '0')),
+  payment_id BIGINT UNIQUE REFERENCES payments(id) ON DELETE SET NULL, -- the payment it was issued for, if any
+  quote_id BIGINT REFERENCES quotes(id) ON DELETE SET NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  amount_paid NUMERIC(10, 2) NOT NULL, -- net of refunds
+  balance_due NUMERIC(10, 2) NOT NULL,
+  payment_count INTEGER NOT NULL DEFAULT 0, -- ledger rows included; a different count means the invoice is out of date
+  storage_path TEXT, -- object in the media bucket; NULL until the PDF has been uploaded
+  issued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for the latest invoice of an order
+CREATE INDEX IF NOT EXISTS idx_invoices_order_issued ON invoices(order_id, issued_at DESC);
+
+-- Add RLS policies
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view invoices for their own orders
+CREATE POLICY "Users can view invoices for their own orders"
+  ON invoices
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = invoices.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view the invoices of every order
+CREATE POLICY "Admins can view all invoices"
+  ON invoices
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: invoices are only issued by edge functions using the service role.
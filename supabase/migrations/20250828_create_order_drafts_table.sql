@@ -0,0 +1,99 @@
+-- Create order_drafts table: an order reserved before its files are uploaded.
+-- Uploads go under scans/<user_id>/<draft_id>/, and finalize_order_draft turns the draft into an order
+-- and its cushions in one transaction. Files of drafts that were never finalized, and files a finalized
+-- order does not reference, are removed by the cleanup-order-drafts function.
+CREATE TABLE IF NOT EXISTS order_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'finalized', 'abandoned')),
+  order_id BIGINT REFERENCES orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finalized_at TIMESTAMP WITH TIME ZONE,
+  storage_cleaned_at TIMESTAMP WITH TIME ZONE -- set once the cleanup has swept the draft's folder
+);
+
+-- Create index for the cleanup's search for drafts still to sweep
+CREATE INDEX IF NOT EXISTS idx_order_drafts_cleanup ON order_drafts(status, updated_at) WHERE storage_cleaned_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_order_drafts_user ON order_drafts(user_id, updated_at DESC);
+
+-- Add RLS policies
+ALTER TABLE order_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own drafts
+CREATE POLICY "Users can view their own drafts"
+  ON order_drafts
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Users can reserve drafts for themselves
+CREATE POLICY "Users can create their own drafts"
+  ON order_drafts
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND status = 'open' AND order_id IS NULL);
+
+-- Finalizing and cleanup run through the service role; users cannot change a draft's status.
+
+-- Create the order and its cushions from a draft in one transaction, so an order never exists without
+-- its cushions. Finalizing an already finalized draft returns its order, which makes retries safe.
+-- p_draft_id may be NULL for orders without uploads.
+CREATE OR REPLACE FUNCTION finalize_order_draft(
+  p_user_id UUID,
+  p_draft_id UUID,
+  p_order JSONB,
+  p_cushions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_draft order_drafts;
+  v_order orders;
+BEGIN
+  IF p_draft_id IS NOT NULL THEN
+    SELECT * INTO v_draft FROM order_drafts WHERE id = p_draft_id FOR UPDATE;
+
+    IF NOT FOUND OR v_draft.user_id <> p_user_id THEN
+      RAISE EXCEPTION 'Order draft % not found', p_draft_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_draft.status = 'finalized' AND v_draft.order_id IS NOT NULL THEN
+      SELECT * INTO v_order FROM orders WHERE id = v_draft.order_id;
+      RETURN v_order;
+    END IF;
+
+    IF v_draft.status <> 'open' THEN
+      RAISE EXCEPTION 'Order draft % has expired', p_draft_id USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO orders (
+    user_id, projectname, quantity, color, name, contact_name, address, address2, city, country,
+    zipcode, state, company_phone, phonenumber, email, ship_by_date, boat_make, boat_model,
+    boat_year, boat_length, "boat_HIN", status, payment_intent_id, cushions_count, color_images,
+    created_at, updated_at
+  )
+  SELECT
+    p_user_id, o.projectname, COALESCE(o.quantity, 0), o.color, o.name, o.contact_name, o.address,
+    o.address2, o.city, o.country, o.zipcode, o.state, o.company_phone, o.phonenumber, o.email,
+    o.ship_by_date, o.boat_make, o.boat_model, o.boat_year, o.boat_length, o."boat_HIN", 'UNPAID',
+    '{}', COALESCE(o.cushions_count, 0), o.color_images, NOW(), NOW()
+  FROM jsonb_populate_record(NULL::orders, p_order) AS o
+  RETURNING * INTO v_order;
+
+  INSERT INTO cushions (order_id, name, quantity, mirror, videos)
+  SELECT v_order.id, c.name, c.quantity, COALESCE(c.mirror, false), c.videos
+  FROM jsonb_populate_recordset(NULL::cushions, p_cushions) AS c;
+
+  IF p_draft_id IS NOT NULL THEN
+    UPDATE order_drafts
+    SET status = 'finalized', order_id = v_order.id, finalized_at = NOW(), updated_at = NOW()
+    WHERE id = p_draft_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Only edge functions using the service role may create orders this way
+REVOKE EXECUTE ON FUNCTION finalize_order_draft(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
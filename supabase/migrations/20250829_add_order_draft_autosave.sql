@@ -0,0 +1,13 @@
+-- Keep the new order wizard's state on the draft so customers can measure a boat over several sessions.
+-- form_data holds NewOrderFormData with uploaded files referenced by their scans path.
+ALTER TABLE order_drafts
+  ADD COLUMN IF NOT EXISTS form_data JSONB,
+  ADD COLUMN IF NOT EXISTS current_page TEXT;
+
+-- Policy: Users can autosave their open drafts, or discard them. Discarded drafts are swept by
+-- cleanup-order-drafts; finalizing still only happens through finalize_order_draft.
+CREATE POLICY "Users can update their own open drafts"
+  ON order_drafts
+  FOR UPDATE
+  USING (user_id = auth.uid() AND status = 'open')
+  WITH CHECK (user_id = auth.uid() AND status IN ('open', 'abandoned') AND order_id IS NULL);
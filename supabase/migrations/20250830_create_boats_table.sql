@@ -0,0 +1,172 @@
+-- Create boats table: the boats (fleet) saved on a customer's account.
+-- Orders reference the boat they were made for, so everything made for a hull can be listed.
+-- The order keeps its own copy of the boat details as they were when it was placed.
+CREATE TABLE IF NOT EXISTS boats (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT, -- the customer's name for the boat, e.g. a charter fleet's hull name
+  make TEXT NOT NULL,
+  model TEXT NOT NULL,
+  year INTEGER,
+  length INTEGER, -- feet
+  hin TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_boats_user ON boats(user_id);
+-- A hull is saved once per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_boats_user_hin ON boats(user_id, upper(hin)) WHERE hin IS NOT NULL AND hin <> '';
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS boat_id BIGINT REFERENCES boats(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_boat ON orders(boat_id, created_at DESC);
+
+-- Backfill a boat for every hull already ordered for, matched by HIN
+INSERT INTO boats (user_id, make, model, year, length, hin, created_at)
+SELECT DISTINCT ON (o.user_id, upper(trim(o."boat_HIN")))
+  o.user_id,
+  COALESCE(o.boat_make, ''),
+  COALESCE(o.boat_model, ''),
+  o.boat_year,
+  o.boat_length,
+  trim(o."boat_HIN"),
+  o.created_at
+FROM orders o
+WHERE o."boat_HIN" IS NOT NULL
+  AND trim(o."boat_HIN") <> ''
+ORDER BY o.user_id, upper(trim(o."boat_HIN")), o.created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE orders o
+SET boat_id = b.id
+FROM boats b
+WHERE o.boat_id IS NULL
+  AND b.user_id = o.user_id
+  AND upper(b.hin) = upper(trim(o."boat_HIN"));
+
+-- Add RLS policies
+ALTER TABLE boats ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own boats
+CREATE POLICY "Users can view their own boats"
+  ON boats
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Users can add boats to their account
+CREATE POLICY "Users can create their own boats"
+  ON boats
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Users can edit their own boats
+CREATE POLICY "Users can update their own boats"
+  ON boats
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Users can remove their own boats; their orders keep the boat details
+CREATE POLICY "Users can delete their own boats"
+  ON boats
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Policy: Admins can view every boat to see a hull's order history
+CREATE POLICY "Admins can view all boats"
+  ON boats
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- finalize_order_draft now links the order to a boat: the one picked from the customer's saved boats,
+-- else the saved boat with the same HIN, else a boat saved from the order's details.
+CREATE OR REPLACE FUNCTION finalize_order_draft(
+  p_user_id UUID,
+  p_draft_id UUID,
+  p_order JSONB,
+  p_cushions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_draft order_drafts;
+  v_order orders;
+  v_fields orders;
+  v_boat_id BIGINT;
+BEGIN
+  IF p_draft_id IS NOT NULL THEN
+    SELECT * INTO v_draft FROM order_drafts WHERE id = p_draft_id FOR UPDATE;
+
+    IF NOT FOUND OR v_draft.user_id <> p_user_id THEN
+      RAISE EXCEPTION 'Order draft % not found', p_draft_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_draft.status = 'finalized' AND v_draft.order_id IS NOT NULL THEN
+      SELECT * INTO v_order FROM orders WHERE id = v_draft.order_id;
+      RETURN v_order;
+    END IF;
+
+    IF v_draft.status <> 'open' THEN
+      RAISE EXCEPTION 'Order draft % has expired', p_draft_id USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  v_fields := jsonb_populate_record(NULL::orders, p_order);
+
+  IF v_fields.boat_id IS NOT NULL THEN
+    SELECT id INTO v_boat_id FROM boats WHERE id = v_fields.boat_id AND user_id = p_user_id;
+    IF v_boat_id IS NULL THEN
+      RAISE EXCEPTION 'Boat % not found', v_fields.boat_id USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF COALESCE(trim(v_fields."boat_HIN"), '') <> '' THEN
+    SELECT id INTO v_boat_id
+    FROM boats
+    WHERE user_id = p_user_id AND upper(hin) = upper(trim(v_fields."boat_HIN"));
+
+    IF v_boat_id IS NULL AND v_fields.boat_make IS NOT NULL AND v_fields.boat_model IS NOT NULL THEN
+      INSERT INTO boats (user_id, make, model, year, length, hin)
+      VALUES (p_user_id, v_fields.boat_make, v_fields.boat_model, v_fields.boat_year, v_fields.boat_length, trim(v_fields."boat_HIN"))
+      RETURNING id INTO v_boat_id;
+    END IF;
+  END IF;
+
+  INSERT INTO orders (
+    user_id, projectname, quantity, color, name, contact_name, address, address2, city, country,
+    zipcode, state, company_phone, phonenumber, email, ship_by_date, boat_id, boat_make, boat_model,
+    boat_year, boat_length, "boat_HIN", status, payment_intent_id, cushions_count, color_images,
+    created_at, updated_at
+  )
+  VALUES (
+    p_user_id, v_fields.projectname, COALESCE(v_fields.quantity, 0), v_fields.color, v_fields.name,
+    v_fields.contact_name, v_fields.address, v_fields.address2, v_fields.city, v_fields.country,
+    v_fields.zipcode, v_fields.state, v_fields.company_phone, v_fields.phonenumber, v_fields.email,
+    v_fields.ship_by_date, v_boat_id, v_fields.boat_make, v_fields.boat_model, v_fields.boat_year,
+    v_fields.boat_length, v_fields."boat_HIN", 'UNPAID', '{}', COALESCE(v_fields.cushions_count, 0),
+    v_fields.color_images, NOW(), NOW()
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO cushions (order_id, name, quantity, mirror, videos)
+  SELECT v_order.id, c.name, c.quantity, COALESCE(c.mirror, false), c.videos
+  FROM jsonb_populate_recordset(NULL::cushions, p_cushions) AS c;
+
+  IF p_draft_id IS NOT NULL THEN
+    UPDATE order_drafts
+    SET status = 'finalized', order_id = v_order.id, finalized_at = NOW(), updated_at = NOW()
+    WHERE id = p_draft_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION finalize_order_draft(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Create addresses table: a customer's address book of labeled shipping addresses (home, marina,
+-- upholstery shop). The wizard copies the picked address into the order's own address columns, so
+-- editing or deleting an address never changes the orders already shipped to it.
+CREATE TABLE IF NOT EXISTS addresses (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  name TEXT NOT NULL, -- customer or company name
+  contact_name TEXT,
+  address TEXT NOT NULL,
+  address2 TEXT,
+  city TEXT,
+  state TEXT NOT NULL,
+  zipcode TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT 'United States',
+  company_phone TEXT,
+  phonenumber TEXT,
+  email TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user ON addresses(user_id);
+-- At most one default address per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_user_default ON addresses(user_id) WHERE is_default;
+
+-- Add RLS policies
+ALTER TABLE addresses ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own addresses
+CREATE POLICY "Users can view their own addresses"
+  ON addresses
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Users can add addresses to their address book
+CREATE POLICY "Users can create their own addresses"
+  ON addresses
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Users can edit their own addresses
+CREATE POLICY "Users can update their own addresses"
+  ON addresses
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Policy: Users can remove their own addresses
+CREATE POLICY "Users can delete their own addresses"
+  ON addresses
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Make an address the caller's default, clearing the previous default first so the unique index
+-- never sees two. Runs as the caller, so RLS limits it to their own addresses.
+CREATE OR REPLACE FUNCTION set_default_address(p_address_id BIGINT)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE addresses
+  SET is_default = false, updated_at = NOW()
+  WHERE user_id = auth.uid() AND is_default AND id <> p_address_id;
+
+  UPDATE addresses
+  SET is_default = true, updated_at = NOW()
+  WHERE user_id = auth.uid() AND id = p_address_id;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Create shipments table: the packages an order was shipped in, entered by staff when the order moves
+-- to SHIPPING. sync-shipments polls the carrier for tracking status and moves the order to DELIVERED
+-- once all of its shipments are delivered.
+CREATE TABLE IF NOT EXISTS shipments (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  carrier TEXT NOT NULL, -- carrier code from _shared/carriers.ts, e.g. 'ups'
+  tracking_number TEXT NOT NULL,
+  ship_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  package_count INTEGER NOT NULL DEFAULT 1 CHECK (package_count > 0),
+  weight_lbs NUMERIC(8, 2) CHECK (weight_lbs > 0), -- total for all packages
+  tracking_status TEXT NOT NULL DEFAULT 'label_created' CHECK (tracking_status IN (
+    'label_created',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'exception'
+  )),
+  tracking_status_detail TEXT, -- the carrier's own description of the latest scan
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for order lookups and the sync's search for shipments still in transit
+CREATE INDEX IF NOT EXISTS idx_shipments_order ON shipments(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_shipments_sync ON shipments(last_checked_at NULLS FIRST) WHERE tracking_status <> 'delivered';
+
+-- Add RLS policies
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Customers can view the shipments of their own orders
+CREATE POLICY "Users can view shipments for their own orders"
+  ON shipments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = shipments.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Admins can view all shipments
+CREATE POLICY "Admins can view all shipments"
+  ON shipments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- Shipments are written by update-order-status and sync-shipments with the service role.
+
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check CHECK (event_type IN (
+  'status_changed',
+  'outstanding_amount_changed',
+  'payment_received',
+  'payment_failed',
+  'checkout_expired',
+  'refund_issued',
+  'refund_processed',
+  'refund_updated',
+  'dispute_opened',
+  'dispute_closed',
+  'attention_resolved',
+  'quote_created',
+  'quote_sent',
+  'quote_accepted',
+  'quote_rejected',
+  'quote_expired',
+  'shipment_created',
+  'shipment_status_changed'
+));
@@ -0,0 +1,97 @@
+-- Create colors table: the fabric color catalog offered in the order wizard, managed by staff on the
+-- Colors page instead of a hard-coded list. Orders keep the color names they were placed with, so a
+-- color is discontinued by clearing is_active rather than deleted; old orders still find its swatch.
+CREATE TABLE IF NOT EXISTS colors (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE, -- what orders.color stores
+  hex TEXT NOT NULL CHECK (hex ~ '^#[0-9A-Fa-f]{6}$'),
+  swatch_path TEXT, -- object in the color-swatches bucket, a photo of the fabric
+  fabric_line TEXT, -- e.g. the mill's collection the color belongs to
+  is_active BOOLEAN NOT NULL DEFAULT true, -- false once discontinued; hidden from new orders
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (surcharge >= 0), -- per piece, the quote's default fabric surcharge
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_colors_sort ON colors(sort_order, name);
+
+-- Add RLS policies
+ALTER TABLE colors ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Everyone signed in can view the catalog, discontinued colors included
+CREATE POLICY "Users can view colors"
+  ON colors
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Policy: Admins can manage the catalog
+CREATE POLICY "Admins can manage colors"
+  ON colors
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- Seed with the colors previously hard-coded in src/types/color.ts. Beige, Inova and Grey shared one
+-- placeholder hex there (#6D6549, kept for Grey); Beige and Inova get their own approximate shades so the
+-- picker tells them apart. Staff can refine them (or add swatch photos) on the Colors page.
+INSERT INTO colors (name, hex, sort_order) VALUES
+  ('White', '#E5E3C5', 10),
+  ('Malta', '#A59B6D', 20),
+  ('Beige', '#B8A886', 30),
+  ('Inova', '#8A8266', 40),
+  ('Grey', '#6D6549', 50),
+  ('Brown', '#533721', 60),
+  ('Haiti', '#35241A', 70),
+  ('Java', '#28231D', 80),
+  ('Black', '#191817', 90),
+  ('Iguana', '#494135', 100),
+  ('Corsica', '#1F2640', 110),
+  ('Aruba', '#4F5877', 120),
+  ('Madeirra', '#414F24', 130),
+  ('Maldives', '#80750C', 140),
+  ('Tobago', '#621A20', 150),
+  ('Honolulu', '#B29C6C', 160),
+  ('Corfu', '#9B8543', 170),
+  ('Crete', '#8B5D18', 180),
+  ('Antigua', '#954816', 190),
+  ('Grenada', '#771D1A', 200)
+ON CONFLICT (name) DO NOTHING;
+
+-- Swatch photos are public so the wizard can show them without signing every URL
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('color-swatches', 'color-swatches', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy: Admins can upload and replace swatch photos
+CREATE POLICY "Admins can manage color swatches"
+  ON storage.objects
+  FOR ALL
+  USING (
+    bucket_id = 'color-swatches'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'color-swatches'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
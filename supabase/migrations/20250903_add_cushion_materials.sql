@@ -0,0 +1,89 @@
+-- Record what each cushion is made of: fabric line, fabric color, piping and thread colors, and foam.
+-- material holds CushionMaterial (src/types/order.ts); create-order checks its choices before the
+-- order is stored. Cushions of earlier orders have none.
+ALTER TABLE cushions
+  ADD COLUMN IF NOT EXISTS material JSONB;
+
+-- finalize_order_draft now copies each cushion's material
+CREATE OR REPLACE FUNCTION finalize_order_draft(
+  p_user_id UUID,
+  p_draft_id UUID,
+  p_order JSONB,
+  p_cushions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_draft order_drafts;
+  v_order orders;
+  v_fields orders;
+  v_boat_id BIGINT;
+BEGIN
+  IF p_draft_id IS NOT NULL THEN
+    SELECT * INTO v_draft FROM order_drafts WHERE id = p_draft_id FOR UPDATE;
+
+    IF NOT FOUND OR v_draft.user_id <> p_user_id THEN
+      RAISE EXCEPTION 'Order draft % not found', p_draft_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_draft.status = 'finalized' AND v_draft.order_id IS NOT NULL THEN
+      SELECT * INTO v_order FROM orders WHERE id = v_draft.order_id;
+      RETURN v_order;
+    END IF;
+
+    IF v_draft.status <> 'open' THEN
+      RAISE EXCEPTION 'Order draft % has expired', p_draft_id USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  v_fields := jsonb_populate_record(NULL::orders, p_order);
+
+  IF v_fields.boat_id IS NOT NULL THEN
+    SELECT id INTO v_boat_id FROM boats WHERE id = v_fields.boat_id AND user_id = p_user_id;
+    IF v_boat_id IS NULL THEN
+      RAISE EXCEPTION 'Boat % not found', v_fields.boat_id USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF COALESCE(trim(v_fields."boat_HIN"), '') <> '' THEN
+    SELECT id INTO v_boat_id
+    FROM boats
+    WHERE user_id = p_user_id AND upper(hin) = upper(trim(v_fields."boat_HIN"));
+
+    IF v_boat_id IS NULL AND v_fields.boat_make IS NOT NULL AND v_fields.boat_model IS NOT NULL THEN
+      INSERT INTO boats (user_id, make, model, year, length, hin)
+      VALUES (p_user_id, v_fields.boat_make, v_fields.boat_model, v_fields.boat_year, v_fields.boat_length, trim(v_fields."boat_HIN"))
+      RETURNING id INTO v_boat_id;
+    END IF;
+  END IF;
+
+  INSERT INTO orders (
+    user_id, projectname, quantity, color, name, contact_name, address, address2, city, country,
+    zipcode, state, company_phone, phonenumber, email, ship_by_date, boat_id, boat_make, boat_model,
+    boat_year, boat_length, "boat_HIN", status, payment_intent_id, cushions_count, color_images,
+    created_at, updated_at
+  )
+  VALUES (
+    p_user_id, v_fields.projectname, COALESCE(v_fields.quantity, 0), v_fields.color, v_fields.name,
+    v_fields.contact_name, v_fields.address, v_fields.address2, v_fields.city, v_fields.country,
+    v_fields.zipcode, v_fields.state, v_fields.company_phone, v_fields.phonenumber, v_fields.email,
+    v_fields.ship_by_date, v_boat_id, v_fields.boat_make, v_fields.boat_model, v_fields.boat_year,
+    v_fields.boat_length, v_fields."boat_HIN", 'UNPAID', '{}', COALESCE(v_fields.cushions_count, 0),
+    v_fields.color_images, NOW(), NOW()
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO cushions (order_id, name, quantity, mirror, videos, material)
+  SELECT v_order.id, c.name, c.quantity, COALESCE(c.mirror, false), c.videos, c.material
+  FROM jsonb_populate_recordset(NULL::cushions, p_cushions) AS c;
+
+  IF p_draft_id IS NOT NULL THEN
+    UPDATE order_drafts
+    SET status = 'finalized', order_id = v_order.id, finalized_at = NOW(), updated_at = NOW()
+    WHERE id = p_draft_id;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION finalize_order_draft(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,91 @@
+-- Create sample_requests table: fabric swatches a customer asks to have mailed before ordering. A
+-- lightweight order of its own: the colors to send, a copy of the address to send them to and a short
+-- lifecycle of its own (UNPAID while a sample fee is due, REQUESTED, SENT, DELIVERED). Requests are
+-- created by the request-samples edge function, and the fee is paid through create-payment-intent.
+CREATE TABLE IF NOT EXISTS sample_requests (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'REQUESTED' CHECK (status IN (
+    'UNPAID',
+    'REQUESTED',
+    'SENT',
+    'DELIVERED',
+    'CANCELLED'
+  )),
+  colors TEXT[] NOT NULL CHECK (cardinality(colors) > 0), -- names from the colors table
+  name TEXT NOT NULL, -- Customer/Company Name
+  contact_name TEXT,
+  address TEXT NOT NULL,
+  address2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  zipcode TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT 'United States',
+  phonenumber TEXT,
+  email TEXT,
+  fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  payment_intent_id TEXT, -- set by the webhook once the fee is paid
+  paid_at TIMESTAMP WITH TIME ZONE,
+  carrier TEXT, -- carrier code from src/lib/carriers.ts, entered when the samples are sent
+  tracking_number TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for a customer's requests and the admin list, newest first
+CREATE INDEX IF NOT EXISTS idx_sample_requests_user ON sample_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sample_requests_created ON sample_requests(created_at DESC);
+
+-- Add RLS policies
+ALTER TABLE sample_requests ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Customers can view their own sample requests
+CREATE POLICY "Users can view their own sample requests"
+  ON sample_requests
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Admins can view all sample requests
+CREATE POLICY "Admins can view all sample requests"
+  ON sample_requests
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  );
+
+-- Policy: Admins move sample requests through their statuses and enter the tracking number. The
+-- customer and payment columns are only written by the service role, so they must keep their stored values
+CREATE POLICY "Admins can update sample requests"
+  ON sample_requests
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.is_admin = true
+    )
+    AND EXISTS (
+      SELECT 1 FROM sample_requests stored
+      WHERE stored.id = sample_requests.id
+        AND stored.user_id = sample_requests.user_id
+        AND stored.fee = sample_requests.fee
+        AND stored.amount_paid = sample_requests.amount_paid
+        AND stored.payment_intent_id IS NOT DISTINCT FROM sample_requests.payment_intent_id
+        AND stored.paid_at IS NOT DISTINCT FROM sample_requests.paid_at
+    )
+  );
+
+-- Requests are inserted by request-samples and marked paid by stripe-webhook with the service role.
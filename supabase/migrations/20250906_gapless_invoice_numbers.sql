@@ -0,0 +1,46 @@
+-- Number invoices from a counter row instead of invoice_number_seq. Sequence values are never given back,
+-- so every failed insert (e.g. losing the race to issue a payment's invoice) left a gap in the numbering.
+-- The counter is bumped inside the inserting transaction: an insert that fails its unique checks rolls
+-- the bump back with it, and the row lock keeps concurrent invoices waiting until the number is used.
+CREATE TABLE IF NOT EXISTS invoice_number_counter (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- a single row
+  last_number BIGINT NOT NULL
+);
+
+-- Continue after the highest number issued so far
+INSERT INTO invoice_number_counter (id, last_number)
+SELECT TRUE, COALESCE(MAX(substring(invoice_number FROM 5)::BIGINT), 0)
+FROM invoices
+ON CONFLICT (id) DO NOTHING;
+
+-- Add RLS policies
+ALTER TABLE invoice_number_counter ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the counter is only touched by the trigger below, for inserts made with the service role.
+
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_number BIGINT;
+BEGIN
+  UPDATE invoice_number_counter
+  SET last_number = last_number + 1
+  WHERE id
+  RETURNING last_number INTO v_number;
+
+  NEW.invoice_number := 'INV-' || lpad(v_number::text, 6, '0');
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE invoices ALTER COLUMN invoice_number DROP DEFAULT;
+
+DROP TRIGGER IF EXISTS assign_invoice_number ON invoices;
+CREATE TRIGGER assign_invoice_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+DROP SEQUENCE IF EXISTS invoice_number_seq;